@@ -1,5 +1,21 @@
 const fs = require('node:fs');
-const path = require('node:path');
+const {
+  alignCircuits,
+  compareResults,
+  compareSweeps,
+  diffSideEffects,
+  findBenchmarkPairs,
+  formatBatchOverhead,
+  formatDiff,
+  formatSideEffectChanges,
+  formatSweepComparison,
+  getExcludedNames,
+  getProvenanceWarnings,
+  getStatusEmoji,
+  getTopCircuitChanges,
+  readReport,
+  resolveThresholds,
+} = require('../dist/comparison.cjs');
 
 /**
  * Formats system info as a markdown table.
@@ -25,130 +41,41 @@ function formatSystemInfoTable(systemInfo) {
 }
 
 /**
- * Extracts DA (Data Availability) gas from a benchmark result.
- * @param {object} result - The benchmark result object.
- * @returns {number} The DA gas value, or 0 if not found.
+ * Escapes text for use inside HTML table cells.
+ * @param {string} text - The raw text.
+ * @returns {string} The escaped text.
  */
-const getDaGas = (result) => result?.gas?.gasLimits?.daGas ?? 0;
-/**
- * Extracts L2 gas from a benchmark result.
- * @param {object} result - The benchmark result object.
- * @returns {number} The L2 gas value, or 0 if not found.
- */
-const getL2Gas = (result) => result?.gas?.gasLimits?.l2Gas ?? 0;
-/**
- * Extracts proving time from a benchmark result.
- * @param {object} result - The benchmark result object.
- * @returns {number} The proving time in milliseconds, or 0 if not found.
- */
-const getProvingTime = (result) => result?.provingTime ?? 0;
-
-/**
- * Formats the difference between two numbers as a string, including percentage change.
- * Handles cases like zero main value (infinite increase) or zero pr value (100% decrease).
- * @param {number} main - The base value.
- * @param {number} pr - The new value (from Pull Request).
- * @returns {string} A formatted string representing the difference, or an empty string if no significant change.
- */
-const formatDiff = (main, pr) => {
-  if (main === 0 && pr === 0) return ''; // Use empty string for no change if both zero
-  if (main === 0) return '+Inf%'; // Handle infinite increase
-  if (pr === 0) return '-100%'; // Handle 100% decrease
-
-  const diff = pr - main;
-  if (diff === 0) return ''; // Use empty string for no change
+const escapeHtml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
 
-  const pct = (diff / main) * 100;
-  const sign = diff > 0 ? '+' : '';
-
-  if (Math.abs(pct) < 0.01 && Math.abs(diff) < 1) return ''; // Threshold for small changes
-  // Format with commas and show percentage
-  return `${sign}${diff.toLocaleString()} (${sign}${pct.toFixed(1)}%)`;
-};
+/** Markers shown next to circuits that only ran on one side */
+const CIRCUIT_STATUS_MARKER = { added: '➕ ', removed: '➖ ', changed: '', unchanged: '' };
 
 /**
- * Determines an emoji status based on benchmark metric changes and a threshold.
- * @param {object} metrics - An object containing main and pr values for gates, daGas, and l2Gas.
- * @param {number} threshold - The percentage threshold for significant change.
- * @returns {string} An emoji: '🚮' for removed, '🆕' for new, '🔴' for regression, '🟢' for improvement, '⚪' for no significant change.
+ * Formats a witness generation time.
+ * @param {number|undefined} ms - The time in milliseconds.
+ * @returns {string} The rounded time, or an empty string if not measured.
  */
-const getStatusEmoji = (metrics, threshold) => {
-  const isRemoved = metrics.gates.pr === 0 && metrics.daGas.pr === 0 && metrics.l2Gas.pr === 0 &&
-                  (metrics.gates.main > 0 || metrics.daGas.main > 0 || metrics.l2Gas.main > 0);
-  const isNew = metrics.gates.main === 0 && metrics.daGas.main === 0 && metrics.l2Gas.main === 0 &&
-              (metrics.gates.pr > 0 || metrics.daGas.pr > 0 || metrics.l2Gas.pr > 0);
-
-  if (isRemoved) return '🚮';
-  if (isNew) return '🆕';
-
-  // Avoid division by zero, handle infinite increases
-  const gateDiffPct = metrics.gates.main === 0 ? (metrics.gates.pr > 0 ? Infinity : 0) :
-                    (metrics.gates.pr - metrics.gates.main) / metrics.gates.main;
-  const daGasDiffPct = metrics.daGas.main === 0 ? (metrics.daGas.pr > 0 ? Infinity : 0) :
-                    (metrics.daGas.pr - metrics.daGas.main) / metrics.daGas.main;
-  const l2GasDiffPct = metrics.l2Gas.main === 0 ? (metrics.l2Gas.pr > 0 ? Infinity : 0) :
-                    (metrics.l2Gas.pr - metrics.l2Gas.main) / metrics.l2Gas.main;
-
-  const metricsDiffs = [gateDiffPct, daGasDiffPct, l2GasDiffPct].filter(m => isFinite(m));
-  const hasInfiniteIncrease = [gateDiffPct, daGasDiffPct, l2GasDiffPct].some(m => m === Infinity);
-
-  // Use threshold percentage directly
-  const thresholdDecimal = threshold / 100.0;
-
-  const hasRegression = hasInfiniteIncrease || metricsDiffs.some(m => m > thresholdDecimal);
-  const hasImprovement = metricsDiffs.some(m => m < -thresholdDecimal);
-
-  if (hasRegression) return '🔴'; // Regression
-  if (hasImprovement) return '🟢'; // Improvement
-  return '⚪'; // No significant change / within threshold
-};
+const formatWitgen = (ms) => (ms === undefined ? '' : ms.toFixed(1));
 
 /**
- * Finds pairs of benchmark report files (base and PR/latest) in a directory.
- * Now includes new contracts that only have PR reports (no corresponding base report).
- * @param {string} reportsDir - The directory containing benchmark reports.
- * @param {string} baseSuffix - The suffix for base report filenames (e.g., '_base').
- * @param {string} prSuffix - The suffix for PR/latest report filenames (e.g., '_latest').
- * @returns {Array<object>} An array of pairs, each with contractName, baseJsonPath (or null), and prJsonPath.
+ * Formats the gate difference of an aligned circuit.
+ * @param {object} circuit - The aligned circuit from alignCircuits.
+ * @returns {string} The signed gate count for added/removed circuits, otherwise the diff with percentage.
  */
-function findBenchmarkPairs(reportsDir, baseSuffix, prSuffix) {
-  const pairs = [];
-  const prSuffixPattern = `${prSuffix}.benchmark.json`;
-  const baseSuffixPattern = `${baseSuffix}.benchmark.json`;
-
-  try {
-    const files = fs.readdirSync(reportsDir);
-    for (const file of files) {
-      if (file.endsWith(prSuffixPattern)) {
-        // Extract contract name from PR filename
-        const contractName = file.substring(0, file.length - prSuffixPattern.length);
-        // Construct expected baseline filename
-        const baseFilename = `${contractName}${baseSuffixPattern}`;
-        const baseJsonPath = path.join(reportsDir, baseFilename);
-        const prJsonPath = path.join(reportsDir, file);
-
-        // Include all PR reports, whether or not they have a corresponding base report
-        pairs.push({
-          contractName,
-          baseJsonPath: fs.existsSync(baseJsonPath) ? baseJsonPath : null,
-          prJsonPath
-        });
-      }
-    }
-  } catch (error) {
-    // Handle cases where the directory doesn't exist
-    if (error.code === 'ENOENT') {
-      console.warn(`Reports directory not found: ${reportsDir}`);
-    } else {
-      console.error(`Error reading reports directory ${reportsDir}:`, error);
-    }
-  }
-  return pairs;
+function formatCircuitDiff(circuit) {
+  if (circuit.status === 'added') return `+${circuit.gates.pr.toLocaleString()}`;
+  if (circuit.status === 'removed') return `-${circuit.gates.main.toLocaleString()}`;
+  return formatDiff(circuit.gates.main, circuit.gates.pr);
 }
 
 /**
  * Generates an expandable circuit breakdown section for all functions in a contract.
- * Uses <details>/<summary> HTML for a collapsible view placed below the summary table.
+ * Base and PR circuits are aligned by name and occurrence, so an extra kernel iteration
+ * shows up as an added circuit. Uses <details>/<summary> HTML for a collapsible view placed below the summary table.
  * @param {object} comparison - The comparison object keyed by function name.
  * @param {string[]} sortedNames - Sorted function names.
  * @returns {string} HTML string with the expandable circuit breakdown, or empty string if no data.
@@ -156,7 +83,7 @@ function findBenchmarkPairs(reportsDir, baseSuffix, prSuffix) {
 function generateCircuitBreakdownSection(comparison, sortedNames, contractName) {
   const hasAnyCircuitData = sortedNames.some(name => {
     const gc = comparison[name]?.gateCounts;
-    return gc && gc.pr.length > 0;
+    return gc && (gc.pr.length > 0 || gc.main.length > 0);
   });
   if (!hasAnyCircuitData) return '';
 
@@ -168,34 +95,122 @@ function generateCircuitBreakdownSection(comparison, sortedNames, contractName)
 
   for (const funcName of sortedNames) {
     const gc = comparison[funcName]?.gateCounts;
-    if (!gc || gc.pr.length === 0) continue;
+    if (!gc || (gc.pr.length === 0 && gc.main.length === 0)) continue;
 
     lines.push(
       `#### \`${funcName}\``,
       '',
-      '| Circuit | Gates |',
-      '|---------|---:|',
+      '| Circuit | Base | PR | Diff | Witgen base (ms) | Witgen PR (ms) |',
+      '|---------|---:|---:|---:|---:|---:|',
     );
 
-    for (const entry of gc.pr) {
-      lines.push(`| \`${entry.circuitName}\` | ${entry.gateCount.toLocaleString()} |`);
+    for (const circuit of alignCircuits(gc.main, gc.pr)) {
+      lines.push(
+        `| ${CIRCUIT_STATUS_MARKER[circuit.status]}\`${circuit.label}\` ` +
+        `| ${circuit.status === 'added' ? '' : circuit.gates.main.toLocaleString()} ` +
+        `| ${circuit.status === 'removed' ? '' : circuit.gates.pr.toLocaleString()} ` +
+        `| ${formatCircuitDiff(circuit)} ` +
+        `| ${formatWitgen(circuit.witgenMs.main)} | ${formatWitgen(circuit.witgenMs.pr)} |`,
+      );
     }
 
     lines.push('');
   }
 
-  lines.push('</details>');
+  lines.push('➕ circuit only executed in the PR, ➖ circuit only executed in the base.', '', '</details>');
   return lines.join('\n');
 }
 
+/**
+ * Describes the circuits that contribute most to a function's gate count change.
+ * @param {object} gateCounts - The base and PR per-circuit gate counts of the function.
+ * @returns {string} HTML listing the top contributors, or an empty string if there is nothing to compare.
+ */
+function formatTopCircuitChanges(gateCounts) {
+  // New and removed functions have nothing to align against.
+  if (gateCounts.main.length === 0 || gateCounts.pr.length === 0) return '';
+  const top = getTopCircuitChanges(alignCircuits(gateCounts.main, gateCounts.pr));
+  if (top.length === 0) return '';
+  const items = top.map(circuit => {
+    const diff = circuit.gates.pr - circuit.gates.main;
+    const note = circuit.status === 'added' ? ' new' : circuit.status === 'removed' ? ' removed' : '';
+    return `${escapeHtml(circuit.label)} ${diff > 0 ? '+' : ''}${diff.toLocaleString()}${note}`;
+  });
+  return `<br><sub>${items.join(', ')}</sub>`;
+}
+
+/**
+ * Describes the side effect counts of a function that changed, e.g. added notes or nullifiers.
+ * @param {object} sideEffects - The base and PR side effects of the function.
+ * @returns {string} HTML listing the changes, or an empty string if nothing changed or a side has none recorded.
+ */
+function formatSideEffectChangesCell(sideEffects) {
+  const description = formatSideEffectChanges(diffSideEffects(sideEffects));
+  return description ? `<br><sub>Side effects: ${escapeHtml(description)}</sub>` : '';
+}
+
+/**
+ * Describes the calls of a batch and its cost compared with sending them separately.
+ * @param {object|undefined} batch - The base and PR batch breakdowns of the function.
+ * @returns {string} HTML with the description, or an empty string if the function is not a batch.
+ */
+function formatBatchCell(batch) {
+  const description = formatBatchOverhead(batch);
+  return description ? `<br><sub>Batch: ${escapeHtml(description)}</sub>` : '';
+}
+
+/**
+ * Generates a markdown table listing the budget limits exceeded in the PR report.
+ * @param {Array<object>} violations - The `budgetViolations` of the PR report.
+ * @returns {string} Markdown with the exceeded limits, or empty string if there are none.
+ */
+function generateBudgetViolationsSection(violations) {
+  if (!violations || violations.length === 0) return '';
+
+  const lines = [
+    `> [!CAUTION]`,
+    `> ${violations.length} budget limit(s) exceeded.`,
+    '',
+    '| Function | Metric | Budget | Actual |',
+    '|----------|--------|---:|---:|',
+  ];
+  for (const v of violations) {
+    lines.push(`| \`${v.name}\` | ${v.metric} | ${v.limit.toLocaleString()} | ${v.actual.toLocaleString()} |`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Generates a markdown list of the marginal costs of each parameter sweep.
+ * @param {Array<object>} sweeps - Sweep comparisons from compareSweeps.
+ * @returns {string} Markdown listing the sweeps, or empty string if there are none.
+ */
+function generateSweepsSection(sweeps) {
+  if (!sweeps || sweeps.length === 0) return '';
+  return sweeps.map(sweep => `- \`${sweep.name}\` ${formatSweepComparison(sweep)}`).join('\n');
+}
+
+/**
+ * Generates a markdown warning listing why the base and PR reports may not be comparable.
+ * @param {Array<string>} warnings - Warnings from getProvenanceWarnings.
+ * @returns {string} A markdown alert, or empty string if there are no warnings.
+ */
+function generateProvenanceWarningsSection(warnings) {
+  if (!warnings || warnings.length === 0) return '';
+  return ['> [!WARNING]', ...warnings.map(w => `> ${w}`)].join('\n');
+}
+
 /**
  * Generates an HTML table comparing benchmark results for a single contract.
  * Handles new contracts where baseJsonPath may be null (no base report exists).
  * @param {object} pair - An object containing contractName, baseJsonPath (or null), and prJsonPath.
  * @param {number} threshold - The percentage threshold for highlighting regressions.
+ * @param {object} [options] - Optional settings.
+ * @param {boolean} [options.circuitDetails] - Whether to add the per-circuit breakdown below the table.
+ * @param {number} [options.memoryThreshold] - The percentage threshold for peak memory regressions.
  * @returns {string} An HTML string representing the comparison table, or an error message.
  */
-function generateContractComparisonTable(pair, threshold, { circuitDetails = false } = {}) {
+function generateContractComparisonTable(pair, threshold, { circuitDetails = false, memoryThreshold } = {}) {
   const { contractName, baseJsonPath, prJsonPath } = pair;
   const isNewContract = baseJsonPath === null;
   
@@ -217,45 +232,19 @@ function generateContractComparisonTable(pair, threshold, { circuitDetails = fal
 
   let mainData, prData;
   try {
-     // For new contracts, use empty data structure for base
-     if (isNewContract) {
-       mainData = { results: [] };
-     } else {
-       mainData = JSON.parse(fs.readFileSync(baseJsonPath, 'utf-8'));
-     }
-     prData = JSON.parse(fs.readFileSync(prJsonPath, 'utf-8'));
+     // New contracts have no base report
+     mainData = isNewContract ? undefined : readReport(baseJsonPath);
+     prData = readReport(prJsonPath);
   } catch(e) {
      return `*Error parsing benchmark JSON for ${contractName}: ${e.message}*`;
   }
 
-   if (!mainData || !mainData.results || !prData || !prData.results) {
-    return `*Skipping ${contractName}: Invalid JSON structure (missing results array).*`;
-  }
+  const comparison = compareResults(mainData?.results ?? [], prData.results, getExcludedNames(mainData, prData));
 
-  const comparison = {};
-  const allFunctionNames = new Set([
-    ...mainData.results.map(r => r.name),
-    ...prData.results.map(r => r.name)
-  ]);
-
-  for (const name of allFunctionNames) {
-     if (!name || name.startsWith('unknown_function') || name.includes('(FAILED)') || name === 'BENCHMARK_RUNNER_ERROR') {
-      console.log(` Skipping comparison for malformed/failed entry: ${name}`);
-      continue;
-    }
-    const mainResult = mainData.results.find((r) => r.name === name);
-    const prResult = prData.results.find((r) => r.name === name);
-
-    comparison[name] = {
-      gates: { main: mainResult?.totalGateCount ?? 0, pr: prResult?.totalGateCount ?? 0 },
-      daGas: { main: getDaGas(mainResult), pr: getDaGas(prResult) },
-      l2Gas: { main: getL2Gas(mainResult), pr: getL2Gas(prResult) },
-      provingTime: { main: getProvingTime(mainResult), pr: getProvingTime(prResult) },
-      gateCounts: { main: mainResult?.gateCounts ?? [], pr: prResult?.gateCounts ?? [] },
-    };
-  }
+  const warningSection = generateProvenanceWarningsSection(getProvenanceWarnings(mainData, prData));
 
   const output = [
+    ...(warningSection ? [warningSection, ''] : []),
     '<table>',
     '<thead>',
     '<tr>',
@@ -264,7 +253,11 @@ function generateContractComparisonTable(pair, threshold, { circuitDetails = fal
       '<th colspan="3">Gates</th>',
       '<th colspan="3">DA Gas</th>',
       '<th colspan="3">L2 Gas</th>',
+      '<th colspan="3">Teardown DA Gas</th>',
+      '<th colspan="3">Teardown L2 Gas</th>',
+      '<th colspan="3">Fee</th>',
       '<th colspan="3">Proving Time (ms)</th>',
+      '<th colspan="3">Peak Memory (MiB)</th>',
     '</tr>',
     '<tr>',
       '<th></th>',
@@ -281,6 +274,18 @@ function generateContractComparisonTable(pair, threshold, { circuitDetails = fal
       '<th>Base</th>',
       '<th>PR</th>',
       '<th>Diff</th>',
+      '<th>Base</th>',
+      '<th>PR</th>',
+      '<th>Diff</th>',
+      '<th>Base</th>',
+      '<th>PR</th>',
+      '<th>Diff</th>',
+      '<th>Base</th>',
+      '<th>PR</th>',
+      '<th>Diff</th>',
+      '<th>Base</th>',
+      '<th>PR</th>',
+      '<th>Diff</th>',
     '</tr>',
     '</thead>',
     '<tbody>',
@@ -296,14 +301,41 @@ function generateContractComparisonTable(pair, threshold, { circuitDetails = fal
     const metrics = comparison[funcName];
     if (!metrics) continue;
 
-    const statusEmoji = getStatusEmoji(metrics, threshold);
+    const statusEmoji = getStatusEmoji(metrics, threshold, memoryThreshold);
+
+    // Failed functions have no metrics; show why they failed across the metric columns.
+    const failure = metrics.failure?.pr;
+    if (failure) {
+      const reason = `${failure.timedOut ? 'Timed out' : 'Failed'} during ${failure.phase}: ${failure.message.split('\n')[0]}`;
+      output.push(
+        '<tr>',
+          `<td align="center">${statusEmoji}</td>`,
+          `<td><code>${funcName}</code></td>`,
+          `<td colspan="24"><em>${escapeHtml(reason)}</em></td>`,
+        '</tr>',
+      );
+      continue;
+    }
+
     const ptMain = metrics.provingTime.main > 0 ? Math.round(metrics.provingTime.main).toLocaleString() : 'N/A';
     const ptPr = metrics.provingTime.pr > 0 ? Math.round(metrics.provingTime.pr).toLocaleString() : 'N/A';
     const ptDiff = formatDiff(Math.round(metrics.provingTime.main), Math.round(metrics.provingTime.pr));
+    // Reports written before fees were recorded have no fee.
+    const feeMain = metrics.fee.main > 0 ? metrics.fee.main.toLocaleString() : 'N/A';
+    const feePr = metrics.fee.pr > 0 ? metrics.fee.pr.toLocaleString() : 'N/A';
+    const feeDiff = metrics.fee.main > 0 && metrics.fee.pr > 0 ? formatDiff(metrics.fee.main, metrics.fee.pr) : '';
+    // Reports written before resources were sampled have no peak memory.
+    const memMain = metrics.peakMemory.main > 0 ? metrics.peakMemory.main.toLocaleString() : 'N/A';
+    const memPr = metrics.peakMemory.pr > 0 ? metrics.peakMemory.pr.toLocaleString() : 'N/A';
+    const memDiff = metrics.peakMemory.main > 0 && metrics.peakMemory.pr > 0 ? formatDiff(metrics.peakMemory.main, metrics.peakMemory.pr) : '';
+    // With circuit details enabled, name the circuits behind a gate count change in the summary row.
+    const topCircuits = circuitDetails && metrics.gates.main !== metrics.gates.pr ? formatTopCircuitChanges(metrics.gateCounts) : '';
+    const sideEffectChanges = formatSideEffectChangesCell(metrics.sideEffects);
+    const batchBreakdown = formatBatchCell(metrics.batch);
     output.push(
       '<tr>',
         `<td align="center">${statusEmoji}</td>`,
-        `<td><code>${funcName}</code></td>`,
+        `<td><code>${funcName}</code>${topCircuits}${sideEffectChanges}${batchBreakdown}</td>`,
       // Gates
         `<td align="right">${metrics.gates.main.toLocaleString()}</td>`,
         `<td align="right">${metrics.gates.pr.toLocaleString()}</td>`,
@@ -316,10 +348,26 @@ function generateContractComparisonTable(pair, threshold, { circuitDetails = fal
         `<td align="right">${metrics.l2Gas.main.toLocaleString()}</td>`,
         `<td align="right">${metrics.l2Gas.pr.toLocaleString()}</td>`,
         `<td align="right">${formatDiff(metrics.l2Gas.main, metrics.l2Gas.pr)}</td>`,
+      // Teardown DA Gas
+        `<td align="right">${metrics.teardownDaGas.main.toLocaleString()}</td>`,
+        `<td align="right">${metrics.teardownDaGas.pr.toLocaleString()}</td>`,
+        `<td align="right">${formatDiff(metrics.teardownDaGas.main, metrics.teardownDaGas.pr)}</td>`,
+      // Teardown L2 Gas
+        `<td align="right">${metrics.teardownL2Gas.main.toLocaleString()}</td>`,
+        `<td align="right">${metrics.teardownL2Gas.pr.toLocaleString()}</td>`,
+        `<td align="right">${formatDiff(metrics.teardownL2Gas.main, metrics.teardownL2Gas.pr)}</td>`,
+      // Fee
+        `<td align="right">${feeMain}</td>`,
+        `<td align="right">${feePr}</td>`,
+        `<td align="right">${feeDiff}</td>`,
       // Proving Time
         `<td align="right">${ptMain}</td>`,
         `<td align="right">${ptPr}</td>`,
         `<td align="right">${ptDiff}</td>`,
+      // Peak Memory
+        `<td align="right">${memMain}</td>`,
+        `<td align="right">${memPr}</td>`,
+        `<td align="right">${memDiff}</td>`,
       '</tr>',
     );
 
@@ -327,6 +375,16 @@ function generateContractComparisonTable(pair, threshold, { circuitDetails = fal
 
   output.push('</tbody>', '</table>');
 
+  const sweepsSection = generateSweepsSection(compareSweeps(mainData, prData));
+  if (sweepsSection) {
+    output.push('', sweepsSection);
+  }
+
+  const budgetSection = generateBudgetViolationsSection(prData.budgetViolations);
+  if (budgetSection) {
+    output.push('', budgetSection);
+  }
+
   // Add expandable circuit breakdown section below the summary table
   if (circuitDetails) {
     const circuitSection = generateCircuitBreakdownSection(comparison, sortedNames, contractName);
@@ -345,16 +403,18 @@ function generateContractComparisonTable(pair, threshold, { circuitDetails = fal
  * @param {string} inputs.reportsDir - Directory where benchmark reports are stored.
  * @param {string} inputs.baseSuffix - Suffix for baseline report files.
  * @param {string} inputs.prSuffix - Suffix for PR/current report files.
- * @param {number} inputs.threshold - Percentage threshold for regressions.
+ * @param {number} [inputs.threshold] - Percentage threshold for regressions. Defaults to the `threshold` of the
+ *   config the PR reports were written with, else 2.5.
+ * @param {number} [inputs.memoryThreshold] - Percentage threshold for peak memory regressions. Defaults to the
+ *   `memoryThreshold` of the config the PR reports were written with, else 20.
  * @returns {string} A markdown string containing the full comparison report.
  */
 function runComparison(inputs) {
-  const { reportsDir, baseSuffix, prSuffix, threshold, circuitDetails = false } = inputs;
+  const { reportsDir, baseSuffix, prSuffix, circuitDetails = false } = inputs;
   console.log("Comparison script starting...");
   console.log(` Reports Dir: ${reportsDir} (expected ./benchmarks)`);
   console.log(` Base Suffix: '${baseSuffix}' (expected _base)`);
   console.log(` PR Suffix: '${prSuffix}' (expected _latest)`);
-  console.log(` Threshold: ${threshold}%`);
 
   // Find pairs by scanning the directory
   const benchmarkPairs = findBenchmarkPairs(reportsDir, baseSuffix, prSuffix);
@@ -370,22 +430,24 @@ function runComparison(inputs) {
   benchmarkPairs.sort((a, b) => a.contractName.localeCompare(b.contractName));
 
   // Read system info from benchmark report (all reports have the same info since they run on the same machine)
-  let systemInfo = null;
-  if (benchmarkPairs.length > 0) {
-    try {
-      const firstReport = JSON.parse(fs.readFileSync(benchmarkPairs[0].prJsonPath, 'utf-8'));
-      systemInfo = firstReport.systemInfo;
-    } catch (e) {
-      console.warn('Could not read system info from benchmark report:', e.message);
-    }
+  // The same goes for the config they were written with, which provides the thresholds not given as inputs.
+  let firstReport;
+  try {
+    firstReport = readReport(benchmarkPairs[0].prJsonPath);
+  } catch (e) {
+    console.warn('Could not read system info and config from benchmark report:', e.message);
   }
+  const systemInfo = firstReport?.systemInfo ?? null;
+  const { threshold, memoryThreshold } = resolveThresholds(firstReport, inputs);
+  console.log(` Threshold: ${threshold}%`);
+  console.log(` Memory Threshold: ${memoryThreshold}%`);
 
   // Add system info table (displayed once at the top)
   markdownOutput.push(formatSystemInfoTable(systemInfo));
 
   for (const pair of benchmarkPairs) {
     console.log(`\nProcessing contract: ${pair.contractName}...`);
-    const tableMarkdown = generateContractComparisonTable(pair, threshold, { circuitDetails });
+    const tableMarkdown = generateContractComparisonTable(pair, threshold, { circuitDetails, memoryThreshold });
     markdownOutput.push(`## Contract: ${pair.contractName}\n`);
     markdownOutput.push(tableMarkdown);
     markdownOutput.push('\n');
@@ -4,6 +4,21 @@ const fs = require('node:fs');
 const path = require('node:path');
 const { runComparison } = require('./comparison.cjs');
 
+/**
+ * Reads an optional numeric input.
+ * @param {string} name - The name of the input.
+ * @returns {number | undefined} The number, or undefined if the input is empty.
+ */
+function getNumberInput(name) {
+  const value = core.getInput(name);
+  if (value === '') return undefined;
+  const number = parseFloat(value);
+  if (isNaN(number)) {
+    throw new Error(`Invalid ${name} value. Please provide a number.`);
+  }
+  return number;
+}
+
 /**
  * Main function for the GitHub Action.
  * This function is responsible for:
@@ -17,18 +32,25 @@ const { runComparison } = require('./comparison.cjs');
  */
 async function run() {
   try {
-    const threshold = parseFloat(core.getInput('threshold'));
+    // Thresholds that are not set fall back to those of the config file, as in the CLI.
+    const threshold = getNumberInput('threshold');
+    const memoryThreshold = getNumberInput('memory_threshold');
     const outputMarkdownPath = core.getInput('output_markdown_path');
     const baseSuffix = core.getInput('base_suffix');
     const currentSuffix = core.getInput('current_suffix');
     const configPath = core.getInput('config_path');
+    const configFile = core.getInput('config_file');
+    const profile = core.getInput('profile');
     const reportsDir = core.getInput('reports_dir');
     const onlyReport = core.getInput('only_report') === 'true';
     const circuitDetails = core.getInput('circuit_details') === 'true';
 
     core.info('--- Inputs ---');
     core.info(`Config Path: ${configPath}`);
-    core.info(`Threshold: ${threshold}%`);
+    core.info(`Config File: ${configFile || '(default)'}`);
+    core.info(`Profile: ${profile || '(none)'}`);
+    core.info(`Threshold: ${threshold === undefined ? '(from config)' : `${threshold}%`}`);
+    core.info(`Memory Threshold: ${memoryThreshold === undefined ? '(from config)' : `${memoryThreshold}%`}`);
     core.info(`Output Markdown Path: ${outputMarkdownPath}`);
     core.info(`Reports Directory: ${reportsDir}`);
     core.info(`Base Suffix: ${baseSuffix}`);
@@ -36,16 +58,18 @@ async function run() {
     core.info(`Only report: ${onlyReport}`);
     core.info(`Circuit details: ${circuitDetails}`);
 
-    if (isNaN(threshold)) {
-      throw new Error('Invalid threshold value. Please provide a number.');
-    }
-
     if (!onlyReport) {
       core.startGroup('Generating latest benchmark reports (all contracts)');
       const cliArgs = [];
       cliArgs.push('--config', configPath);
       cliArgs.push('--output-dir', reportsDir);
       cliArgs.push('--suffix', currentSuffix);
+      if (configFile) {
+        cliArgs.push('--config-file', configFile);
+      }
+      if (profile) {
+        cliArgs.push('--profile', profile);
+      }
 
       core.info(`Executing: aztec-benchmark ${cliArgs.join(' ')}`);
 
@@ -67,6 +91,7 @@ async function run() {
       baseSuffix,
       prSuffix: currentSuffix,
       threshold,
+      memoryThreshold,
       circuitDetails
     };
     const markdownResult = runComparison(comparisonInputs);
@@ -0,0 +1,166 @@
+import {
+  BatchCall,
+  toProfileOptions,
+  type ContractFunctionInteraction,
+  type InteractionWaitOptions,
+  type ProfileInteractionOptions,
+  type RequestInteractionOptions,
+  type SendInteractionOptions,
+  type SimulateInteractionOptions,
+} from '@aztec/aztec.js/contracts';
+import type { TxReceipt } from '@aztec/aztec.js/tx';
+import type { EmbeddedWallet } from '@aztec/wallets/embedded';
+import type { BatchBreakdown, BatchCost, BatchIntent, GateCount, ProfiledCall, ProfiledInteraction } from './types.js';
+
+/** Protocol circuits run once for the whole transaction rather than for one of its calls */
+const SHARED_CIRCUIT_PATTERN = /^private_kernel_(init|reset|tail)|hiding/;
+
+/**
+ * Wraps a BatchCall so the profiler can simulate, profile and send it like a
+ * ContractFunctionInteraction.
+ *
+ * BatchCall has no `profile` of its own, so the batch's execution payload is
+ * profiled through the wallet, as ContractFunctionInteraction does for a single call.
+ */
+export class BatchInteraction implements ProfiledInteraction {
+  private readonly inner: BatchCall;
+
+  constructor(
+    private readonly wallet: EmbeddedWallet,
+    calls: ContractFunctionInteraction[],
+  ) {
+    this.inner = new BatchCall(wallet, calls);
+  }
+
+  async request(options?: RequestInteractionOptions) {
+    return this.inner.request(options);
+  }
+
+  async simulate(options: SimulateInteractionOptions) {
+    return this.inner.simulate(options);
+  }
+
+  async profile(options: ProfileInteractionOptions) {
+    const executionPayload = await this.inner.request(options);
+    return this.wallet.profileTx(executionPayload, toProfileOptions(options));
+  }
+
+  async send<W extends InteractionWaitOptions = undefined>(options: SendInteractionOptions<W>) {
+    return this.inner.send<TxReceipt, W>(options);
+  }
+}
+
+/**
+ * Converts a batch into a single interaction the profiler simulates, profiles and sends as one transaction.
+ * @param intent - The batch.
+ * @param wallet - The wallet the batch is sent through.
+ * @returns The calls wrapped in a BatchInteraction.
+ * @throws If the benchmark context has no wallet.
+ */
+export function toBatchCallIntent(intent: BatchIntent, wallet: EmbeddedWallet | undefined): ProfiledCall {
+  if (!wallet) throw new Error(`Batches require a 'wallet' in the benchmark context.`);
+  return { caller: intent.caller, action: new BatchInteraction(wallet, intent.batch) };
+}
+
+/**
+ * Whether a profiled circuit is the private function of a call.
+ * @param circuitName - Name of the circuit, e.g. `Token:transfer_private`.
+ * @param callName - Name of the call, e.g. `transfer_private`.
+ * @returns True if the circuit executes the called function.
+ */
+function isCallCircuit(circuitName: string, callName: string): boolean {
+  return circuitName === callName || circuitName.endsWith(`:${callName}`);
+}
+
+/**
+ * Sums the costs of several transactions.
+ * A metric is only summed when every transaction has it.
+ * @param costs - The costs.
+ * @returns The total.
+ */
+function sumCosts(costs: BatchCost[]): BatchCost {
+  const total = (read: (cost: BatchCost) => number | undefined) => {
+    const values = costs.map(read);
+    return values.every(v => v !== undefined) ? values.reduce((acc: number, v) => acc + v!, 0) : undefined;
+  };
+  const daGas = total(c => c.daGas);
+  const l2Gas = total(c => c.l2Gas);
+  const provingTime = total(c => c.provingTime);
+  return {
+    gates: total(c => c.gates)!,
+    ...(daGas !== undefined && { daGas }),
+    ...(l2Gas !== undefined && { l2Gas }),
+    ...(provingTime !== undefined && { provingTime }),
+  };
+}
+
+/**
+ * Subtracts the costs of the separate transactions from the cost of the batch.
+ * @param batch - Cost of the batch.
+ * @param separate - Summed cost of the separate transactions.
+ * @returns The difference of every metric both sides have.
+ */
+function diffCosts(batch: BatchCost, separate: BatchCost): BatchCost {
+  const diff = (key: keyof BatchCost) =>
+    batch[key] !== undefined && separate[key] !== undefined ? { [key]: batch[key]! - separate[key]! } : {};
+  return { gates: batch.gates - separate.gates, ...diff('daGas'), ...diff('l2Gas'), ...diff('provingTime') };
+}
+
+/**
+ * Attributes the circuits of a batch to its calls and compares the batch with sending the calls separately.
+ * Circuits are profiled in execution order, so each call owns its private function's circuit and every
+ * circuit after it (nested calls and inner kernels) up to the next call. Circuits before the first call
+ * (the account entrypoint) and the kernel init, reset and tail circuits are shared by the transaction.
+ * Calls without a private function of their own, e.g. public calls, are attributed no gates.
+ * @param gateCounts - The per-circuit gate counts of the batch.
+ * @param callNames - Names of the calls, in execution order.
+ * @param cost - Cost of the batch.
+ * @param separate - Cost of each call profiled as a transaction of its own, if all of them could be.
+ * @returns The gate counts annotated with their call, and the breakdown.
+ */
+export function buildBatchBreakdown(
+  gateCounts: GateCount[],
+  callNames: string[],
+  cost: BatchCost,
+  separate: BatchCost[] | undefined,
+): { gateCounts: GateCount[]; breakdown: BatchBreakdown } {
+  let next = 0;
+  let current: number | undefined;
+  const attributed = gateCounts.map(circuit => {
+    const match = callNames.findIndex((name, index) => index >= next && isCallCircuit(circuit.circuitName, name));
+    if (match !== -1) {
+      current = match;
+      next = match + 1;
+    }
+    if (current === undefined || SHARED_CIRCUIT_PATTERN.test(circuit.circuitName)) return circuit;
+    return { ...circuit, call: current };
+  });
+
+  const gatesOf = (circuits: GateCount[]) => circuits.reduce((acc, c) => acc + c.gateCount, 0);
+  const breakdown: BatchBreakdown = {
+    calls: callNames.map((name, index) => ({
+      name,
+      gates: gatesOf(attributed.filter(c => c.call === index)),
+      ...(separate && { separateGates: separate[index].gates }),
+    })),
+    sharedGates: gatesOf(attributed.filter(c => c.call === undefined)),
+  };
+  if (separate) {
+    breakdown.separate = sumCosts(separate);
+    breakdown.overhead = diffCosts(cost, breakdown.separate);
+  }
+  return { gateCounts: attributed, breakdown };
+}
+
+/**
+ * Describes the breakdown of a batch for the run log.
+ * @param breakdown - The breakdown.
+ * @returns E.g. `transfer 1,200 gates, mint 300 gates, shared 5,000 gates; -4,900 gates vs separate transactions`.
+ */
+export function describeBatch(breakdown: BatchBreakdown): string {
+  const calls = breakdown.calls.map(c => `${c.name} ${c.gates.toLocaleString()} gates`).join(', ');
+  const overhead = breakdown.overhead
+    ? `${breakdown.overhead.gates > 0 ? '+' : ''}${breakdown.overhead.gates.toLocaleString()} gates vs separate transactions`
+    : 'no comparison with separate transactions';
+  return `${calls}, shared ${breakdown.sharedGates.toLocaleString()} gates; ${overhead}`;
+}
@@ -0,0 +1,160 @@
+import type { Budget, BudgetViolation, ProfileResult } from './types.js';
+
+/**
+ * Budget entry as written in Nargo.toml, using snake_case keys.
+ * @example
+ * [benchmark_budgets.token]
+ * "*" = { max_gates = 500000 }
+ * transfer_private = { max_gates = 200000, max_proving_time = 30000 }
+ */
+export interface TomlBudget {
+  max_gates?: number;
+  max_da_gas?: number;
+  max_l2_gas?: number;
+  max_proving_time?: number;
+}
+
+/** Budgets of one contract keyed by function name; `*` applies to every function. */
+export type TomlBudgetTable = Record<string, TomlBudget>;
+
+/** The key of a contract-wide default budget in Nargo.toml */
+const DEFAULT_BUDGET_KEY = '*';
+
+/** Maps budget fields to the metric they limit and how to read it from a result */
+const BUDGET_METRICS: Array<{
+  key: keyof Budget;
+  metric: BudgetViolation['metric'];
+  read: (result: ProfileResult) => number | undefined;
+}> = [
+  { key: 'maxGates', metric: 'gates', read: r => r.totalGateCount },
+  { key: 'maxDaGas', metric: 'daGas', read: r => r.gas?.gasLimits?.daGas },
+  { key: 'maxL2Gas', metric: 'l2Gas', read: r => r.gas?.gasLimits?.l2Gas },
+  { key: 'maxProvingTime', metric: 'provingTime', read: r => r.provingTime },
+];
+
+/** Limits accepted in a Nargo.toml budget entry */
+const TOML_BUDGET_KEYS: Array<keyof TomlBudget> = ['max_gates', 'max_da_gas', 'max_l2_gas', 'max_proving_time'];
+
+/**
+ * Checks the budgets of a contract read from Nargo.toml, so a mistake is reported before the contract is profiled.
+ * @param contractName - The benchmark the table belongs to.
+ * @param table - The contract's `[benchmark_budgets.<contract>]` table.
+ * @throws If an entry is not a table, or has an unknown limit or a limit that is not a non-negative number.
+ */
+export function validateTomlBudgets(contractName: string, table: TomlBudgetTable) {
+  const where = `[benchmark_budgets.${contractName}] of Nargo.toml`;
+  for (const [name, entry] of Object.entries(table)) {
+    if (typeof entry !== 'object' || entry === null) {
+      throw new Error(`Invalid budget ${name} in ${where}: expected a table of limits`);
+    }
+    for (const [key, value] of Object.entries(entry)) {
+      if (!TOML_BUDGET_KEYS.includes(key as keyof TomlBudget) || typeof value !== 'number' || value < 0) {
+        throw new Error(`Invalid budget ${name}.${key} in ${where}: expected one of ${TOML_BUDGET_KEYS.join(', ')} with a non-negative number`);
+      }
+    }
+  }
+}
+
+/**
+ * Converts a Nargo.toml budget entry into a Budget.
+ * @param entry - The snake_case entry from the TOML file.
+ * @returns The budget with only the limits that are set.
+ * @throws If a limit is not a non-negative number.
+ */
+function fromToml(entry: TomlBudget): Budget {
+  const budget: Budget = {
+    maxGates: entry.max_gates,
+    maxDaGas: entry.max_da_gas,
+    maxL2Gas: entry.max_l2_gas,
+    maxProvingTime: entry.max_proving_time,
+  };
+  for (const [key, value] of Object.entries(budget)) {
+    if (value === undefined) {
+      delete budget[key as keyof Budget];
+    } else if (typeof value !== 'number' || value < 0) {
+      throw new Error(`Invalid budget value for ${key}: ${value}`);
+    }
+  }
+  return budget;
+}
+
+/**
+ * Converts budgets set in the config file into a Nargo.toml budget table, so both are resolved alike.
+ * @param budgets - Budgets keyed by function name, `*` for every function.
+ * @returns The equivalent snake_case table.
+ */
+export function toTomlBudgetTable(budgets: Record<string, Budget>): TomlBudgetTable {
+  return Object.fromEntries(
+    Object.entries(budgets).map(([name, budget]) => [
+      name,
+      {
+        max_gates: budget.maxGates,
+        max_da_gas: budget.maxDaGas,
+        max_l2_gas: budget.maxL2Gas,
+        max_proving_time: budget.maxProvingTime,
+      },
+    ]),
+  );
+}
+
+/**
+ * Resolves the budget of every benchmarked function of a contract.
+ * A function's entry in Nargo.toml takes precedence over the budget declared on its
+ * NamedBenchmarkedInteraction, which takes precedence over the contract-wide `*` entry.
+ * @param names - Names of the profiled functions.
+ * @param tomlBudgets - The contract's `[benchmark_budgets.<contract>]` table, if any.
+ * @param entryBudgets - Budgets declared on benchmark entries, keyed by name.
+ * @returns Budgets keyed by function name; functions without limits are omitted.
+ */
+export function resolveBudgets(
+  names: string[],
+  tomlBudgets: TomlBudgetTable = {},
+  entryBudgets: Record<string, Budget> = {},
+): Record<string, Budget> {
+  const contractDefault = tomlBudgets[DEFAULT_BUDGET_KEY] ? fromToml(tomlBudgets[DEFAULT_BUDGET_KEY]) : {};
+  const budgets: Record<string, Budget> = {};
+
+  for (const name of names) {
+    const budget = {
+      ...contractDefault,
+      ...entryBudgets[name],
+      ...(tomlBudgets[name] ? fromToml(tomlBudgets[name]) : {}),
+    };
+    if (Object.keys(budget).length > 0) budgets[name] = budget;
+  }
+  return budgets;
+}
+
+/**
+ * Checks profiling results against their budgets.
+ * Metrics that were not measured (e.g. proving time with --skip-proving) are not checked.
+ * @param results - The profiling results.
+ * @param budgets - Budgets keyed by function name.
+ * @returns Every exceeded limit.
+ */
+export function checkBudgets(results: ProfileResult[], budgets: Record<string, Budget>): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+  for (const result of results) {
+    const budget = budgets[result.name];
+    if (!budget) continue;
+
+    for (const { key, metric, read } of BUDGET_METRICS) {
+      const limit = budget[key];
+      const actual = read(result);
+      if (limit !== undefined && actual !== undefined && actual > limit) {
+        violations.push({ name: result.name, metric, limit, actual });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Formats a budget violation for console output.
+ * @param violation - The exceeded limit.
+ * @returns A human-readable description.
+ */
+export function formatViolation(violation: BudgetViolation): string {
+  const exceededBy = ((violation.actual - violation.limit) / (violation.limit || 1)) * 100;
+  return `${violation.name}: ${violation.metric} ${violation.actual.toLocaleString()} exceeds budget of ${violation.limit.toLocaleString()} (+${exceededBy.toFixed(1)}%)`;
+}
@@ -1,177 +1,604 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import fs from 'node:fs';
 import path from 'node:path';
-import toml from '@iarna/toml';
-import { Profiler } from './profiler.js';
-import { BenchmarkBase, BenchmarkContext, type ProfileResult, type NamedBenchmarkedInteraction } from './types.js';
-import type { ContractFunctionInteractionCallIntent } from '@aztec/aztec.js/authorization';
+import { DEFAULT_MEMORY_THRESHOLD, DEFAULT_THRESHOLD } from './comparison.cjs';
+import { diffReports, renderComparison, type CompareFormat } from './compare.js';
+import { CONFIG_FILE_NAME, loadConfig, type LoadedConfig } from './config.js';
+import { resolveBenchmarks, type BenchmarkTarget } from './discovery.js';
+import { EXPORT_FORMATS, writeReportFormats, type ExportFormat } from './exporters.js';
+import { parseNamePattern } from './filter.cjs';
+import { renderFlamegraph, type FlamegraphFormat, type FlamegraphWeight } from './flamegraph.js';
+import { loadReportSet, renderHtmlReport, writeHtmlReport } from './htmlReport.js';
+import { buildTrends, readHistory, renderHistory, type HistoryFormat } from './history.js';
+import { getSchemaVersion, SCHEMA_VERSION, upgradeReport, validateReport } from './reportSchema.cjs';
+import { BUILTIN_REPORTERS } from './reporters.js';
+import { runBenchmarks, RUN_DEFAULTS, type BenchmarkRunResult, type RunBenchmarksOptions } from './runner.js';
+import { checkShardsAgree, loadShardReports, mergeShardReports, parseShard, type ShardSpec } from './shard.js';
+import { SEND_MODES, type BenchmarkSettings, type SendMode } from './types.js';
 
 /**
- * Represents the structure of the [benchmark] section in Nargo.toml.
- * It's a record where keys are benchmark names and values are paths to benchmark files.
+ * Parses a percentage option value.
+ * @param value - The raw option value.
+ * @returns The parsed number.
  */
-interface NargoToml {
-  /** Optional mapping of benchmark names to their corresponding file paths. */
-  benchmark?: Record<string, string>;
+function parsePercentage(value: string): number {
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Expected a non-negative number.');
+  }
+  return parsed;
+}
+
+/**
+ * Parses a non-negative integer option value.
+ * @param value - The raw option value.
+ * @returns The parsed integer.
+ */
+function parseCount(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Expected a non-negative integer.');
+  }
+  return parsed;
+}
+
+/**
+ * Parses a benchmark name pattern, rejecting invalid regular expressions.
+ * @param value - The raw option value.
+ * @returns The pattern, unchanged.
+ */
+function parsePattern(value: string): string {
+  try {
+    parseNamePattern(value);
+  } catch (error: any) {
+    throw new InvalidArgumentError(error.message);
+  }
+  return value;
+}
+
+/**
+ * Parses a shard option value, rejecting invalid shards.
+ * @param value - The raw option value, e.g. `2/3`.
+ * @returns The shard.
+ */
+function parseShardOption(value: string): ShardSpec {
+  try {
+    return parseShard(value);
+  } catch (error: any) {
+    throw new InvalidArgumentError(error.message);
+  }
+}
+
+/**
+ * Parses a comma-separated list of tags, adding them to those of earlier occurrences of the option.
+ * @param value - The raw option value.
+ * @param previous - Tags from earlier occurrences.
+ * @returns The unique tags.
+ */
+function collectTags(value: string, previous: string[] = []): string[] {
+  const tags = value.split(',').map(t => t.trim()).filter(Boolean);
+  if (tags.length === 0) {
+    throw new InvalidArgumentError('Expected a comma-separated list of tags.');
+  }
+  return [...new Set([...previous, ...tags])];
+}
+
+/**
+ * Parses a comma-separated list of report formats.
+ * @param value - The raw option value.
+ * @returns The unique formats, in the given order.
+ */
+function parseFormats(value: string): ExportFormat[] {
+  const formats = value.split(',').map(f => f.trim()).filter(Boolean);
+  const unknown = formats.filter(f => !EXPORT_FORMATS.includes(f as ExportFormat));
+  if (formats.length === 0 || unknown.length > 0) {
+    throw new InvalidArgumentError(`Expected a comma-separated list of: ${EXPORT_FORMATS.join(', ')}.`);
+  }
+  return [...new Set(formats)] as ExportFormat[];
+}
+
+/**
+ * Parses a comma-separated list of reporters, adding them to those of earlier occurrences of the option.
+ * @param value - The raw option value.
+ * @param previous - Reporters from earlier occurrences.
+ * @returns The unique reporters, in the given order.
+ */
+function parseReporters(value: string, previous: string[] = []): string[] {
+  const reporters = value.split(',').map(r => r.trim()).filter(Boolean);
+  if (reporters.length === 0) {
+    throw new InvalidArgumentError(`Expected a comma-separated list of reporters (${BUILTIN_REPORTERS.join(', ')} or module paths).`);
+  }
+  return [...new Set([...previous, ...reporters])];
+}
+
+/** Options of the benchmark run command */
+interface RunOptions {
+  configFile?: string;
+  profile?: string;
+  contracts?: string[];
+  config: string;
+  discover?: boolean;
+  outputDir: string;
+  suffix?: string;
+  skipProving?: boolean;
+  runs: number;
+  warmup: number;
+  continueOnError?: boolean;
+  timeout?: number;
+  sendMode: SendMode;
+  jobs: number;
+  contractTimeout?: number;
+  history?: string;
+  format: ExportFormat[];
+  filter?: string;
+  tag?: string[];
+  excludeTag?: string[];
+  shard?: ShardSpec;
+  shardTimings?: string;
+  shardTimingsSuffix: string;
+  reporter?: string[];
+  ndjsonOutput?: string;
+}
+
+/** The config setting each run option overrides */
+const RUN_OPTION_SETTINGS: Array<[keyof RunOptions, keyof BenchmarkSettings]> = [
+  ['config', 'nargoToml'],
+  ['contracts', 'contracts'],
+  ['discover', 'discover'],
+  ['outputDir', 'outputDir'],
+  ['suffix', 'suffix'],
+  ['skipProving', 'skipProving'],
+  ['runs', 'runs'],
+  ['warmup', 'warmup'],
+  ['continueOnError', 'continueOnError'],
+  ['timeout', 'timeout'],
+  ['sendMode', 'sendMode'],
+  ['jobs', 'jobs'],
+  ['contractTimeout', 'contractTimeout'],
+  ['history', 'history'],
+  ['format', 'formats'],
+  ['filter', 'filter'],
+  ['tag', 'tags'],
+  ['excludeTag', 'excludeTags'],
+  ['reporter', 'reporters'],
+  ['ndjsonOutput', 'ndjsonOutput'],
+];
+
+/**
+ * Loads the config file of a command, exiting with an error if it is invalid.
+ * @param options - The `--config-file` and `--profile` options.
+ * @returns The loaded config, or undefined if there is no config file.
+ */
+async function loadConfigOrExit(options: { configFile?: string; profile?: string }): Promise<LoadedConfig | undefined> {
+  try {
+    return await loadConfig(options.configFile, options.profile);
+  } catch (error: any) {
+    console.error(`Error loading config: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Applies config settings to the options that were not passed on the command line.
+ * @param command - The command, used to tell passed options from defaults.
+ * @param options - The parsed options.
+ * @param settings - The settings of the config file and profile.
+ * @param mapping - The setting each option corresponds to.
+ * @returns The merged options.
+ */
+function applyConfig<T extends object>(
+  command: Command,
+  options: T,
+  settings: BenchmarkSettings,
+  mapping: Array<[keyof T, keyof BenchmarkSettings]>,
+): T {
+  const merged = { ...options };
+  for (const [option, setting] of mapping) {
+    const source = command.getOptionValueSource(option as string);
+    if (source !== 'cli' && source !== 'env' && settings[setting] !== undefined) {
+      Object.assign(merged, { [option]: settings[setting] } as Partial<T>);
+    }
+  }
+  return merged;
 }
 
 const program = new Command();
 
 program
   .name('aztec-benchmark')
+  // Run options are only accepted before a subcommand, so `compare --format` does not clash with `--format`.
+  .enablePositionalOptions()
   .description('Runs benchmarks defined in Nargo.toml and associated *.benchmark.ts files.')
-  .option('-c, --contracts <names...>', 'Specify contracts to benchmark by name (defined in Nargo.toml)')
-  .option('--config <path>', 'Path to the Nargo.toml file', './Nargo.toml')
-  .option('-o, --output-dir <path>', 'Directory to save benchmark reports', './benchmarks')
+  .option('--config-file <path>', `Path to the config file (default: ./${CONFIG_FILE_NAME}, if it exists)`)
+  .option('--profile <name>', 'Apply a named profile of the config file')
+  .option('-c, --contracts <names...>', 'Specify contracts to benchmark by name, or all benchmarks of a workspace package')
+  .option('--config <path>', 'Path to the Nargo.toml file', RUN_DEFAULTS.nargoToml)
+  .option('--discover', 'Also run *.benchmark.ts files not declared in any [benchmark] section')
+  .option('-o, --output-dir <path>', 'Directory to save benchmark reports', RUN_DEFAULTS.outputDir)
   .option('-s, --suffix <suffix>', 'Optional suffix to append to the report filename (e.g., _pr)')
   .option('--skip-proving', 'Skip proving transactions (only measure gate counts and gas)')
+  .option('--runs <n>', 'Number of measured profiling runs per function', parseCount, RUN_DEFAULTS.runs)
+  .option('--warmup <n>', 'Number of discarded profiling runs before measuring', parseCount, RUN_DEFAULTS.warmup)
+  .option('--continue-on-error', 'Record failing methods and contracts in the reports instead of aborting the run')
+  .option('--timeout <ms>', 'Fail a method if profiling it takes longer than this many milliseconds', parseCount)
+  .addOption(
+    new Option('--send-mode <mode>', 'How each transaction is sent after profiling: not at all, sent, or sent and waited for with its inclusion latency recorded')
+      .choices(SEND_MODES)
+      .default(RUN_DEFAULTS.sendMode),
+  )
+  .option('-j, --jobs <n>', 'Number of contracts benchmarked in parallel worker processes (requires --skip-proving)', parseCount, RUN_DEFAULTS.jobs)
+  .option('--contract-timeout <ms>', 'Kill and fail a contract\'s worker process if it runs longer than this many milliseconds', parseCount)
+  .option('--history <path>', 'Append the reports of this run, with commit metadata, to a JSONL history file')
+  .option('--format <formats>', `Comma-separated report formats to write (${EXPORT_FORMATS.join(', ')})`, parseFormats, RUN_DEFAULTS.formats as ExportFormat[])
+  .option('--filter <pattern>', 'Only benchmark methods whose name matches a glob (e.g. "transfer_*") or /regex/', parsePattern)
+  .option('--tag <tags>', 'Only benchmark methods with at least one of these comma-separated tags (repeatable)', collectTags)
+  .option('--exclude-tag <tags>', 'Skip methods with any of these comma-separated tags (repeatable)', collectTags)
+  .option('--shard <i/n>', 'Only run the i-th of n deterministic parts of the benchmarks, e.g. 2/3', parseShardOption)
+  .option('--shard-timings <path>', 'Report file, directory of reports or JSONL history file whose proving times balance the shards')
+  .option('--shard-timings-suffix <suffix>', 'Suffix of report filenames in the --shard-timings directory', '')
+  .option(
+    '--reporter <names>',
+    `Comma-separated reporters of the run progress: ${BUILTIN_REPORTERS.join(', ')} or paths of reporter modules (default: console)`,
+    parseReporters,
+  )
+  .option('--ndjson-output <path>', 'File the ndjson reporter writes events to instead of stdout')
   /**
    * Main action for the CLI.
-   * Parses Nargo.toml, finds and runs specified benchmarks, and saves the reports.
-   * @param options - The command line options.
-   * @param options.contracts - Specific contracts to benchmark.
-   * @param options.config - Path to the Nargo.toml file.
-   * @param options.outputDir - Directory to save reports.
-   * @param options.suffix - Optional suffix for report filenames.
+   * Runs the benchmarks with `runBenchmarks`, which loads the config file, parses Nargo.toml, finds and runs
+   * the specified benchmarks, and saves the reports. Options passed on the command line override the config file.
+   * @param cliOptions - The command line options.
+   * @param cliOptions.configFile - Path to the config file.
+   * @param cliOptions.profile - Profile of the config file to apply.
+   * @param cliOptions.contracts - Specific contracts to benchmark.
+   * @param cliOptions.config - Path to the Nargo.toml file.
+   * @param cliOptions.discover - Also run benchmark files found by convention.
+   * @param cliOptions.outputDir - Directory to save reports.
+   * @param cliOptions.suffix - Optional suffix for report filenames.
+   * @param cliOptions.runs - Number of measured profiling runs per function.
+   * @param cliOptions.warmup - Number of discarded warmup runs per function.
+   * @param cliOptions.continueOnError - Record failures in the reports and keep going.
+   * @param cliOptions.timeout - Per-method timeout in milliseconds.
+   * @param cliOptions.sendMode - How the benchmarked transactions are sent.
+   * @param cliOptions.jobs - Number of contracts benchmarked in parallel.
+   * @param cliOptions.contractTimeout - Per-contract timeout in milliseconds.
+   * @param cliOptions.history - Path of the JSONL history file to append the reports to.
+   * @param cliOptions.format - Formats the reports are written in.
+   * @param cliOptions.filter - Glob or regular expression the method names must match.
+   * @param cliOptions.tag - Tags of which methods must carry at least one.
+   * @param cliOptions.excludeTag - Tags of which methods must carry none.
+   * @param cliOptions.shard - The part of the benchmarks to run in a sharded run.
+   * @param cliOptions.shardTimings - Previous reports whose proving times balance the shards.
+   * @param cliOptions.shardTimingsSuffix - Suffix of report filenames in the timings directory.
+   * @param cliOptions.reporter - Reporters of the run progress.
+   * @param cliOptions.ndjsonOutput - File the ndjson reporter writes to.
+   * @param command - The command, used to tell passed options from defaults.
    */
-  .action(async (options: { contracts?: string[], config: string, outputDir: string, suffix?: string, skipProving?: boolean }) => {
+  .action(async (cliOptions: RunOptions, command: Command) => {
+    const { configFile, profile, shard, shardTimings, shardTimingsSuffix } = cliOptions;
+    // Defaults are left to runBenchmarks, so the config file can override them.
+    const passed = Object.fromEntries(
+      RUN_OPTION_SETTINGS.flatMap(([option, setting]) => {
+        const source = command.getOptionValueSource(option);
+        return source === 'cli' || source === 'env' ? [[setting, cliOptions[option]]] : [];
+      }),
+    ) as Partial<BenchmarkSettings>;
+    const options: RunBenchmarksOptions = { configFile, profile, shard, shardTimings, shardTimingsSuffix, ...passed };
 
-    const nargoTomlPath = path.resolve(process.cwd(), options.config);
-    const outputDir = path.resolve(process.cwd(), options.outputDir);
-    const specifiedContractNames = options.contracts || [];
-    const suffix = options.suffix || '';
+    let result: BenchmarkRunResult;
+    try {
+      result = await runBenchmarks(options);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    if (!result.success) process.exit(1);
+  });
 
-    if (!fs.existsSync(nargoTomlPath)) {
-      console.error(`Error: Nargo.toml not found at ${nargoTomlPath}`);
+program
+  .command('list')
+  .description('Lists the benchmarks resolved from Nargo.toml and their files, without running them.')
+  .option('--config-file <path>', `Path to the config file (default: ./${CONFIG_FILE_NAME}, if it exists)`)
+  .option('--profile <name>', 'Apply a named profile of the config file')
+  .option('--config <path>', 'Path to the Nargo.toml file', RUN_DEFAULTS.nargoToml)
+  .option('--discover', 'Also list *.benchmark.ts files not declared in any [benchmark] section')
+  .addOption(
+    new Option('-f, --format <format>', 'Output format')
+      .choices(['terminal', 'json'])
+      .default('terminal'),
+  )
+  /**
+   * Prints the resolved contract → benchmark file mapping.
+   * @param cliOptions - The command line options.
+   * @param command - The command, used to tell passed options from defaults.
+   */
+  .action(async (cliOptions: { configFile?: string, profile?: string, config: string, discover?: boolean, format: 'terminal' | 'json' }, command: Command) => {
+    const loadedConfig = await loadConfigOrExit(cliOptions);
+    const options = applyConfig(command, cliOptions, loadedConfig?.settings ?? {}, [['config', 'nargoToml'], ['discover', 'discover']]);
+    let targets: BenchmarkTarget[];
+    try {
+      targets = resolveBenchmarks(path.resolve(process.cwd(), options.config), { discover: options.discover });
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
       process.exit(1);
     }
 
-    if (!fs.existsSync(outputDir)) {
-      console.log(`Creating output directory: ${outputDir}`);
-      fs.mkdirSync(outputDir, { recursive: true });
+    const rows = targets.map(t => ({
+      name: t.name,
+      file: path.relative(process.cwd(), t.filePath),
+      ...(t.package && { package: t.package }),
+      source: t.source,
+      exists: fs.existsSync(t.filePath),
+    }));
+    if (options.format === 'json') {
+      process.stdout.write(`${JSON.stringify({ benchmarks: rows }, null, 2)}\n`);
+      return;
     }
 
-    let nargoConfig: NargoToml;
+    if (rows.length === 0) {
+      console.log('No benchmarks found.');
+      return;
+    }
+    const header = ['Contract', 'File', 'Source'];
+    const cells = rows.map(r => [r.name, r.exists ? r.file : `${r.file} (missing)`, r.source]);
+    const widths = header.map((h, col) => Math.max(h.length, ...cells.map(c => c[col].length)));
+    const line = (row: string[]) => row.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd();
+    console.log([line(header), line(widths.map(w => '-'.repeat(w))), ...cells.map(line)].join('\n'));
+  });
+
+program
+  .command('compare')
+  .description('Compares two benchmark reports, or all matching reports in two directories.')
+  .argument('<base>', 'Base report file or directory of reports')
+  .argument('<head>', 'Head report file or directory of reports')
+  .addOption(
+    new Option('-f, --format <format>', 'Output format')
+      .choices(['terminal', 'markdown', 'json'])
+      .default('terminal'),
+  )
+  .option('-t, --threshold <percent>', 'Regression threshold percentage', parsePercentage, DEFAULT_THRESHOLD)
+  .option('--memory-threshold <percent>', 'Regression threshold percentage of peak memory', parsePercentage, DEFAULT_MEMORY_THRESHOLD)
+  .option('--config-file <path>', `Path to the config file (default: ./${CONFIG_FILE_NAME}, if it exists)`)
+  .option('--profile <name>', 'Apply a named profile of the config file')
+  .option('--base-suffix <suffix>', 'Suffix of base report filenames when comparing directories', '')
+  .option('--head-suffix <suffix>', 'Suffix of head report filenames when comparing directories', '')
+  .option('--output <path>', 'Write the comparison to a file instead of stdout')
+  .option('--no-color', 'Disable coloured terminal output')
+  /**
+   * Compares base and head reports and prints the result.
+   * @param base - Base report file or directory.
+   * @param head - Head report file or directory.
+   * @param cliOptions - The command line options.
+   * @param command - The command, used to tell passed options from defaults.
+   */
+  .action(async (base: string, head: string, cliOptions: { format: CompareFormat, threshold: number, memoryThreshold: number, configFile?: string, profile?: string, baseSuffix: string, headSuffix: string, output?: string, color: boolean }, command: Command) => {
+    const loadedConfig = await loadConfigOrExit(cliOptions);
+    const options = applyConfig(command, cliOptions, loadedConfig?.settings ?? {}, [
+      ['threshold', 'threshold'],
+      ['memoryThreshold', 'memoryThreshold'],
+    ]);
+    let output: string;
     try {
-      const tomlContent = fs.readFileSync(nargoTomlPath, 'utf-8');
-      nargoConfig = toml.parse(tomlContent) as NargoToml;
+      const diffs = diffReports(path.resolve(base), path.resolve(head), options);
+      output = renderComparison(diffs, {
+        format: options.format,
+        color: options.color && !options.output && !!process.stdout.isTTY && !process.env.NO_COLOR,
+      });
     } catch (error: any) {
-      console.error(`Error parsing Nargo.toml at ${nargoTomlPath}:`, error.message);
+      console.error(`Error comparing reports: ${error.message}`);
+      process.exit(1);
+    }
+
+    if (options.output) {
+      fs.writeFileSync(path.resolve(options.output), output);
+      console.log(`Comparison written to ${options.output}`);
+    } else {
+      process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+    }
+  });
+
+program
+  .command('history')
+  .description('Shows per-function trends and step changes from a history file written with --history.')
+  .argument('<file>', 'JSONL history file')
+  .option('-c, --contracts <names...>', 'Only show these contracts')
+  .option('--functions <names...>', 'Only show these functions')
+  .option('-n, --last <n>', 'Number of most recent runs per contract to show', parseCount, 20)
+  .option('-t, --threshold <percent>', 'Report changes larger than this percentage as step changes', parsePercentage, 2.5)
+  .option('--window <n>', 'Number of preceding runs whose median each run is compared to', parseCount, 3)
+  .addOption(
+    new Option('-f, --format <format>', 'Output format')
+      .choices(['terminal', 'markdown', 'json'])
+      .default('terminal'),
+  )
+  .option('--no-color', 'Disable coloured terminal output')
+  /**
+   * Prints the trends of the functions recorded in a history file.
+   * @param file - The history file.
+   * @param options - The command line options.
+   */
+  .action((file: string, options: { contracts?: string[], functions?: string[], last: number, threshold: number, window: number, format: HistoryFormat, color: boolean }) => {
+    if (options.last < 1 || options.window < 1) {
+      console.error('Error: --last and --window must be at least 1.');
       process.exit(1);
     }
 
-    const availableBenchmarks = nargoConfig.benchmark || {};
-    const availableContractNames = Object.keys(availableBenchmarks);
+    let output: string;
+    try {
+      const trends = buildTrends(readHistory(path.resolve(file)), options);
+      output = renderHistory(trends, {
+        format: options.format,
+        color: options.color && !!process.stdout.isTTY && !process.env.NO_COLOR,
+      });
+    } catch (error: any) {
+      console.error(`Error reading history: ${error.message}`);
+      process.exit(1);
+    }
+    process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+  });
 
-    if (availableContractNames.length === 0) {
-      console.error('No contracts found in the [benchmark] section of Nargo.toml.');
+program
+  .command('report')
+  .description('Generates a self-contained HTML dashboard from benchmark reports.')
+  .argument('<inputs...>', 'Report files, directories of reports, or JSONL history files')
+  .requiredOption('--html <path>', 'Path of the HTML file to write')
+  .option('--base <path>', 'Base report file or directory of reports to show deltas against')
+  .option('-s, --suffix <suffix>', 'Suffix of report filenames in input directories', '')
+  .option('--base-suffix <suffix>', 'Suffix of report filenames in the base directory', '')
+  .option('-t, --threshold <percent>', 'Regression threshold percentage', parsePercentage, DEFAULT_THRESHOLD)
+  .option('--memory-threshold <percent>', 'Regression threshold percentage of peak memory', parsePercentage, DEFAULT_MEMORY_THRESHOLD)
+  .option('--config-file <path>', `Path to the config file (default: ./${CONFIG_FILE_NAME}, if it exists)`)
+  .option('--profile <name>', 'Apply a named profile of the config file')
+  .option('--title <title>', 'Title of the dashboard', 'Aztec Benchmark Report')
+  /**
+   * Reads the reports and writes the HTML dashboard.
+   * @param inputs - Report files, directories or history files.
+   * @param cliOptions - The command line options.
+   * @param command - The command, used to tell passed options from defaults.
+   */
+  .action(async (inputs: string[], cliOptions: { html: string, base?: string, suffix: string, baseSuffix: string, threshold: number, memoryThreshold: number, configFile?: string, profile?: string, title: string }, command: Command) => {
+    const loadedConfig = await loadConfigOrExit(cliOptions);
+    const options = applyConfig(command, cliOptions, loadedConfig?.settings ?? {}, [
+      ['threshold', 'threshold'],
+      ['memoryThreshold', 'memoryThreshold'],
+    ]);
+    try {
+      const entries = loadReportSet(inputs.map(input => path.resolve(input)), {
+        ...options,
+        base: options.base && path.resolve(options.base),
+      });
+      if (entries.length === 0) {
+        console.error('Error: No benchmark reports found in the given inputs.');
+        process.exit(1);
+      }
+      writeHtmlReport(path.resolve(options.html), renderHtmlReport(entries, options));
+      console.log(`HTML report for ${entries.length} contract(s) written to ${options.html}`);
+    } catch (error: any) {
+      console.error(`Error generating report: ${error.message}`);
       process.exit(1);
     }
+  });
 
-    // Filter contracts to run based on CLI option
-    const contractsToRunNames = specifiedContractNames.length > 0
-      ? availableContractNames.filter(name => specifiedContractNames.includes(name))
-      : availableContractNames;
-
-    if (contractsToRunNames.length === 0) {
-        if (specifiedContractNames.length > 0) {
-            console.error(
-              `Error: None of the specified contracts found in the [benchmark] section: ${specifiedContractNames.join(', ')}`,
-            );
-        } else {
-            console.error('Error: No benchmarks specified via --contracts flag or found in the [benchmark] section of Nargo.toml.');
-        }
-        program.outputHelp();
+program
+  .command('flamegraph')
+  .description('Exports the circuits of each function as collapsed stacks or a speedscope profile, weighted by gates or witness generation time.')
+  .argument('<inputs...>', 'Report files, directories of reports, or JSONL history files')
+  .addOption(
+    new Option('-f, --format <format>', 'Output format')
+      .choices(['collapsed', 'speedscope'])
+      .default('speedscope'),
+  )
+  .addOption(
+    new Option('-w, --weight <weight>', 'Width of each frame: gate count, or witness generation time in microseconds')
+      .choices(['gates', 'witgen'])
+      .default('gates'),
+  )
+  .option('-s, --suffix <suffix>', 'Suffix of report filenames in input directories', '')
+  .option('--functions <names...>', 'Only include these functions')
+  .option('--output <path>', 'Write the output to a file instead of stdout')
+  /**
+   * Reads the reports and prints or writes the flamegraph input.
+   * @param inputs - Report files, directories or history files.
+   * @param options - The command line options.
+   */
+  .action((inputs: string[], options: { format: FlamegraphFormat, weight: FlamegraphWeight, suffix: string, functions?: string[], output?: string }) => {
+    let output: string;
+    try {
+      const entries = loadReportSet(inputs.map(input => path.resolve(input)), { suffix: options.suffix, baseSuffix: '' });
+      if (entries.length === 0) {
+        console.error('Error: No benchmark reports found in the given inputs.');
         process.exit(1);
+      }
+      output = renderFlamegraph(entries, options);
+    } catch (error: any) {
+      console.error(`Error exporting flamegraph: ${error.message}`);
+      process.exit(1);
     }
 
-    console.log(
-      `Found ${contractsToRunNames.length} benchmark(s) to run: ${contractsToRunNames.join(', ')}`,
-    );
+    if (options.output) {
+      fs.writeFileSync(path.resolve(options.output), output);
+      console.log(`Flamegraph written to ${options.output}`);
+    } else {
+      process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+    }
+  });
 
-    // Iterate over the filtered contract names
-    for (const contractName of contractsToRunNames) {
-      const benchmarkFileName = availableBenchmarks[contractName];
-      const benchmarkFilePath = path.resolve(path.dirname(nargoTomlPath), benchmarkFileName);
-      const outputFilename = `${contractName}${suffix}.benchmark.json`;
-      const outputJsonPath = path.join(outputDir, outputFilename);
+program
+  .command('merge')
+  .description('Merges the reports of a sharded run (--shard) into one report per contract.')
+  .argument('<inputs...>', 'Shard report files or directories of shard reports')
+  .option('-o, --output-dir <path>', 'Directory to write the merged reports', './benchmarks')
+  .option('-s, --suffix <suffix>', 'Suffix of report filenames, in input directories and of the merged reports', '')
+  .option('--format <formats>', `Comma-separated report formats to write (${EXPORT_FORMATS.join(', ')})`, parseFormats, ['json'] as ExportFormat[])
+  /**
+   * Reads the shard reports, checks that they are from the same run and writes the merged reports.
+   * @param inputs - Shard report files or directories.
+   * @param options - The command line options.
+   */
+  .action((inputs: string[], options: { outputDir: string, suffix: string, format: ExportFormat[] }) => {
+    const outputDir = path.resolve(options.outputDir);
+    try {
+      const reportsByContract = loadShardReports(inputs.map(input => path.resolve(input)), options.suffix);
+      if (reportsByContract.size === 0) {
+        console.error('Error: No benchmark reports found in the given inputs.');
+        process.exit(1);
+      }
+      const shardReports = [...reportsByContract.values()].flat();
+      for (const warning of checkShardsAgree(shardReports)) console.warn(`Warning: ${warning}`);
+      const merged = [...reportsByContract].map(([contractName, reports]) => [contractName, mergeShardReports(contractName, reports)] as const);
 
-      console.log(`--- Running benchmark for ${contractName}${suffix ? ` (suffix: ${suffix})` : ''} ---`);
-      console.log(` -> Benchmark file: ${benchmarkFilePath}`);
-      console.log(` -> Output report: ${outputJsonPath}`);
+      fs.mkdirSync(outputDir, { recursive: true });
+      for (const [contractName, report] of merged) {
+        writeReportFormats(report, path.join(outputDir, `${contractName}${options.suffix}.benchmark.json`), contractName, options.format);
+      }
+      console.log(`Merged ${shardReports.length} shard report(s) into ${merged.length} report(s) in ${options.outputDir}`);
+    } catch (error: any) {
+      console.error(`Error merging reports: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-      if (!fs.existsSync(benchmarkFilePath)) {
-        console.error(`Error: Benchmark file not found: ${benchmarkFilePath}`);
-        process.exit(1);
+program
+  .command('validate')
+  .description('Validates benchmark reports against the published JSON Schema.')
+  .argument('<files...>', 'Report files to validate')
+  /**
+   * Validates each report and prints its errors.
+   * Reports from older versions are upgraded first, as `compare` and the Action do when reading them.
+   * @param files - The report files.
+   */
+  .action((files: string[]) => {
+    let invalidCount = 0;
+    for (const file of files) {
+      let report: unknown;
+      try {
+        report = JSON.parse(fs.readFileSync(path.resolve(file), 'utf-8'));
+      } catch (error: any) {
+        console.error(`${file}: cannot be read: ${error.message}`);
+        invalidCount++;
+        continue;
       }
 
+      const version = getSchemaVersion(report);
+      let upgraded: unknown;
       try {
-        const module = await import(benchmarkFilePath);
-        const BenchmarkClass = module.default;
-
-        if (!BenchmarkClass || !(typeof BenchmarkClass === 'function') || !(typeof BenchmarkClass.prototype.getMethods === 'function')) {
-            console.error(`Error: ${benchmarkFilePath} does not export a default class with a getMethods method.`);
-            process.exit(1);
-        }
-
-        const benchmarkInstance: BenchmarkBase = new BenchmarkClass();
-
-        let runContext: BenchmarkContext = {};
-
-        if (typeof benchmarkInstance.setup === 'function') {
-          console.log(`Running setup for ${contractName}...`);
-          runContext = await benchmarkInstance.setup();
-          console.log(`Setup complete for ${contractName}.`);
-        }
-        if (!options.skipProving && !runContext.wallet) {
-          console.error(`Error: setup() must return a context with a 'wallet' property when proving is enabled.`);
-          process.exit(1);
-        }
-
-        const profiler = new Profiler(runContext.wallet, { skipProving: options.skipProving, feePaymentMethod: runContext.feePaymentMethod });
-
-        console.log(`Getting methods to benchmark for ${contractName}...`);
-        const interactionsToBenchmark: Array<ContractFunctionInteractionCallIntent | NamedBenchmarkedInteraction> = benchmarkInstance.getMethods(runContext);
-
-        if (!Array.isArray(interactionsToBenchmark) || interactionsToBenchmark.length === 0) {
-          console.warn(`No benchmark methods returned by getMethods for ${contractName}. Saving empty report.`);
-          await profiler.saveResults([], outputJsonPath);
-        } else {
-          console.log(`Profiling ${interactionsToBenchmark.length} methods for ${contractName}...`);
-          const results = await profiler.profile(interactionsToBenchmark);
-          await profiler.saveResults(results, outputJsonPath);
-        }
-
-        if (typeof benchmarkInstance.teardown === 'function') {
-          console.log(`Running teardown for ${contractName}...`);
-          await benchmarkInstance.teardown(runContext);
-          console.log(`Teardown complete for ${contractName}.`);
-        }
-
-        // Workaround: PXE.stop() doesn't release all resources
-        // @see https://github.com/AztecProtocol/aztec-packages/issues/20446
-        if (runContext.wallet) {
-            const pxe = (runContext.wallet as any).pxe;
-            if (pxe?.blockStateSynchronizer) {
-                await pxe.blockStateSynchronizer.blockStream?.stop();
-                await pxe.blockStateSynchronizer.store?.close();
-            }
-            await runContext.wallet.stop();
-            // Close leftover HTTP keep-alive sockets
-            for (const h of (process as any)._getActiveHandles()) {
-                if (h?.constructor?.name === 'Socket' && !h.destroyed) h.destroy();
-            }
-        }
-
-        console.log(`--- Benchmark finished for ${contractName} ---`);
+        upgraded = upgradeReport(report);
       } catch (error: any) {
-        console.error(`Failed to run benchmark for ${contractName} from ${benchmarkFilePath}:`, error);
-        process.exit(1);
+        console.error(`${file}: ${error.message}`);
+        invalidCount++;
+        continue;
       }
-    }
 
-    console.log('All specified benchmarks completed successfully.');
+      const errors = validateReport(upgraded);
+      if (errors.length > 0) {
+        console.error(`${file}: ${errors.length} error(s)`);
+        for (const error of errors) console.error(` -> ${error}`);
+        invalidCount++;
+      } else {
+        console.log(version === SCHEMA_VERSION ? `${file}: valid` : `${file}: valid (schema version ${version}, upgradable to ${SCHEMA_VERSION})`);
+      }
+    }
+    if (invalidCount > 0) process.exit(1);
   });
 
 program.parse(process.argv);
@@ -0,0 +1,367 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  alignCircuits,
+  compareResults,
+  compareSweeps,
+  diffSideEffects,
+  formatBatchOverhead,
+  formatDiff,
+  formatSideEffectChanges,
+  formatSweepComparison,
+  getExcludedNames,
+  getProvenanceWarnings,
+  getStatus,
+  readReport,
+  STATUS_EMOJI,
+  type CircuitComparison,
+  type ComparisonStatus,
+  type FunctionComparison,
+  type MetricPair,
+  type SideEffectChange,
+  type SweepComparison,
+} from './comparison.cjs';
+import type { BatchBreakdown, ProfileFailure } from './types.js';
+
+/** Output formats supported by the `compare` command */
+export type CompareFormat = 'terminal' | 'markdown' | 'json';
+
+/** Options of the `compare` command */
+export interface CompareOptions {
+  /** Output format. */
+  format: CompareFormat;
+  /** Regression threshold percentage. */
+  threshold: number;
+  /** Regression threshold percentage of peak memory. */
+  memoryThreshold: number;
+  /** Suffix of base report filenames when comparing directories. */
+  baseSuffix: string;
+  /** Suffix of head report filenames when comparing directories. */
+  headSuffix: string;
+  /** Whether to colour terminal output. */
+  color: boolean;
+}
+
+/** A compared metric in the JSON output */
+export interface MetricDiff {
+  base: number;
+  head: number;
+  diff: number;
+  /** Relative change in percent, null when the base value is 0. */
+  pct: number | null;
+}
+
+/** Comparison of a single function in the JSON output */
+export interface FunctionDiff {
+  name: string;
+  status: ComparisonStatus;
+  gates: MetricDiff;
+  daGas: MetricDiff;
+  l2Gas: MetricDiff;
+  teardownDaGas: MetricDiff;
+  teardownL2Gas: MetricDiff;
+  /** Fee paid, in base units of Fee Juice (0 when not recorded). */
+  fee: MetricDiff;
+  provingTime: MetricDiff;
+  /** Peak resident set size while profiling, in MiB (0 when not recorded). */
+  peakMemory: MetricDiff;
+  /** CPU time spent profiling, in milliseconds (0 when not recorded). */
+  cpuTime: MetricDiff;
+  /** Circuits executed by the function, aligned by name and occurrence. */
+  circuits: CircuitComparison[];
+  /** Side effect counts that changed, empty unless both reports recorded side effects. */
+  sideEffects: SideEffectChange[];
+  /** Per-call breakdown of each side that is a batch. */
+  batch?: { base?: BatchBreakdown; head?: BatchBreakdown };
+  /** Failure details when the function failed in the head report. */
+  error?: ProfileFailure;
+}
+
+/** Comparison of a single contract in the JSON output */
+export interface ContractDiff {
+  contractName: string;
+  /** Path of the base report, null if the contract is new. */
+  basePath: string | null;
+  /** Path of the head report, null if the contract was removed. */
+  headPath: string | null;
+  /** Differences in how the two reports were produced that make the comparison unreliable. */
+  warnings: string[];
+  functions: FunctionDiff[];
+  /** Marginal costs of the parameter sweeps of the head report. */
+  sweeps: SweepComparison[];
+}
+
+const REPORT_EXTENSION = '.benchmark.json';
+
+/** ANSI colour codes for each status in terminal output */
+const STATUS_COLOR: Record<ComparisonStatus, string> = {
+  failed: '\x1b[1;31m',
+  removed: '\x1b[33m',
+  new: '\x1b[36m',
+  regression: '\x1b[31m',
+  improvement: '\x1b[32m',
+  unchanged: '\x1b[90m',
+};
+
+const RESET = '\x1b[0m';
+
+/**
+ * Lists the reports in a directory keyed by contract name.
+ * @param dir - Directory containing `*.benchmark.json` files.
+ * @param suffix - Filename suffix before `.benchmark.json`; only matching files are listed.
+ * @returns A map from contract name to report path.
+ */
+export function listReports(dir: string, suffix: string): Map<string, string> {
+  const reports = new Map<string, string>();
+  const pattern = `${suffix}${REPORT_EXTENSION}`;
+  for (const file of fs.readdirSync(dir).sort()) {
+    if (!file.endsWith(pattern)) continue;
+    reports.set(file.slice(0, -pattern.length), path.join(dir, file));
+  }
+  return reports;
+}
+
+/**
+ * Derives a contract name from a report filename.
+ * @param filePath - Path of a report file.
+ * @param suffix - Filename suffix to strip, if present.
+ * @returns The contract name.
+ */
+export function contractNameFromFile(filePath: string, suffix: string): string {
+  let name = path.basename(filePath);
+  if (name.endsWith(REPORT_EXTENSION)) name = name.slice(0, -REPORT_EXTENSION.length);
+  else if (name.endsWith('.json')) name = name.slice(0, -'.json'.length);
+  if (suffix && name.endsWith(suffix)) name = name.slice(0, -suffix.length);
+  return name;
+}
+
+/**
+ * Converts a metric pair into its JSON representation.
+ * @param pair - The base and head values.
+ * @returns The values with absolute and relative difference.
+ */
+function toMetricDiff(pair: MetricPair): MetricDiff {
+  return {
+    base: pair.main,
+    head: pair.pr,
+    diff: pair.pr - pair.main,
+    pct: pair.main === 0 ? null : ((pair.pr - pair.main) / pair.main) * 100,
+  };
+}
+
+/**
+ * Compares two reports, or every matching report in two directories.
+ * @param basePath - A report file or a directory of reports.
+ * @param headPath - A report file or a directory of reports (same kind as basePath).
+ * @param options - Thresholds and filename suffixes.
+ * @returns One diff per contract, sorted by contract name.
+ * @throws If a path does not exist or the paths are not of the same kind.
+ */
+export function diffReports(basePath: string, headPath: string, options: Pick<CompareOptions, 'threshold' | 'memoryThreshold' | 'baseSuffix' | 'headSuffix'>): ContractDiff[] {
+  for (const p of [basePath, headPath]) {
+    if (!fs.existsSync(p)) throw new Error(`Path not found: ${p}`);
+  }
+  const baseIsDir = fs.statSync(basePath).isDirectory();
+  const headIsDir = fs.statSync(headPath).isDirectory();
+  if (baseIsDir !== headIsDir) {
+    throw new Error('Both arguments must be report files or both must be directories.');
+  }
+
+  const pairs: Array<{ contractName: string; basePath: string | null; headPath: string | null }> = [];
+  if (baseIsDir) {
+    const baseReports = listReports(basePath, options.baseSuffix);
+    const headReports = listReports(headPath, options.headSuffix);
+    const names = [...new Set([...baseReports.keys(), ...headReports.keys()])].sort();
+    for (const contractName of names) {
+      pairs.push({
+        contractName,
+        basePath: baseReports.get(contractName) ?? null,
+        headPath: headReports.get(contractName) ?? null,
+      });
+    }
+  } else {
+    pairs.push({ contractName: contractNameFromFile(headPath, options.headSuffix), basePath, headPath });
+  }
+
+  return pairs.map(pair => {
+    const baseReport = pair.basePath ? readReport(pair.basePath) : undefined;
+    const headReport = pair.headPath ? readReport(pair.headPath) : undefined;
+    const comparison = compareResults(baseReport?.results ?? [], headReport?.results ?? [], getExcludedNames(baseReport, headReport));
+
+    return {
+      ...pair,
+      warnings: headReport ? getProvenanceWarnings(baseReport, headReport) : [],
+      functions: Object.keys(comparison).sort().map(name => {
+        const metrics: FunctionComparison = comparison[name];
+        return {
+          name,
+          status: getStatus(metrics, options.threshold, options.memoryThreshold),
+          gates: toMetricDiff(metrics.gates),
+          daGas: toMetricDiff(metrics.daGas),
+          l2Gas: toMetricDiff(metrics.l2Gas),
+          teardownDaGas: toMetricDiff(metrics.teardownDaGas),
+          teardownL2Gas: toMetricDiff(metrics.teardownL2Gas),
+          fee: toMetricDiff(metrics.fee),
+          provingTime: toMetricDiff({
+            main: Math.round(metrics.provingTime.main),
+            pr: Math.round(metrics.provingTime.pr),
+          }),
+          peakMemory: toMetricDiff(metrics.peakMemory),
+          cpuTime: toMetricDiff(metrics.cpuTime),
+          circuits: alignCircuits(metrics.gateCounts.main, metrics.gateCounts.pr),
+          sideEffects: diffSideEffects(metrics.sideEffects),
+          ...(metrics.batch && { batch: { base: metrics.batch.main, head: metrics.batch.pr } }),
+          ...(metrics.failure?.pr && { error: metrics.failure.pr }),
+        };
+      }),
+      sweeps: headReport ? compareSweeps(baseReport, headReport) : [],
+    };
+  });
+}
+
+const TABLE_HEADER = [
+  'Function',
+  'Gates (base)', 'Gates (head)', 'Gates diff',
+  'DA gas (base)', 'DA gas (head)', 'DA gas diff',
+  'L2 gas (base)', 'L2 gas (head)', 'L2 gas diff',
+  'Teardown DA gas (base)', 'Teardown DA gas (head)', 'Teardown DA gas diff',
+  'Teardown L2 gas (base)', 'Teardown L2 gas (head)', 'Teardown L2 gas diff',
+  'Fee (base)', 'Fee (head)', 'Fee diff',
+  'Proving ms (base)', 'Proving ms (head)', 'Proving diff',
+  'Peak MiB (base)', 'Peak MiB (head)', 'Peak MiB diff',
+];
+
+/**
+ * Describes why a function failed.
+ * @param error - The failure details.
+ * @returns A one-line description.
+ */
+function describeFailure(error: ProfileFailure): string {
+  return `${error.timedOut ? 'timed out' : 'failed'} during ${error.phase}: ${error.message.split('\n')[0]}`;
+}
+
+/**
+ * Builds the table cells for a function row.
+ * Metrics of a failed function are left empty, its failure is listed below the table.
+ * @param fn - The function diff.
+ * @returns Cells in column order, excluding the status column.
+ */
+function functionCells(fn: FunctionDiff): string[] {
+  const cells = [fn.name];
+  if (fn.error) return [...cells, ...TABLE_HEADER.slice(1).map(() => '')];
+  for (const metric of [fn.gates, fn.daGas, fn.l2Gas, fn.teardownDaGas, fn.teardownL2Gas, fn.fee, fn.provingTime, fn.peakMemory]) {
+    cells.push(metric.base.toLocaleString(), metric.head.toLocaleString(), formatDiff(metric.base, metric.head));
+  }
+  return cells;
+}
+
+
+/**
+ * Describes the batch of a function, if its head result is one.
+ * @param fn - The function diff.
+ * @returns The description, or an empty string.
+ */
+function describeBatch(fn: FunctionDiff): string {
+  return formatBatchOverhead(fn.batch && { main: fn.batch.base, pr: fn.batch.head });
+}
+
+/**
+ * Renders the diffs as GitHub-flavoured markdown tables.
+ * @param diffs - The contract diffs.
+ * @returns The markdown document.
+ */
+export function renderMarkdown(diffs: ContractDiff[]): string {
+  const lines = ['# Benchmark Comparison', ''];
+  for (const contract of diffs) {
+    lines.push(`## Contract: ${contract.contractName}`, '');
+    for (const warning of contract.warnings) lines.push(`> ⚠️ ${warning}`, '');
+    if (contract.functions.length === 0) {
+      lines.push('*No comparable functions found between reports.*', '');
+      continue;
+    }
+    lines.push(
+      `| Status | ${TABLE_HEADER.join(' | ')} |`,
+      `|---|---|${TABLE_HEADER.slice(1).map(() => '---:').join('|')}|`,
+    );
+    for (const fn of contract.functions) {
+      const [name, ...values] = functionCells(fn);
+      lines.push(`| ${STATUS_EMOJI[fn.status]} ${fn.status} | \`${name}\` | ${values.join(' | ')} |`);
+    }
+    lines.push('');
+    const notes: string[] = [];
+    for (const fn of contract.functions) {
+      if (fn.error) {
+        notes.push(`- ❌ \`${fn.name}\` ${describeFailure(fn.error)}`);
+        continue;
+      }
+      if (fn.sideEffects.length > 0) notes.push(`- \`${fn.name}\` side effects: ${formatSideEffectChanges(fn.sideEffects)}`);
+      if (describeBatch(fn)) notes.push(`- \`${fn.name}\` batch: ${describeBatch(fn)}`);
+    }
+    if (notes.length > 0) lines.push(...notes, '');
+    for (const sweep of contract.sweeps) lines.push(`- \`${sweep.name}\` ${formatSweepComparison(sweep)}`);
+    if (contract.sweeps.length > 0) lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders the diffs as aligned, optionally coloured terminal tables.
+ * @param diffs - The contract diffs.
+ * @param color - Whether to emit ANSI colour codes.
+ * @returns The terminal output.
+ */
+export function renderTerminal(diffs: ContractDiff[], color: boolean): string {
+  const paint = (text: string, code: string) => (color ? `${code}${text}${RESET}` : text);
+  const lines: string[] = [];
+
+  for (const contract of diffs) {
+    lines.push(paint(`Contract: ${contract.contractName}`, '\x1b[1m'));
+    for (const warning of contract.warnings) lines.push(paint(`  Warning: ${warning}`, STATUS_COLOR.removed));
+    if (contract.functions.length === 0) {
+      lines.push('  No comparable functions found between reports.', '');
+      continue;
+    }
+
+    const rows = contract.functions.map(fn => [fn.status, ...functionCells(fn)]);
+    const header = ['Status', ...TABLE_HEADER];
+    const widths = header.map((h, col) => Math.max(h.length, ...rows.map(r => r[col].length)));
+    // Status and function name are left-aligned, numbers right-aligned.
+    const pad = (cell: string, col: number) => (col < 2 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]));
+
+    lines.push('  ' + header.map(pad).join('  '));
+    lines.push('  ' + widths.map(w => '-'.repeat(w)).join('  '));
+    contract.functions.forEach((fn, i) => {
+      const cells = rows[i].map(pad);
+      cells[0] = paint(cells[0], STATUS_COLOR[fn.status]);
+      lines.push('  ' + cells.join('  '));
+    });
+    for (const fn of contract.functions) {
+      if (fn.error) {
+        lines.push(paint(`  ${fn.name} ${describeFailure(fn.error)}`, STATUS_COLOR.failed));
+        continue;
+      }
+      if (fn.sideEffects.length > 0) lines.push(`  ${fn.name} side effects: ${formatSideEffectChanges(fn.sideEffects)}`);
+      if (describeBatch(fn)) lines.push(`  ${fn.name} batch: ${describeBatch(fn)}`);
+    }
+    for (const sweep of contract.sweeps) lines.push(`  ${sweep.name} ${formatSweepComparison(sweep)}`);
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders the diffs in the requested format.
+ * @param diffs - The contract diffs.
+ * @param options - The output format and colour setting.
+ * @returns The rendered output.
+ */
+export function renderComparison(diffs: ContractDiff[], options: Pick<CompareOptions, 'format' | 'color'>): string {
+  switch (options.format) {
+    case 'json':
+      return JSON.stringify({ contracts: diffs }, null, 2);
+    case 'markdown':
+      return renderMarkdown(diffs);
+    case 'terminal':
+      return renderTerminal(diffs, options.color);
+  }
+}
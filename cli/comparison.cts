@@ -0,0 +1,646 @@
+/**
+ * Comparison logic shared by the `compare` CLI command and the GitHub Action.
+ *
+ * This module is compiled to CommonJS (`dist/comparison.cjs`) so that
+ * `action/comparison.cjs` can `require` it directly. Keep its imports from
+ * the ESM modules of this package type-only.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { describeFilter } from './filter.cjs';
+import { loadReport } from './reportSchema.cjs';
+import type {
+  BatchBreakdown,
+  CostModel,
+  GateCount,
+  ProfileFailure,
+  ProfileReport,
+  ProfileResult,
+  SideEffects,
+  SweepMetric,
+} from './types.js';
+
+/** Outcome of comparing a function between the base and PR reports */
+export type ComparisonStatus = 'failed' | 'removed' | 'new' | 'regression' | 'improvement' | 'unchanged';
+
+/** Emoji used in the Action's markdown report for each comparison status */
+export const STATUS_EMOJI: Record<ComparisonStatus, string> = {
+  failed: '❌',
+  removed: '🚮',
+  new: '🆕',
+  regression: '🔴',
+  improvement: '🟢',
+  unchanged: '⚪',
+};
+
+/** A metric measured in both the base (main) and the PR report */
+export interface MetricPair {
+  /** Value in the base report (0 if missing). */
+  main: number;
+  /** Value in the PR report (0 if missing). */
+  pr: number;
+}
+
+/** All compared metrics of a single function */
+export interface FunctionComparison {
+  /** Total gate count. */
+  gates: MetricPair;
+  /** Data Availability gas limit. */
+  daGas: MetricPair;
+  /** L2 gas limit. */
+  l2Gas: MetricPair;
+  /** Teardown Data Availability gas limit. */
+  teardownDaGas: MetricPair;
+  /** Teardown L2 gas limit. */
+  teardownL2Gas: MetricPair;
+  /** Fee paid by the sent transaction, in base units of Fee Juice. */
+  fee: MetricPair;
+  /** Proving time in milliseconds. */
+  provingTime: MetricPair;
+  /** Peak resident set size while profiling, in MiB (0 if not recorded). */
+  peakMemory: MetricPair;
+  /** CPU time (user and system) spent profiling, in milliseconds (0 if not recorded). */
+  cpuTime: MetricPair;
+  /** Per-circuit gate counts of each side. */
+  gateCounts: { main: GateCount[]; pr: GateCount[] };
+  /** Side effects of each side, when recorded. */
+  sideEffects: { main?: SideEffects; pr?: SideEffects };
+  /** Per-call breakdown of each side that is a batch. */
+  batch?: { main?: BatchBreakdown; pr?: BatchBreakdown };
+  /** Failure details of each side that failed to run. */
+  failure?: { main?: ProfileFailure; pr?: ProfileFailure };
+}
+
+/** How a circuit changed between the base and PR reports */
+export type CircuitStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/** A circuit executed by a function, aligned between the base and PR reports */
+export interface CircuitComparison {
+  /** Name of the circuit. */
+  circuitName: string;
+  /** 1-based occurrence of the circuit name within the function's execution (kernels repeat). */
+  occurrence: number;
+  /** Display name; repeated circuits are suffixed with their occurrence, e.g. `private_kernel_inner #2`. */
+  label: string;
+  status: CircuitStatus;
+  /** Gate count (0 on the side where the circuit did not run). */
+  gates: MetricPair;
+  /** Witness generation time in milliseconds, when measured. */
+  witgenMs: { main?: number; pr?: number };
+}
+
+/** A side effect count that differs between the base and PR reports */
+export interface SideEffectChange {
+  /** The side effect. */
+  effect: keyof SideEffects;
+  /** Count in the base report. */
+  main: number;
+  /** Count in the PR report. */
+  pr: number;
+}
+
+/** Singular and plural display names of each side effect, in display order */
+export const SIDE_EFFECT_LABELS: Record<keyof SideEffects, [string, string]> = {
+  noteHashes: ['note hash', 'note hashes'],
+  nullifiers: ['nullifier', 'nullifiers'],
+  privateLogs: ['private log', 'private logs'],
+  publicLogs: ['public log', 'public logs'],
+  l2ToL1Messages: ['L2→L1 message', 'L2→L1 messages'],
+  publicDataWrites: ['public data write', 'public data writes'],
+  enqueuedPublicCalls: ['enqueued public call', 'enqueued public calls'],
+  calldataBytes: ['calldata byte', 'calldata bytes'],
+  logBytes: ['log byte', 'log bytes'],
+};
+
+/** Cost models of a parameter sweep in the base and PR reports */
+export interface SweepComparison {
+  /** Name of the sweep. */
+  name: string;
+  /** Singular name of the swept parameter. */
+  parameter: string;
+  /** Fitted models per metric; a side is missing for a new sweep or when too few points succeeded. */
+  fits: Partial<Record<SweepMetric, { main?: CostModel; pr?: CostModel }>>;
+}
+
+/** Display names of the metrics sweeps are fitted for, in display order */
+export const SWEEP_METRIC_LABELS: Record<SweepMetric, string> = {
+  gates: 'gates',
+  daGas: 'DA gas',
+  l2Gas: 'L2 gas',
+};
+
+/** Fits with a lower coefficient of determination are flagged, as their marginal cost is unreliable */
+const POOR_FIT_R2 = 0.9;
+
+/** The metrics that decide the status of a function */
+export type StatusMetrics = Pick<FunctionComparison, 'gates' | 'daGas' | 'l2Gas' | 'failure'> & Partial<Pick<FunctionComparison, 'peakMemory'>>;
+
+/** Default regression threshold percentage of gates and gas */
+export const DEFAULT_THRESHOLD = 2.5;
+
+/**
+ * Default regression threshold percentage of peak memory.
+ * Memory is sampled and varies with garbage collection, so it needs a wider threshold than gates and gas.
+ */
+export const DEFAULT_MEMORY_THRESHOLD = 20;
+
+/** A contract's base and PR report files */
+export interface BenchmarkPair {
+  /** Name of the contract, derived from the report filename. */
+  contractName: string;
+  /** Path to the base report, or null for a new contract. */
+  baseJsonPath: string | null;
+  /** Path to the PR report. */
+  prJsonPath: string;
+}
+
+/**
+ * Extracts DA (Data Availability) gas from a benchmark result.
+ * @param result - The benchmark result.
+ * @returns The DA gas value, or 0 if not found.
+ */
+export const getDaGas = (result?: ProfileResult): number => result?.gas?.gasLimits?.daGas ?? 0;
+
+/**
+ * Extracts L2 gas from a benchmark result.
+ * @param result - The benchmark result.
+ * @returns The L2 gas value, or 0 if not found.
+ */
+export const getL2Gas = (result?: ProfileResult): number => result?.gas?.gasLimits?.l2Gas ?? 0;
+
+/**
+ * Extracts teardown DA gas from a benchmark result.
+ * @param result - The benchmark result.
+ * @returns The teardown DA gas value, or 0 if not found.
+ */
+export const getTeardownDaGas = (result?: ProfileResult): number => result?.gas?.teardownGasLimits?.daGas ?? 0;
+
+/**
+ * Extracts teardown L2 gas from a benchmark result.
+ * @param result - The benchmark result.
+ * @returns The teardown L2 gas value, or 0 if not found.
+ */
+export const getTeardownL2Gas = (result?: ProfileResult): number => result?.gas?.teardownGasLimits?.l2Gas ?? 0;
+
+/**
+ * Extracts the fee paid from a benchmark result.
+ * Fees are stored as decimal strings; precision beyond 2^53 is lost, which is negligible for diffs.
+ * @param result - The benchmark result.
+ * @returns The fee in base units of Fee Juice, or 0 if not recorded.
+ */
+export const getFee = (result?: ProfileResult): number => Number(result?.fee ?? 0);
+
+/**
+ * Extracts proving time from a benchmark result.
+ * @param result - The benchmark result.
+ * @returns The proving time in milliseconds, or 0 if not found.
+ */
+export const getProvingTime = (result?: ProfileResult): number => result?.provingTime ?? 0;
+
+/**
+ * Extracts the peak memory used while profiling from a benchmark result.
+ * @param result - The benchmark result.
+ * @returns The peak resident set size in MiB, or 0 if not recorded.
+ */
+export const getPeakMemory = (result?: ProfileResult): number => result?.resources?.peakRssMiB ?? 0;
+
+/**
+ * Extracts the CPU time spent profiling from a benchmark result.
+ * @param result - The benchmark result.
+ * @returns The user and system CPU time in milliseconds, or 0 if not recorded.
+ */
+export const getCpuTime = (result?: ProfileResult): number =>
+  (result?.resources?.cpuUserMs ?? 0) + (result?.resources?.cpuSystemMs ?? 0);
+
+/**
+ * Formats the difference between two numbers as a string, including percentage change.
+ * Handles cases like zero main value (infinite increase) or zero pr value (100% decrease).
+ * @param main - The base value.
+ * @param pr - The new value (from Pull Request).
+ * @returns A formatted string representing the difference, or an empty string if no significant change.
+ */
+export function formatDiff(main: number, pr: number): string {
+  if (main === 0 && pr === 0) return ''; // Use empty string for no change if both zero
+  if (main === 0) return '+Inf%'; // Handle infinite increase
+  if (pr === 0) return '-100%'; // Handle 100% decrease
+
+  const diff = pr - main;
+  if (diff === 0) return ''; // Use empty string for no change
+
+  const pct = (diff / main) * 100;
+  const sign = diff > 0 ? '+' : '';
+
+  if (Math.abs(pct) < 0.01 && Math.abs(diff) < 1) return ''; // Threshold for small changes
+  // Format with commas and show percentage
+  return `${sign}${diff.toLocaleString()} (${sign}${pct.toFixed(1)}%)`;
+}
+
+/**
+ * Computes the relative change between two values.
+ * @param pair - The base and PR values.
+ * @returns The change as a fraction of the base, Infinity for a new non-zero value, 0 if both are zero.
+ */
+function relativeChange(pair: MetricPair): number {
+  if (pair.main === 0) return pair.pr > 0 ? Infinity : 0;
+  return (pair.pr - pair.main) / pair.main;
+}
+
+/**
+ * Determines the status of a function based on its metric changes and a threshold.
+ * Peak memory is checked against its own threshold, and only when both reports recorded it.
+ * @param metrics - The main and pr values for gates, daGas, l2Gas and peak memory.
+ * @param threshold - The percentage threshold for significant change.
+ * @param memoryThreshold - The percentage threshold for significant change of peak memory.
+ * @returns The comparison status of the function.
+ */
+export function getStatus(metrics: StatusMetrics, threshold: number, memoryThreshold = DEFAULT_MEMORY_THRESHOLD): ComparisonStatus {
+  if (metrics.failure?.pr) return 'failed';
+
+  const tracked = [metrics.gates, metrics.daGas, metrics.l2Gas];
+  const isRemoved = tracked.every(m => m.pr === 0) && tracked.some(m => m.main > 0);
+  const isNew = tracked.every(m => m.main === 0) && tracked.some(m => m.pr > 0);
+
+  if (isRemoved) return 'removed';
+  if (isNew) return 'new';
+
+  const changes = tracked.map(relativeChange);
+  const finiteChanges = changes.filter(m => isFinite(m));
+  const hasInfiniteIncrease = changes.some(m => m === Infinity);
+
+  // Use threshold percentage directly
+  const thresholdDecimal = threshold / 100.0;
+  const memory = metrics.peakMemory;
+  const memoryChange = memory && memory.main > 0 && memory.pr > 0 ? relativeChange(memory) : 0;
+  const memoryThresholdDecimal = memoryThreshold / 100.0;
+
+  if (hasInfiniteIncrease || finiteChanges.some(m => m > thresholdDecimal) || memoryChange > memoryThresholdDecimal) {
+    return 'regression';
+  }
+  if (finiteChanges.some(m => m < -thresholdDecimal) || memoryChange < -memoryThresholdDecimal) return 'improvement';
+  return 'unchanged';
+}
+
+/**
+ * Determines an emoji status based on benchmark metric changes and a threshold.
+ * @param metrics - The main and pr values for gates, daGas, l2Gas and peak memory.
+ * @param threshold - The percentage threshold for significant change.
+ * @param memoryThreshold - The percentage threshold for significant change of peak memory.
+ * @returns '🚮' for removed, '🆕' for new, '🔴' for regression, '🟢' for improvement, '⚪' for no significant change.
+ */
+export function getStatusEmoji(metrics: StatusMetrics, threshold: number, memoryThreshold = DEFAULT_MEMORY_THRESHOLD): string {
+  return STATUS_EMOJI[getStatus(metrics, threshold, memoryThreshold)];
+}
+
+/**
+ * Whether a function name is a benchmark entry that can be compared.
+ * @param name - The function name from a report.
+ * @returns False for missing and unresolved names.
+ */
+export function isComparableName(name: string | undefined): name is string {
+  return !!name && !name.startsWith('unknown_function');
+}
+
+/**
+ * Returns the failure details of a result, if it failed.
+ * Entries named `(FAILED)` or `BENCHMARK_RUNNER_ERROR` by older tooling are treated as failures too.
+ * @param result - The benchmark result.
+ * @returns The failure, or undefined for a successful or missing result.
+ */
+export function getFailure(result?: ProfileResult): ProfileFailure | undefined {
+  if (!result) return undefined;
+  if (result.status === 'failed') {
+    return result.error ?? { phase: 'profile', message: 'Unknown error' };
+  }
+  if (result.name.includes('(FAILED)') || result.name === 'BENCHMARK_RUNNER_ERROR') {
+    return { phase: 'profile', message: 'Benchmark failed' };
+  }
+  return undefined;
+}
+
+/**
+ * Collects the functions left out of either report by a `--filter`/`--tag` selection.
+ * They are missing from one side on purpose, so they must not be compared as removed or new.
+ * @param base - The base report, or undefined for a new contract.
+ * @param pr - The PR report, or undefined for a removed contract.
+ * @returns The names of the filtered-out functions.
+ */
+export function getExcludedNames(base: ProfileReport | undefined, pr: ProfileReport | undefined): Set<string> {
+  return new Set([...(base?.filter?.excluded ?? []), ...(pr?.filter?.excluded ?? [])]);
+}
+
+/**
+ * Builds the per-function comparison between two sets of results.
+ * Entries without a resolved name are skipped; failed entries are kept with their failure details.
+ * @param mainResults - Results of the base report (empty for a new contract).
+ * @param prResults - Results of the PR report.
+ * @param excluded - Functions filtered out of either report (see getExcludedNames), which are skipped.
+ * @returns The comparison keyed by function name.
+ */
+export function compareResults(
+  mainResults: ProfileResult[],
+  prResults: ProfileResult[],
+  excluded: ReadonlySet<string> = new Set(),
+): Record<string, FunctionComparison> {
+  const comparison: Record<string, FunctionComparison> = {};
+  const allFunctionNames = new Set([...mainResults.map(r => r.name), ...prResults.map(r => r.name)]);
+
+  for (const name of allFunctionNames) {
+    if (isComparableName(name) && excluded.has(name)) continue;
+    if (!isComparableName(name)) {
+      console.warn(` Skipping comparison for malformed entry: ${name}`);
+      continue;
+    }
+    const mainResult = mainResults.find(r => r.name === name);
+    const prResult = prResults.find(r => r.name === name);
+    const mainFailure = getFailure(mainResult);
+    const prFailure = getFailure(prResult);
+
+    comparison[name] = {
+      gates: { main: mainResult?.totalGateCount ?? 0, pr: prResult?.totalGateCount ?? 0 },
+      daGas: { main: getDaGas(mainResult), pr: getDaGas(prResult) },
+      l2Gas: { main: getL2Gas(mainResult), pr: getL2Gas(prResult) },
+      teardownDaGas: { main: getTeardownDaGas(mainResult), pr: getTeardownDaGas(prResult) },
+      teardownL2Gas: { main: getTeardownL2Gas(mainResult), pr: getTeardownL2Gas(prResult) },
+      fee: { main: getFee(mainResult), pr: getFee(prResult) },
+      provingTime: { main: getProvingTime(mainResult), pr: getProvingTime(prResult) },
+      peakMemory: { main: getPeakMemory(mainResult), pr: getPeakMemory(prResult) },
+      cpuTime: { main: getCpuTime(mainResult), pr: getCpuTime(prResult) },
+      gateCounts: { main: mainResult?.gateCounts ?? [], pr: prResult?.gateCounts ?? [] },
+      sideEffects: { main: mainResult?.sideEffects, pr: prResult?.sideEffects },
+      ...((mainResult?.batch || prResult?.batch) && { batch: { main: mainResult?.batch, pr: prResult?.batch } }),
+      ...((mainFailure || prFailure) && { failure: { main: mainFailure, pr: prFailure } }),
+    };
+  }
+  return comparison;
+}
+
+/**
+ * Aligns the circuits executed by a function in the base and PR reports.
+ * Circuits are matched by name and occurrence, so the second `private_kernel_inner` of the base
+ * is compared to the second one of the PR, and an extra iteration shows up as an added circuit.
+ * @param main - Per-circuit gate counts of the base report.
+ * @param pr - Per-circuit gate counts of the PR report.
+ * @returns The aligned circuits in PR execution order, followed by the circuits only executed in the base.
+ */
+export function alignCircuits(main: GateCount[], pr: GateCount[]): CircuitComparison[] {
+  const keyed = (circuits: GateCount[]) => {
+    const seen = new Map<string, number>();
+    return circuits.map(circuit => {
+      const occurrence = (seen.get(circuit.circuitName) ?? 0) + 1;
+      seen.set(circuit.circuitName, occurrence);
+      return { key: `${circuit.circuitName}#${occurrence}`, occurrence, circuit };
+    });
+  };
+  const mainByKey = new Map(keyed(main).map(entry => [entry.key, entry]));
+  const prKeyed = keyed(pr);
+  const prKeys = new Set(prKeyed.map(entry => entry.key));
+  const repeated = new Set(
+    [...mainByKey.values(), ...prKeyed].filter(entry => entry.occurrence > 1).map(entry => entry.circuit.circuitName),
+  );
+
+  const aligned = [
+    ...prKeyed.map(({ key, occurrence, circuit }) => ({ occurrence, main: mainByKey.get(key)?.circuit, pr: circuit })),
+    ...[...mainByKey.entries()]
+      .filter(([key]) => !prKeys.has(key))
+      .map(([, { occurrence, circuit }]) => ({ occurrence, main: circuit, pr: undefined })),
+  ];
+
+  return aligned.map(({ occurrence, main: mainCircuit, pr: prCircuit }) => {
+    const circuitName = (prCircuit ?? mainCircuit)!.circuitName;
+    const gates = { main: mainCircuit?.gateCount ?? 0, pr: prCircuit?.gateCount ?? 0 };
+    let status: CircuitStatus = gates.main === gates.pr ? 'unchanged' : 'changed';
+    if (!mainCircuit) status = 'added';
+    if (!prCircuit) status = 'removed';
+    return {
+      circuitName,
+      occurrence,
+      label: repeated.has(circuitName) ? `${circuitName} #${occurrence}` : circuitName,
+      status,
+      gates,
+      witgenMs: {
+        ...(mainCircuit?.witgenMs !== undefined && { main: mainCircuit.witgenMs }),
+        ...(prCircuit?.witgenMs !== undefined && { pr: prCircuit.witgenMs }),
+      },
+    };
+  });
+}
+
+/**
+ * Picks the circuits that contribute most to a function's gate count change.
+ * @param circuits - The aligned circuits of the function.
+ * @param limit - Maximum number of circuits to return.
+ * @returns Changed, added or removed circuits sorted by absolute gate difference, largest first.
+ */
+export function getTopCircuitChanges(circuits: CircuitComparison[], limit = 3): CircuitComparison[] {
+  return circuits
+    .filter(circuit => circuit.gates.pr !== circuit.gates.main)
+    .sort((a, b) => Math.abs(b.gates.pr - b.gates.main) - Math.abs(a.gates.pr - a.gates.main))
+    .slice(0, limit);
+}
+
+/**
+ * Lists the side effect counts that changed between the base and PR reports.
+ * @param sideEffects - Side effects of each side.
+ * @returns The changed counts in display order, empty unless both sides recorded side effects.
+ */
+export function diffSideEffects(sideEffects: { main?: SideEffects; pr?: SideEffects }): SideEffectChange[] {
+  const { main, pr } = sideEffects;
+  if (!main || !pr) return [];
+  return (Object.keys(SIDE_EFFECT_LABELS) as Array<keyof SideEffects>)
+    .filter(effect => main[effect] !== pr[effect])
+    .map(effect => ({ effect, main: main[effect], pr: pr[effect] }));
+}
+
+/**
+ * Describes side effect changes, e.g. `+2 note hashes, +1 nullifier`.
+ * @param changes - The changed counts.
+ * @returns A comma-separated description, empty if nothing changed.
+ */
+export function formatSideEffectChanges(changes: SideEffectChange[]): string {
+  return changes
+    .map(({ effect, main, pr }) => {
+      const diff = pr - main;
+      const [singular, plural] = SIDE_EFFECT_LABELS[effect];
+      return `${diff > 0 ? '+' : ''}${diff.toLocaleString()} ${Math.abs(diff) === 1 ? singular : plural}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Describes the calls of a batch and how it compares with sending them separately, e.g.
+ * `approve 1,000 + transfer 2,000 + shared 5,000 gates; -4,900 gates, -10 DA gas vs separate transactions (base: -4,800 gates)`.
+ * @param batch - The batch breakdown of each side.
+ * @returns A one-line description, empty if the PR result is not a batch.
+ */
+export function formatBatchOverhead(batch: { main?: BatchBreakdown; pr?: BatchBreakdown } | undefined): string {
+  const pr = batch?.pr;
+  if (!pr) return '';
+  const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toLocaleString()}`;
+  const calls = [...pr.calls.map(c => `${c.name} ${c.gates.toLocaleString()}`), `shared ${pr.sharedGates.toLocaleString()} gates`];
+  if (!pr.overhead) return calls.join(' + ');
+
+  const { gates, daGas, l2Gas } = pr.overhead;
+  const overhead = [
+    `${signed(gates)} gates`,
+    ...(daGas ? [`${signed(daGas)} DA gas`] : []),
+    ...(l2Gas ? [`${signed(l2Gas)} L2 gas`] : []),
+  ];
+  const base = batch.main?.overhead ? ` (base: ${signed(batch.main.overhead.gates)} gates)` : '';
+  return `${calls.join(' + ')}; ${overhead.join(', ')} vs separate transactions${base}`;
+}
+
+/**
+ * Pairs the parameter sweeps of the PR report with the same sweeps in the base report.
+ * @param base - The base report, or undefined for a new contract.
+ * @param pr - The PR report.
+ * @returns One comparison per sweep of the PR report, in report order.
+ */
+export function compareSweeps(base: ProfileReport | undefined, pr: ProfileReport): SweepComparison[] {
+  return (pr.sweeps ?? []).map(series => {
+    const baseSeries = base?.sweeps?.find(s => s.name === series.name);
+    const fits: SweepComparison['fits'] = {};
+    for (const metric of Object.keys(SWEEP_METRIC_LABELS) as SweepMetric[]) {
+      const main = baseSeries?.fits[metric];
+      const prFit = series.fits[metric];
+      if (main || prFit) fits[metric] = { main, pr: prFit };
+    }
+    return { name: series.name, parameter: series.parameter, fits };
+  });
+}
+
+/**
+ * Describes the marginal costs of a sweep, e.g. `marginal cost per note: 12,345 → 13,001 gates (+5.3%)`.
+ * DA and L2 gas are left out when they do not grow with the parameter.
+ * @param sweep - The sweep comparison.
+ * @returns A one-line description.
+ */
+export function formatSweepComparison(sweep: SweepComparison): string {
+  const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  const parts = (Object.keys(SWEEP_METRIC_LABELS) as SweepMetric[]).flatMap(metric => {
+    const fit = sweep.fits[metric];
+    if (!fit?.pr) return [];
+    const { main, pr } = fit;
+    if (metric !== 'gates' && pr.marginal === 0 && (main?.marginal ?? 0) === 0) return [];
+
+    const notes: string[] = [];
+    if (main && main.marginal !== 0 && main.marginal !== pr.marginal) {
+      const pct = ((pr.marginal - main.marginal) / Math.abs(main.marginal)) * 100;
+      notes.push(`${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`);
+    }
+    if (pr.kind === 'step') notes.push(`steps of ${pr.stepWidth}`);
+    if (pr.r2 < POOR_FIT_R2) notes.push(`poor fit, r² ${pr.r2}`);
+
+    const values = main ? `${format(main.marginal)} → ${format(pr.marginal)}` : format(pr.marginal);
+    return [`${values} ${SWEEP_METRIC_LABELS[metric]}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`];
+  });
+  if (parts.length === 0) return `too few successful points to fit a cost per ${sweep.parameter}`;
+  return `marginal cost per ${sweep.parameter}: ${parts.join(', ')}`;
+}
+
+/**
+ * Reads and parses a benchmark report file, upgrading older report formats.
+ * @param filePath - Path to a `*.benchmark.json` file.
+ * @returns The report in the current format.
+ * @throws If the file cannot be read, is not valid JSON, has no results array or is from a newer version.
+ */
+export function readReport(filePath: string): ProfileReport {
+  return loadReport(filePath);
+}
+
+/**
+ * Lists differences in how two reports were produced that make their comparison unreliable.
+ * Reports without provenance (written before it was recorded) produce no provenance warnings,
+ * but a filtered or unmerged shard report is always mentioned, as its comparison leaves functions out.
+ * @param base - The base report, or undefined for a new contract.
+ * @param pr - The PR report.
+ * @returns Human-readable warnings, empty if the reports are comparable.
+ */
+export function getProvenanceWarnings(base: ProfileReport | undefined, pr: ProfileReport): string[] {
+  const warnings: string[] = [];
+  for (const [side, report] of [['base', base], ['head', pr]] as const) {
+    if (report?.shard) {
+      warnings.push(
+        `The ${side} report is shard ${report.shard.index}/${report.shard.count} of a sharded run; merge the shard reports with aztec-benchmark merge to compare every function.`,
+      );
+    }
+    if (!report?.filter) continue;
+    const count = report.filter.excluded.length;
+    warnings.push(
+      `The ${side} report was filtered with ${describeFilter(report.filter)}; ${count} function${count === 1 ? ' was' : 's were'} not compared.`,
+    );
+  }
+
+  const baseProvenance = base?.provenance;
+  const prProvenance = pr.provenance;
+  if (!baseProvenance || !prProvenance) return warnings;
+
+  if (baseProvenance.aztecVersion !== prProvenance.aztecVersion) {
+    warnings.push(
+      `Aztec version differs: base ${baseProvenance.aztecVersion ?? 'unknown'}, head ${prProvenance.aztecVersion ?? 'unknown'}.`,
+    );
+  }
+  if (baseProvenance.flags.skipProving !== prProvenance.flags.skipProving) {
+    warnings.push('Only one side was run with --skip-proving; proving times and resource usage are not comparable.');
+  }
+  return warnings;
+}
+
+/**
+ * Resolves the regression thresholds of a comparison like the CLI does: thresholds given explicitly win over
+ * those of the config file and profile the PR report was written with, which win over the defaults.
+ * @param pr - The PR report, whose `provenance.config` holds the resolved config of its run.
+ * @param explicit - Thresholds given explicitly, e.g. as Action inputs.
+ * @returns The thresholds to compare with.
+ */
+export function resolveThresholds(
+  pr: ProfileReport | undefined,
+  explicit: { threshold?: number; memoryThreshold?: number },
+): { threshold: number; memoryThreshold: number } {
+  const settings = pr?.provenance?.config?.settings;
+  return {
+    threshold: explicit.threshold ?? settings?.threshold ?? DEFAULT_THRESHOLD,
+    memoryThreshold: explicit.memoryThreshold ?? settings?.memoryThreshold ?? DEFAULT_MEMORY_THRESHOLD,
+  };
+}
+
+/**
+ * Finds pairs of benchmark report files (base and PR/latest) in a directory.
+ * Includes new contracts that only have PR reports (no corresponding base report).
+ * @param reportsDir - The directory containing benchmark reports.
+ * @param baseSuffix - The suffix for base report filenames (e.g., '_base').
+ * @param prSuffix - The suffix for PR/latest report filenames (e.g., '_latest').
+ * @returns An array of pairs, each with contractName, baseJsonPath (or null), and prJsonPath.
+ */
+export function findBenchmarkPairs(reportsDir: string, baseSuffix: string, prSuffix: string): BenchmarkPair[] {
+  const pairs: BenchmarkPair[] = [];
+  const prSuffixPattern = `${prSuffix}.benchmark.json`;
+  const baseSuffixPattern = `${baseSuffix}.benchmark.json`;
+
+  try {
+    const files = fs.readdirSync(reportsDir);
+    for (const file of files) {
+      if (file.endsWith(prSuffixPattern)) {
+        // Extract contract name from PR filename
+        const contractName = file.substring(0, file.length - prSuffixPattern.length);
+        // Construct expected baseline filename
+        const baseJsonPath = path.join(reportsDir, `${contractName}${baseSuffixPattern}`);
+        const prJsonPath = path.join(reportsDir, file);
+
+        // Include all PR reports, whether or not they have a corresponding base report
+        pairs.push({
+          contractName,
+          baseJsonPath: fs.existsSync(baseJsonPath) ? baseJsonPath : null,
+          prJsonPath,
+        });
+      }
+    }
+  } catch (error: any) {
+    // Handle cases where the directory doesn't exist
+    if (error.code === 'ENOENT') {
+      console.warn(`Reports directory not found: ${reportsDir}`);
+    } else {
+      console.error(`Error reading reports directory ${reportsDir}:`, error);
+    }
+  }
+  return pairs;
+}
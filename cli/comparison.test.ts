@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+// The Action loads the shared comparison logic from dist, so `tsc` must run first (see the `test` script).
+const { runComparison } = createRequire(import.meta.url)('../action/comparison.cjs') as {
+  runComparison: (inputs: {
+    reportsDir: string;
+    baseSuffix: string;
+    prSuffix: string;
+    threshold?: number;
+    memoryThreshold?: number;
+    circuitDetails?: boolean;
+  }) => string;
+};
+
+/**
+ * Compares the fixture reports as the Action does.
+ * @param options - Thresholds and options overriding the Action's defaults.
+ * @returns The Markdown comparison.
+ */
+function compareFixtures(options: { threshold?: number; memoryThreshold?: number; circuitDetails?: boolean } = {}): string {
+  return runComparison({ reportsDir: FIXTURES_DIR, baseSuffix: '_base', prSuffix: '_latest', threshold: 2.5, ...options });
+}
+
+/**
+ * Reads the status emoji of each function from the comparison table.
+ * @param markdown - The Markdown comparison.
+ * @returns The emoji keyed by function name.
+ */
+function statuses(markdown: string): Record<string, string> {
+  const rows = markdown.matchAll(/<td align="center">(.+?)<\/td>\n<td><code>(.+?)<\/code>/g);
+  return Object.fromEntries([...rows].map(([, emoji, name]) => [name, emoji]));
+}
+
+describe('runComparison', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('marks each function of the fixture reports with its status', () => {
+    const markdown = compareFixtures();
+
+    assert.match(markdown, /^<!-- benchmark-diff -->/);
+    assert.match(markdown, /## Contract: token/);
+    assert.deepEqual(statuses(markdown), {
+      approve: '🆕',
+      burn: '🚮',
+      mint: '🔴',
+      redeem: '❌',
+      transfer: '🔴',
+    });
+    assert.match(markdown, /Failed during simulate: Assertion failed: insufficient balance/);
+  });
+
+  it('flags a doubled peak memory only above the memory threshold', () => {
+    assert.equal(statuses(compareFixtures())['mint'], '🔴');
+    assert.equal(statuses(compareFixtures({ memoryThreshold: 150 }))['mint'], '⚪');
+  });
+
+  it('flags a gate regression only above the threshold', () => {
+    assert.equal(statuses(compareFixtures({ threshold: 50, memoryThreshold: 150 }))['transfer'], '⚪');
+  });
+
+  it('names the circuits behind a gate change with circuit details', () => {
+    const markdown = compareFixtures({ circuitDetails: true });
+
+    assert.match(markdown, /<sub>private_kernel_inner #2 \+101,000 new<\/sub>/);
+    assert.match(markdown, /\| ➕ `private_kernel_inner` \|/);
+  });
+
+  it('takes the thresholds not given explicitly from the config the PR report was written with', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aztec-benchmark-'));
+    try {
+      fs.copyFileSync(path.join(FIXTURES_DIR, 'token_base.benchmark.json'), path.join(dir, 'token_base.benchmark.json'));
+      const latest = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'token_latest.benchmark.json'), 'utf-8'));
+      latest.provenance = { ...latest.provenance, config: { profile: 'ci', settings: { threshold: 50, memoryThreshold: 150 } } };
+      fs.writeFileSync(path.join(dir, 'token_latest.benchmark.json'), JSON.stringify(latest));
+      const compare = (thresholds: { threshold?: number; memoryThreshold?: number }) =>
+        statuses(runComparison({ reportsDir: dir, baseSuffix: '_base', prSuffix: '_latest', ...thresholds }));
+
+      assert.deepEqual([compare({}).transfer, compare({}).mint], ['⚪', '⚪']);
+      assert.deepEqual([compare({ threshold: 2.5 }).transfer, compare({ threshold: 2.5 }).mint], ['🔴', '⚪']);
+      assert.equal(compare({ memoryThreshold: 20 }).mint, '🔴');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports when no pair of reports matches the suffixes', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aztec-benchmark-'));
+    try {
+      const markdown = runComparison({ reportsDir: dir, baseSuffix: '_base', prSuffix: '_latest', threshold: 2.5 });
+
+      assert.match(markdown, /No matching benchmark report pairs found to compare/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
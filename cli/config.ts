@@ -0,0 +1,176 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { isReporter } from './events.js';
+import { EXPORT_FORMATS, type ExportFormat } from './exporters.js';
+import { parseNamePattern } from './filter.cjs';
+import { SEND_MODES, type BenchmarkSettings, type Budget, type SendMode } from './types.js';
+
+/** Contents of `aztec-benchmark.config.ts` */
+export interface BenchmarkConfig extends BenchmarkSettings {
+  /** Named settings applied on top of the others with `--profile <name>`, e.g. `ci` and `local`. */
+  profiles?: Record<string, BenchmarkSettings>;
+}
+
+/** A config file and the settings it resolves to */
+export interface LoadedConfig {
+  /** Absolute path of the config file. */
+  file: string;
+  /** The selected profile. */
+  profile?: string;
+  /** The settings of the config file with the profile applied. */
+  settings: BenchmarkSettings;
+}
+
+/** Name of the config file loaded from the working directory when `--config-file` is not passed */
+export const CONFIG_FILE_NAME = 'aztec-benchmark.config.ts';
+
+/** How each setting is validated */
+const SETTING_KINDS: Record<keyof BenchmarkSettings, 'string' | 'strings' | 'boolean' | 'count' | 'number' | 'formats' | 'sendMode' | 'pattern' | 'budgets' | 'reporters'> = {
+  nargoToml: 'string',
+  contracts: 'strings',
+  discover: 'boolean',
+  outputDir: 'string',
+  suffix: 'string',
+  skipProving: 'boolean',
+  runs: 'count',
+  warmup: 'count',
+  continueOnError: 'boolean',
+  timeout: 'count',
+  sendMode: 'sendMode',
+  jobs: 'count',
+  contractTimeout: 'count',
+  history: 'string',
+  formats: 'formats',
+  filter: 'pattern',
+  tags: 'strings',
+  excludeTags: 'strings',
+  threshold: 'number',
+  memoryThreshold: 'number',
+  budgets: 'budgets',
+  reporters: 'reporters',
+  ndjsonOutput: 'string',
+};
+
+/** Names of the settings, in the order they are listed in reports */
+export const SETTING_NAMES = Object.keys(SETTING_KINDS) as Array<keyof BenchmarkSettings>;
+
+/** Limits accepted in a budget */
+const BUDGET_KEYS: Array<keyof Budget> = ['maxGates', 'maxDaGas', 'maxL2Gas', 'maxProvingTime'];
+
+/**
+ * Declares the config of `aztec-benchmark.config.ts` with type checking.
+ * @example
+ * export default defineConfig({
+ *   outputDir: './benchmarks',
+ *   formats: ['json', 'csv'],
+ *   profiles: {
+ *     ci: { continueOnError: true, runs: 3 },
+ *     local: { skipProving: true },
+ *   },
+ * });
+ * @param config - The config.
+ * @returns The config, unchanged.
+ */
+export function defineConfig(config: BenchmarkConfig): BenchmarkConfig {
+  return config;
+}
+
+/**
+ * Checks the settings of a config file or profile.
+ * @param settings - The settings to check.
+ * @param where - Where the settings come from, for error messages.
+ * @throws If a setting is unknown or has an invalid value.
+ */
+export function validateSettings(settings: BenchmarkSettings, where: string) {
+  for (const [key, value] of Object.entries(settings)) {
+    if (value === undefined) continue;
+    const kind = SETTING_KINDS[key as keyof BenchmarkSettings];
+    const fail = (expected: string) => {
+      throw new Error(`Invalid ${key} in ${where}: expected ${expected}, got ${JSON.stringify(value)}`);
+    };
+    const isStrings = Array.isArray(value) && value.every(item => typeof item === 'string');
+
+    switch (kind) {
+      case undefined:
+        throw new Error(`Unknown setting ${key} in ${where}; expected one of: ${Object.keys(SETTING_KINDS).join(', ')}`);
+      case 'string':
+        if (typeof value !== 'string') fail('a string');
+        break;
+      case 'strings':
+        if (!isStrings) fail('an array of strings');
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') fail('a boolean');
+        break;
+      case 'count':
+        if (!Number.isInteger(value) || (value as number) < 0) fail('a non-negative integer');
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !(value >= 0)) fail('a non-negative number');
+        break;
+      case 'formats':
+        if (!isStrings || (value as string[]).some(f => !EXPORT_FORMATS.includes(f as ExportFormat))) {
+          fail(`an array of: ${EXPORT_FORMATS.join(', ')}`);
+        }
+        break;
+      case 'sendMode':
+        if (!SEND_MODES.includes(value as SendMode)) fail(`one of: ${SEND_MODES.join(', ')}`);
+        break;
+      case 'pattern':
+        if (typeof value !== 'string') fail('a glob or /regex/ string');
+        parseNamePattern(value as string);
+        break;
+      case 'reporters':
+        if (!Array.isArray(value) || value.some(reporter => typeof reporter !== 'string' && !isReporter(reporter))) {
+          fail('an array of reporter names, module paths or reporters');
+        }
+        break;
+      case 'budgets':
+        for (const [contract, functions] of Object.entries(value as Record<string, Record<string, Budget>>)) {
+          for (const [fn, budget] of Object.entries(functions ?? {})) {
+            for (const [limit, max] of Object.entries(budget ?? {})) {
+              if (!BUDGET_KEYS.includes(limit as keyof Budget) || typeof max !== 'number' || max < 0) {
+                throw new Error(`Invalid budget ${contract}.${fn}.${limit} in ${where}: expected one of ${BUDGET_KEYS.join(', ')} with a non-negative number`);
+              }
+            }
+          }
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Loads the config file and applies a profile.
+ * The file is imported like benchmark files, so it can be written in TypeScript.
+ * @param configFile - Path of the config file; defaults to `aztec-benchmark.config.ts` in the working directory, if it exists.
+ * @param profile - Name of the profile to apply.
+ * @returns The loaded config, or undefined if there is no config file.
+ * @throws If the file cannot be loaded, is invalid, or the profile does not exist.
+ */
+export async function loadConfig(configFile?: string, profile?: string): Promise<LoadedConfig | undefined> {
+  const file = path.resolve(process.cwd(), configFile ?? CONFIG_FILE_NAME);
+  if (!fs.existsSync(file)) {
+    if (configFile) throw new Error(`Config file not found: ${file}`);
+    if (profile) throw new Error(`--profile ${profile} requires a config file (${CONFIG_FILE_NAME} or --config-file)`);
+    return undefined;
+  }
+
+  const module = await import(file);
+  const config = module.default as BenchmarkConfig | undefined;
+  if (!config || typeof config !== 'object') {
+    throw new Error(`${file} must export a config object as default export (see defineConfig)`);
+  }
+
+  const { profiles = {}, ...base } = config;
+  validateSettings(base, file);
+  if (profile === undefined) return { file, settings: base };
+
+  const selected = profiles[profile];
+  if (!selected) {
+    const available = Object.keys(profiles);
+    throw new Error(`Unknown profile ${profile} in ${file}; available profiles: ${available.length > 0 ? available.join(', ') : 'none'}`);
+  }
+  validateSettings(selected, `profile ${profile} of ${file}`);
+  return { file, profile, settings: { ...base, ...selected } };
+}
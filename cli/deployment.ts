@@ -0,0 +1,82 @@
+import type { ContractFunctionInteractionCallIntent } from '@aztec/aztec.js/authorization';
+import type {
+  DeployMethod,
+  InteractionWaitOptions,
+  ProfileInteractionOptions,
+  RequestInteractionOptions,
+  SendInteractionOptions,
+  SendReturn,
+  SimulateInteractionOptions,
+  TxSendResultImmediate,
+  TxSendResultMined,
+} from '@aztec/aztec.js/contracts';
+
+import type { DeploymentIntent, DeploymentOptions, ProfiledCall, ProfiledInteraction } from './types.js';
+
+/**
+ * Wraps a DeployMethod so the profiler can simulate, profile and send it like a
+ * ContractFunctionInteraction.
+ *
+ * Every call receives the deployment's own options (salt, publication flags, fee),
+ * merged over the options passed by the profiler. The deploy method caches the
+ * contract instance, so every run measures the deployment of the same address
+ * that is eventually sent.
+ */
+export class DeploymentInteraction implements ProfiledInteraction {
+  constructor(
+    private readonly inner: DeployMethod,
+    private readonly options: DeploymentOptions = {},
+  ) {}
+
+  async request(options?: RequestInteractionOptions) {
+    return this.inner.request(this.withOptions(options));
+  }
+
+  async simulate(options: SimulateInteractionOptions) {
+    return this.inner.simulate(this.withOptions(options));
+  }
+
+  async profile(options: ProfileInteractionOptions) {
+    return this.inner.profile(this.withOptions(options));
+  }
+
+  async send<W extends InteractionWaitOptions = undefined>(options: SendInteractionOptions<W>) {
+    // A mined deployment also returns the contract, so its result extends the one of a function interaction.
+    const result: TxSendResultImmediate | TxSendResultMined = await this.inner.send<W>(this.withOptions(options));
+    return result as SendReturn<W>;
+  }
+
+  private withOptions<T>(options: T): T {
+    const given = options as { fee?: object } | undefined;
+    const fee = { ...given?.fee, ...this.options.fee };
+    return {
+      ...given,
+      ...this.options,
+      ...(Object.keys(fee).length > 0 && { fee }),
+    } as T;
+  }
+}
+
+/**
+ * Derives the benchmark name of a deployment from the contract name given with it.
+ * DeployMethod does not expose the name of the deployed contract, so a deployment without one is named
+ * `deploy:unknown_contract`.
+ * @param intent - The deployment.
+ * @returns E.g. `deploy:Token` or, for an account, `deploy:SchnorrAccount`.
+ */
+export function getDeploymentName(intent: DeploymentIntent): string {
+  if (!intent.contractName) {
+    console.warn(`A deployment has no 'contractName'; set it, or name the entry, to tell deployments apart.`);
+  }
+  return `deploy:${intent.contractName ?? 'unknown_contract'}`;
+}
+
+/**
+ * Converts an interaction or deployment into the shape the profiler simulates, profiles and sends.
+ * @param intent - A contract function interaction or a deployment.
+ * @returns The interaction, or the deployment wrapped in a DeploymentInteraction.
+ */
+export function toCallIntent(intent: ContractFunctionInteractionCallIntent | DeploymentIntent): ProfiledCall {
+  if (!('deploy' in intent)) return intent;
+  return { caller: intent.caller, action: new DeploymentInteraction(intent.deploy, intent.options) };
+}
@@ -0,0 +1,168 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import toml from '@iarna/toml';
+import type { TomlBudgetTable } from './budgets.js';
+
+/**
+ * Represents the sections of a Nargo.toml read by the CLI.
+ * The [benchmark] section is a record where keys are benchmark names and values are paths to benchmark files.
+ */
+export interface NargoToml {
+  /** The package of a contract's Nargo.toml. */
+  package?: { name?: string };
+  /** The members of a Nargo workspace, as paths relative to the workspace's Nargo.toml. */
+  workspace?: { members?: string[] };
+  /** Optional mapping of benchmark names to their corresponding file paths. */
+  benchmark?: Record<string, string>;
+  /** Optional absolute budgets keyed by benchmark name, then by function name. */
+  benchmark_budgets?: Record<string, TomlBudgetTable>;
+}
+
+/** A benchmark file resolved from Nargo.toml or by convention */
+export interface BenchmarkTarget {
+  /** Name used by `--contracts` and in the report filename; `<package>.<benchmark>` for workspace members. */
+  name: string;
+  /** Absolute path of the benchmark file. */
+  filePath: string;
+  /** The workspace member the benchmark belongs to, if any. */
+  package?: string;
+  /** Where the benchmark was found: the path of the Nargo.toml declaring it, or `convention`. */
+  source: string;
+  /** Budgets declared for the benchmark in Nargo.toml. */
+  budgets?: TomlBudgetTable;
+}
+
+/** Options of benchmark resolution */
+export interface DiscoveryOptions {
+  /** Also find `*.benchmark.ts` files that are not declared in any [benchmark] section. */
+  discover?: boolean;
+}
+
+/** Suffix of benchmark files found by convention */
+const BENCHMARK_FILE_SUFFIX = '.benchmark.ts';
+
+/** Directories never searched for benchmark files */
+const IGNORED_DIRS = new Set(['node_modules', 'target', 'dist']);
+
+/**
+ * Reads and parses a Nargo.toml file.
+ * @param filePath - Path of the file.
+ * @returns The parsed file.
+ * @throws If the file is missing or is not valid TOML.
+ */
+export function readNargoToml(filePath: string): NargoToml {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Nargo.toml not found at ${filePath}`);
+  }
+  try {
+    return toml.parse(fs.readFileSync(filePath, 'utf-8')) as NargoToml;
+  } catch (error: any) {
+    throw new Error(`Error parsing Nargo.toml at ${filePath}: ${error.message}`);
+  }
+}
+
+/**
+ * Finds benchmark files by convention, skipping hidden, dependency and build directories.
+ * @param dir - The directory to search recursively.
+ * @returns Absolute paths of the `*.benchmark.ts` files, sorted.
+ */
+export function findBenchmarkFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && !IGNORED_DIRS.has(entry.name)) {
+      files.push(...findBenchmarkFiles(entryPath));
+    } else if (entry.isFile() && entry.name.endsWith(BENCHMARK_FILE_SUFFIX)) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Resolves the benchmarks of a project: the [benchmark] section of its Nargo.toml, the [benchmark]
+ * sections of its workspace members and, optionally, benchmark files found by convention.
+ * Benchmarks of a workspace member are namespaced by its package name (`token.transfer`), so
+ * members can reuse benchmark names. A member's budgets are read from its own Nargo.toml, or from
+ * the workspace's under the namespaced name.
+ * @param nargoTomlPath - Path of the root Nargo.toml.
+ * @param options - Whether to discover benchmark files by convention.
+ * @returns The benchmarks, in declaration order followed by the discovered ones.
+ * @throws If a Nargo.toml cannot be read or two benchmarks resolve to the same name.
+ */
+export function resolveBenchmarks(nargoTomlPath: string, options: DiscoveryOptions = {}): BenchmarkTarget[] {
+  const rootDir = path.dirname(nargoTomlPath);
+  const root = readNargoToml(nargoTomlPath);
+  const source = (tomlPath: string) => path.relative(process.cwd(), tomlPath) || tomlPath;
+
+  const targets: BenchmarkTarget[] = Object.entries(root.benchmark ?? {}).map(([name, file]) => ({
+    name,
+    filePath: path.resolve(rootDir, file),
+    source: source(nargoTomlPath),
+    budgets: root.benchmark_budgets?.[name],
+  }));
+
+  const members: Array<{ dir: string; package: string }> = [];
+  for (const member of root.workspace?.members ?? []) {
+    const memberDir = path.resolve(rootDir, member);
+    const memberTomlPath = path.join(memberDir, 'Nargo.toml');
+    const memberToml = readNargoToml(memberTomlPath);
+    const packageName = memberToml.package?.name ?? path.basename(memberDir);
+    members.push({ dir: memberDir, package: packageName });
+
+    for (const [benchmark, file] of Object.entries(memberToml.benchmark ?? {})) {
+      const name = `${packageName}.${benchmark}`;
+      targets.push({
+        name,
+        filePath: path.resolve(memberDir, file),
+        package: packageName,
+        source: source(memberTomlPath),
+        budgets: memberToml.benchmark_budgets?.[benchmark] ?? root.benchmark_budgets?.[name],
+      });
+    }
+  }
+
+  if (options.discover) {
+    const declared = new Set(targets.map(t => t.filePath));
+    for (const filePath of findBenchmarkFiles(rootDir)) {
+      if (declared.has(filePath)) continue;
+      // A file belongs to the innermost member containing it.
+      const member = members
+        .filter(m => filePath.startsWith(m.dir + path.sep))
+        .sort((a, b) => b.dir.length - a.dir.length)[0];
+      const benchmark = path.basename(filePath, BENCHMARK_FILE_SUFFIX);
+      const name = member ? `${member.package}.${benchmark}` : benchmark;
+      targets.push({
+        name,
+        filePath,
+        ...(member && { package: member.package }),
+        source: 'convention',
+        budgets: root.benchmark_budgets?.[name],
+      });
+    }
+  }
+
+  const seen = new Map<string, BenchmarkTarget>();
+  for (const target of targets) {
+    const other = seen.get(target.name);
+    if (other) {
+      throw new Error(
+        `Benchmark "${target.name}" is defined twice: ${other.filePath} (${other.source}) and ${target.filePath} (${target.source})`,
+      );
+    }
+    seen.set(target.name, target);
+  }
+  return targets;
+}
+
+/**
+ * Selects the benchmarks named with `--contracts`.
+ * @param targets - All resolved benchmarks.
+ * @param names - Benchmark names, or workspace package names selecting all of the package's benchmarks.
+ * @returns The selected benchmarks, or all of them if no names are given.
+ */
+export function selectBenchmarks(targets: BenchmarkTarget[], names: string[]): BenchmarkTarget[] {
+  if (names.length === 0) return targets;
+  return targets.filter(t => names.includes(t.name) || (t.package !== undefined && names.includes(t.package)));
+}
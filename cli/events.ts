@@ -0,0 +1,208 @@
+/**
+ * Lifecycle events of a benchmark run, consumed by reporters.
+ *
+ * Events are plain JSON values, so they can be sent from worker processes and streamed as NDJSON.
+ */
+import type { ContractRunSummary } from './runContract.js';
+import type { ShardSpec } from './shard.js';
+import type { BudgetViolation, ProfilePhase, ProfileResult, ReportConfig } from './types.js';
+
+/** The run started, once its configuration is resolved and its contracts are selected */
+export interface RunStartEvent {
+  type: 'run-start';
+  /** The effective configuration of the run. */
+  config: ReportConfig;
+  /** Contracts selected by `contracts` and the Nargo.toml, before sharding. */
+  contracts: string[];
+  /** The shard this run is, if it is sharded. */
+  shard?: ShardSpec;
+  /** Number of contracts benchmarked at the same time. */
+  concurrency: number;
+}
+
+/** A contract's worker process started */
+export interface ContractStartEvent {
+  type: 'contract-start';
+  contractName: string;
+  /** Absolute path of the `*.benchmark.ts` file. */
+  benchmarkFile: string;
+  /** Absolute path of the JSON report. */
+  outputPath: string;
+}
+
+/** A contract's `setup()` started */
+export interface SetupStartEvent {
+  type: 'setup-start';
+  contractName: string;
+}
+
+/** A contract's `setup()` completed */
+export interface SetupEndEvent {
+  type: 'setup-end';
+  contractName: string;
+  /** Duration of the setup in milliseconds. */
+  durationMs: number;
+}
+
+/** Profiling of a method started, once its name is known */
+export interface MethodStartEvent {
+  type: 'method-start';
+  /** The contract, unless the method is profiled by a standalone `Profiler`. */
+  contractName?: string;
+  /** Name of the method. */
+  name: string;
+  /** Number of measured runs. */
+  runs: number;
+  /** Number of discarded warmup runs. */
+  warmup: number;
+}
+
+/** A phase of profiling a method completed or failed */
+export interface PhaseEvent {
+  type: 'phase';
+  /** The contract, unless the method is profiled by a standalone `Profiler`. */
+  contractName?: string;
+  /** Name of the method. */
+  name: string;
+  /** The phase. `simulate` and `profile` occur once per run. */
+  phase: ProfilePhase;
+  /** Duration of the phase in milliseconds. */
+  durationMs: number;
+}
+
+/** A method was profiled; failed methods produce a `failure` event first, then their failed result */
+export interface ResultEvent {
+  type: 'result';
+  /** The contract, unless the method is profiled by a standalone `Profiler`. */
+  contractName?: string;
+  /** The result recorded in the report. */
+  result: ProfileResult;
+}
+
+/** A method or a whole contract failed */
+export interface FailureEvent {
+  type: 'failure';
+  /** The contract, unless the method is profiled by a standalone `Profiler`. */
+  contractName?: string;
+  /** Name of the failed method; unset if the contract failed as a whole. */
+  name?: string;
+  /** The phase that failed. */
+  phase: ProfilePhase | 'teardown';
+  /** The error message. */
+  message: string;
+  /** Stack trace of the error, if any. */
+  stack?: string;
+  /** Whether the failure was caused by a timeout. */
+  timedOut?: boolean;
+}
+
+/** Methods of a contract exceeded their budgets */
+export interface BudgetExceededEvent {
+  type: 'budget-exceeded';
+  contractName: string;
+  /** The exceeded limits. */
+  violations: BudgetViolation[];
+}
+
+/** A contract's `teardown()` started */
+export interface TeardownStartEvent {
+  type: 'teardown-start';
+  contractName: string;
+}
+
+/** A contract's `teardown()` completed */
+export interface TeardownEndEvent {
+  type: 'teardown-end';
+  contractName: string;
+  /** Duration of the teardown in milliseconds. */
+  durationMs: number;
+}
+
+/** A report was written */
+export interface ReportSavedEvent {
+  type: 'report-saved';
+  /** The contract, unless the report is saved by a standalone `Profiler`. */
+  contractName?: string;
+  /** Path of the JSON report. */
+  path: string;
+  /** Number of results in the report. */
+  methods: number;
+}
+
+/** A contract's worker process finished, successfully or not */
+export interface ContractEndEvent {
+  type: 'contract-end';
+  contractName: string;
+  /** Outcome of the contract. */
+  summary: ContractRunSummary;
+  /** Duration of the contract in milliseconds. */
+  durationMs: number;
+}
+
+/** Any other message of the run */
+export interface LogEvent {
+  type: 'log';
+  level: 'info' | 'warn' | 'error';
+  /** The contract the message is about, if any. */
+  contractName?: string;
+  message: string;
+}
+
+/** The run finished */
+export interface RunEndEvent {
+  type: 'run-end';
+  /** Outcome of every contract that was started. */
+  summaries: ContractRunSummary[];
+  /** Duration of the run in milliseconds. */
+  durationMs: number;
+}
+
+/** An event of a benchmark run */
+export type BenchmarkEvent =
+  | RunStartEvent
+  | ContractStartEvent
+  | SetupStartEvent
+  | SetupEndEvent
+  | MethodStartEvent
+  | PhaseEvent
+  | ResultEvent
+  | FailureEvent
+  | BudgetExceededEvent
+  | TeardownStartEvent
+  | TeardownEndEvent
+  | ReportSavedEvent
+  | ContractEndEvent
+  | LogEvent
+  | RunEndEvent;
+
+/** Receives the events of a run */
+export type EventListener = (event: BenchmarkEvent) => void;
+
+/**
+ * Consumes the events of a benchmark run, e.g. to print progress or stream results elsewhere.
+ * Events of a run arrive in order; an async `onEvent` delays the next event until it resolves.
+ */
+export interface Reporter {
+  /** Called with every event of the run. */
+  onEvent(event: BenchmarkEvent): void | Promise<void>;
+}
+
+/**
+ * Creates a log event.
+ * @param level - Severity of the message.
+ * @param message - The message.
+ * @param contractName - The contract the message is about, if any.
+ * @returns The event.
+ */
+export function logEvent(level: LogEvent['level'], message: string, contractName?: string): LogEvent {
+  return { type: 'log', level, ...(contractName !== undefined && { contractName }), message };
+}
+
+/**
+ * Checks whether a value implements the reporter interface.
+ * @param value - The value.
+ * @returns True if it has an `onEvent` method.
+ */
+export function isReporter(value: unknown): value is Reporter {
+  return typeof value === 'object' && value !== null && typeof (value as Reporter).onEvent === 'function';
+}
@@ -0,0 +1,240 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { readReport } from './comparison.cjs';
+import { EXPORT_FORMATS, EXPORTERS, exportPath, flattenReport, type MetricRow } from './exporters.js';
+import type { ProfileReport } from './types.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+/**
+ * Sorts metric rows, since exporters may group them differently.
+ * @param rows - The rows.
+ * @returns The rows sorted by function, metric and circuit.
+ */
+function sortRows(rows: MetricRow[]): MetricRow[] {
+  const key = (row: MetricRow) => `${row.function}\u0000${row.metric}\u0000${row.circuit ?? ''}\u0000${row.value}`;
+  return [...rows].sort((a, b) => key(a).localeCompare(key(b)));
+}
+
+/** A report with names that need quoting or escaping in every format */
+const TRICKY_REPORT: ProfileReport = {
+  schemaVersion: 2,
+  summary: {},
+  results: [
+    {
+      name: 'transfer (amount="1,000"; note)\nsecond line',
+      totalGateCount: 1_000,
+      gateCounts: [{ circuitName: 'Token:transfer\\private', gateCount: 1_000, witgenMs: 1.5 }],
+      status: 'success',
+    },
+  ],
+  gasSummary: {},
+  provingTimeSummary: {},
+  systemInfo: { cpuModel: 'test', cpuCores: 1, totalMemoryGiB: 1, arch: 'x64' },
+};
+
+/** A report executing the same kernel circuit twice, as most private functions do */
+const REPEATED_CIRCUITS_REPORT: ProfileReport = {
+  ...TRICKY_REPORT,
+  results: [
+    {
+      name: 'transfer',
+      totalGateCount: 3_500,
+      gateCounts: [
+        { circuitName: 'private_kernel_inner', gateCount: 1_000 },
+        { circuitName: 'Token:transfer', gateCount: 1_500 },
+        { circuitName: 'private_kernel_inner', gateCount: 1_000 },
+      ],
+      status: 'success',
+    },
+  ],
+};
+
+/**
+ * Reads OpenMetrics text line by line, checking its structure: metric families are grouped, start with
+ * a TYPE line and may have UNIT and HELP lines, every sample belongs to the current family and the text
+ * ends with `# EOF`.
+ * @param content - The OpenMetrics text.
+ * @returns The key of each sample: its metric name and labels.
+ */
+function readOpenMetricsSeries(content: string): string[] {
+  const lines = content.split('\n');
+  assert.equal(lines.pop(), '', 'the text ends with a newline');
+  assert.equal(lines.pop(), '# EOF');
+  const families = new Set<string>();
+  const series: string[] = [];
+  let family: string | undefined;
+  for (const line of lines) {
+    const meta = line.match(/^# (TYPE|UNIT|HELP) (\w+) (.+)$/);
+    if (meta) {
+      const [, kind, name, rest] = meta;
+      if (kind === 'TYPE') {
+        assert.ok(!families.has(name), `${name} is declared once`);
+        assert.equal(rest, 'gauge');
+        families.add(name);
+        family = name;
+      } else {
+        assert.equal(name, family, `${kind} ${name} follows its TYPE`);
+      }
+      continue;
+    }
+    const sample = line.match(/^(\w+)\{((?:\w+="(?:[^"\\]|\\.)*",?)*)\} (\S+)$/);
+    assert.ok(sample, `Unexpected line: ${line}`);
+    assert.equal(sample[1], family, `${sample[1]} is grouped with its family`);
+    assert.ok(Number.isFinite(Number(sample[3])), `${sample[3]} is a number`);
+    const labels = [...sample[2].matchAll(/(\w+)="((?:[^"\\]|\\.)*)"/g)].map(([, key, value]) => `${key}=${value}`);
+    series.push(`${sample[1]}{${labels.sort().join(',')}}`);
+  }
+  return series;
+}
+
+/**
+ * Finds the values that appear more than once.
+ * @param values - The values.
+ * @returns The duplicated values.
+ */
+function duplicates(values: string[]): string[] {
+  return values.filter((value, i) => values.indexOf(value) !== i);
+}
+
+describe('exporters', () => {
+  for (const fixture of ['token_base', 'token_latest']) {
+    const report = readReport(path.join(FIXTURES_DIR, `${fixture}.benchmark.json`));
+
+    for (const format of EXPORT_FORMATS) {
+      it(`round-trips ${fixture} through ${format}`, () => {
+        const exporter = EXPORTERS[format];
+
+        const rows = exporter.parse(exporter.serialize(report, 'token'), 'token');
+
+        assert.deepEqual(sortRows(rows), sortRows(flattenReport(report, 'token')));
+      });
+    }
+  }
+
+  for (const format of EXPORT_FORMATS) {
+    it(`round-trips names with separators and quotes through ${format}`, () => {
+      const exporter = EXPORTERS[format];
+
+      const rows = exporter.parse(exporter.serialize(TRICKY_REPORT, 'my,token'), 'my,token');
+
+      assert.deepEqual(sortRows(rows), sortRows(flattenReport(TRICKY_REPORT, 'my,token')));
+    });
+  }
+
+  it('keeps fees beyond the precision of a number exact, except in gab', () => {
+    const fee = '12345678901234567890123';
+    const report: ProfileReport = { ...TRICKY_REPORT, results: [{ ...TRICKY_REPORT.results[0], name: 'transfer', fee }] };
+
+    for (const format of EXPORT_FORMATS) {
+      const exporter = EXPORTERS[format];
+      const rows = exporter.parse(exporter.serialize(report, 'token'), 'token');
+
+      const parsed = rows.find(row => row.metric === 'fee')?.value;
+      if (format === 'gab') assert.equal(parsed, BigInt(Number(fee)).toString());
+      else assert.equal(parsed, fee, `${format} changed the fee`);
+    }
+  });
+
+  for (const [name, report] of [
+    ['token_latest', readReport(path.join(FIXTURES_DIR, 'token_latest.benchmark.json'))],
+    ['a report with repeated circuits', REPEATED_CIRCUITS_REPORT],
+  ] as const) {
+    it(`writes valid OpenMetrics with unique series for ${name}`, () => {
+      const series = readOpenMetricsSeries(EXPORTERS.openmetrics.serialize(report, 'token'));
+
+      assert.equal(series.length, flattenReport(report, 'token').length);
+      assert.deepEqual(duplicates(series), []);
+    });
+
+    it(`writes github-action-benchmark entries with unique names for ${name}`, () => {
+      const entries: unknown = JSON.parse(EXPORTERS.gab.serialize(report, 'token'));
+
+      assert.ok(Array.isArray(entries));
+      for (const entry of entries) {
+        assert.deepEqual(Object.keys(entry), ['name', 'unit', 'value']);
+        assert.equal(typeof entry.name, 'string');
+        assert.equal(typeof entry.unit, 'string');
+        assert.ok(Number.isFinite(entry.value), `${entry.name} has a numeric value`);
+      }
+      assert.deepEqual(duplicates(entries.map(entry => entry.name)), []);
+    });
+
+    it(`writes CSV rows with unique keys for ${name}`, () => {
+      const [header, ...lines] = EXPORTERS.csv.serialize(report, 'token').trimEnd().split('\n');
+
+      assert.equal(header, 'contract,function,metric,circuit,occurrence,value,unit');
+      assert.deepEqual(duplicates(lines.map(line => line.split(',').slice(0, 5).join(','))), []);
+    });
+  }
+
+  it('numbers the occurrences of a repeated circuit', () => {
+    const rows = flattenReport(REPEATED_CIRCUITS_REPORT, 'token').filter(row => row.metric === 'circuit_gates');
+
+    assert.deepEqual(
+      rows.map(row => [row.circuit, row.occurrence]),
+      [['private_kernel_inner', 1], ['Token:transfer', 1], ['private_kernel_inner', 2]],
+    );
+    assert.deepEqual(
+      JSON.parse(EXPORTERS.gab.serialize(REPEATED_CIRCUITS_REPORT, 'token'))
+        .map((entry: { name: string }) => entry.name)
+        .filter((name: string) => name.includes('circuit_gates')),
+      [
+        'token/transfer: circuit_gates (private_kernel_inner)',
+        'token/transfer: circuit_gates (Token:transfer)',
+        'token/transfer: circuit_gates (private_kernel_inner #2)',
+      ],
+    );
+  });
+
+  it('flattens a failed function into a single failed row', () => {
+    const report = readReport(path.join(FIXTURES_DIR, 'token_latest.benchmark.json'));
+
+    const rows = flattenReport(report, 'token').filter(row => row.function === 'redeem');
+
+    assert.deepEqual(rows, [{ contract: 'token', function: 'redeem', metric: 'failed', value: 1 }]);
+  });
+
+  it('flattens every measured metric of a function', () => {
+    const report = readReport(path.join(FIXTURES_DIR, 'token_base.benchmark.json'));
+
+    const metrics = new Set(flattenReport(report, 'token').filter(row => row.function === 'transfer').map(row => row.metric));
+
+    assert.deepEqual([...metrics].sort(), [
+      'circuit_gates',
+      'circuit_witgen_ms',
+      'cpu_system_ms',
+      'cpu_user_ms',
+      'da_gas',
+      'fee',
+      'gates',
+      'l2_gas',
+      'peak_heap_used_mib',
+      'peak_rss_mib',
+      'proving_time_ms',
+      'teardown_da_gas',
+      'teardown_l2_gas',
+      'used_da_gas',
+      'used_l2_gas',
+      'used_teardown_da_gas',
+      'used_teardown_l2_gas',
+    ]);
+  });
+
+  it('derives the path of each format from the JSON report path', () => {
+    const jsonPath = 'benchmarks/token_latest.benchmark.json';
+
+    assert.deepEqual(
+      EXPORT_FORMATS.map(format => exportPath(jsonPath, format)),
+      [
+        'benchmarks/token_latest.benchmark.json',
+        'benchmarks/token_latest.benchmark.csv',
+        'benchmarks/token_latest.benchmark.prom',
+        'benchmarks/token_latest.benchmark.gab.json',
+      ],
+    );
+  });
+});
@@ -0,0 +1,398 @@
+import fs from 'node:fs';
+import { getFailure } from './comparison.cjs';
+import type { ProfileReport } from './types.js';
+
+/** Report formats that can be written by a run */
+export type ExportFormat = 'json' | 'csv' | 'openmetrics' | 'gab';
+
+/**
+ * Names of the flattened metrics. They are part of the exported formats and must stay stable:
+ * dashboards and alerts are built on them.
+ */
+export type MetricName =
+  | 'gates'
+  | 'circuit_gates'
+  | 'circuit_witgen_ms'
+  | 'da_gas'
+  | 'l2_gas'
+  | 'teardown_da_gas'
+  | 'teardown_l2_gas'
+  | 'used_da_gas'
+  | 'used_l2_gas'
+  | 'used_teardown_da_gas'
+  | 'used_teardown_l2_gas'
+  | 'fee'
+  | 'proving_time_ms'
+  | 'peak_rss_mib'
+  | 'peak_heap_used_mib'
+  | 'cpu_user_ms'
+  | 'cpu_system_ms'
+  | 'failed';
+
+/** A single measured value of a function, the common shape of every flat format */
+export interface MetricRow {
+  /** Name of the contract. */
+  contract: string;
+  /** Name of the benchmarked function. */
+  function: string;
+  metric: MetricName;
+  /** Circuit name, for per-circuit metrics only. */
+  circuit?: string;
+  /** Occurrence of the circuit in the function's execution, from 1, for per-circuit metrics only. */
+  occurrence?: number;
+  /** The measured value. A `fee` is the decimal string of the report, as it can exceed the precision of a number. */
+  value: number | string;
+}
+
+/** Writes a report in one format and reads the flattened metrics back */
+export interface Exporter {
+  /** Extension replacing `.json` in the report filename, e.g. `.csv` for `token.benchmark.csv`. */
+  extension: string;
+  /**
+   * Serializes a report.
+   * @param report - The report to export.
+   * @param contractName - Name of the contract, used as a label.
+   * @returns The file content.
+   */
+  serialize(report: ProfileReport, contractName: string): string;
+  /**
+   * Reads the metrics back from exported content. Row order may differ from `flattenReport`.
+   * @param content - Content produced by `serialize`.
+   * @param contractName - Name of the contract, for formats that do not store it.
+   * @returns The flattened metrics.
+   */
+  parse(content: string, contractName: string): MetricRow[];
+}
+
+/** Unit and description of each metric */
+const METRIC_INFO: Record<MetricName, { unit: string; help: string }> = {
+  gates: { unit: 'gates', help: 'Total gate count of the function' },
+  circuit_gates: { unit: 'gates', help: 'Gate count of a circuit executed by the function' },
+  circuit_witgen_ms: { unit: 'ms', help: 'Witness generation time of a circuit' },
+  da_gas: { unit: 'gas', help: 'Data availability gas limit' },
+  l2_gas: { unit: 'gas', help: 'L2 gas limit' },
+  teardown_da_gas: { unit: 'gas', help: 'Teardown data availability gas limit' },
+  teardown_l2_gas: { unit: 'gas', help: 'Teardown L2 gas limit' },
+  used_da_gas: { unit: 'gas', help: 'Data availability gas used by the transaction, as simulated before it is sent' },
+  used_l2_gas: { unit: 'gas', help: 'L2 gas used by the transaction, as simulated before it is sent' },
+  used_teardown_da_gas: { unit: 'gas', help: 'Data availability gas used by the teardown phase, as simulated before the transaction is sent' },
+  used_teardown_l2_gas: { unit: 'gas', help: 'L2 gas used by the teardown phase, as simulated before the transaction is sent' },
+  fee: { unit: '', help: 'Fee paid by the sent transaction, in base units of Fee Juice' },
+  proving_time_ms: { unit: 'ms', help: 'Proving time of the transaction' },
+  peak_rss_mib: { unit: 'MiB', help: 'Peak resident set size of the process and its child processes while profiling' },
+  peak_heap_used_mib: { unit: 'MiB', help: 'Peak JavaScript heap used while profiling' },
+  cpu_user_ms: { unit: 'ms', help: 'CPU time spent in user mode while profiling' },
+  cpu_system_ms: { unit: 'ms', help: 'CPU time spent in kernel mode while profiling' },
+  failed: { unit: '', help: 'Set to 1 when the function failed to run' },
+};
+
+const METRIC_NAMES = Object.keys(METRIC_INFO) as MetricName[];
+
+const OPENMETRICS_PREFIX = 'aztec_benchmark_';
+
+const CSV_HEADER = ['contract', 'function', 'metric', 'circuit', 'occurrence', 'value', 'unit'];
+
+/**
+ * Flattens a report into one row per measured value.
+ * Failed functions only produce a `failed` row; metrics that were not measured are omitted.
+ * A circuit executed several times, e.g. `private_kernel_inner`, has one row per occurrence, numbered like the
+ * comparison's `#2`, so that every row of a function is identified by its metric, circuit and occurrence.
+ * @param report - The report to flatten.
+ * @param contractName - Name of the contract.
+ * @returns The rows, in result order.
+ */
+export function flattenReport(report: ProfileReport, contractName: string): MetricRow[] {
+  const rows: MetricRow[] = [];
+  for (const result of report.results) {
+    const row = (metric: MetricName, value: number | string, circuit?: { name: string; occurrence: number }) =>
+      rows.push({
+        contract: contractName,
+        function: result.name,
+        metric,
+        ...(circuit && { circuit: circuit.name, occurrence: circuit.occurrence }),
+        value,
+      });
+
+    if (getFailure(result)) {
+      row('failed', 1);
+      continue;
+    }
+    row('gates', result.totalGateCount);
+    const seen = new Map<string, number>();
+    for (const circuit of result.gateCounts) {
+      const occurrence = (seen.get(circuit.circuitName) ?? 0) + 1;
+      seen.set(circuit.circuitName, occurrence);
+      const key = { name: circuit.circuitName, occurrence };
+      row('circuit_gates', circuit.gateCount, key);
+      if (circuit.witgenMs !== undefined) row('circuit_witgen_ms', circuit.witgenMs, key);
+    }
+    if (result.gas) {
+      row('da_gas', result.gas.gasLimits.daGas);
+      row('l2_gas', result.gas.gasLimits.l2Gas);
+      row('teardown_da_gas', result.gas.teardownGasLimits.daGas);
+      row('teardown_l2_gas', result.gas.teardownGasLimits.l2Gas);
+    }
+    if (result.simulatedGasUsed) {
+      row('used_da_gas', result.simulatedGasUsed.total.daGas);
+      row('used_l2_gas', result.simulatedGasUsed.total.l2Gas);
+      row('used_teardown_da_gas', result.simulatedGasUsed.teardown.daGas);
+      row('used_teardown_l2_gas', result.simulatedGasUsed.teardown.l2Gas);
+    }
+    if (result.fee !== undefined) row('fee', result.fee);
+    if (result.provingTime !== undefined) row('proving_time_ms', result.provingTime);
+    if (result.resources) {
+      row('peak_rss_mib', result.resources.peakRssMiB);
+      row('peak_heap_used_mib', result.resources.peakHeapUsedMiB);
+      row('cpu_user_ms', result.resources.cpuUserMs);
+      row('cpu_system_ms', result.resources.cpuSystemMs);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Converts a parsed value back to the type flattenReport gives it.
+ * @param metric - The metric of the value.
+ * @param value - The parsed value.
+ * @returns The decimal string of a fee, the number of any other metric.
+ */
+function toMetricValue(metric: MetricName, value: string): number | string {
+  return metric === 'fee' ? value : Number(value);
+}
+
+/**
+ * Checks that a parsed metric name is known.
+ * @param name - The parsed name.
+ * @returns The name as a MetricName.
+ * @throws If the metric is unknown.
+ */
+function toMetricName(name: string): MetricName {
+  if (!METRIC_NAMES.includes(name as MetricName)) throw new Error(`Unknown metric: ${name}`);
+  return name as MetricName;
+}
+
+/**
+ * Quotes a CSV field when needed (RFC 4180).
+ * @param field - The raw field.
+ * @returns The field, quoted if it contains a comma, quote or newline.
+ */
+function csvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Splits CSV content into records (RFC 4180, quoted fields may contain commas, quotes and newlines).
+ * @param content - The CSV content.
+ * @returns The records as arrays of fields.
+ */
+function parseCsvRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) records.push([...record, field]);
+  return records;
+}
+
+/**
+ * Escapes an OpenMetrics label value.
+ * @param value - The raw value.
+ * @returns The escaped value.
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Reverses escapeLabel.
+ * @param value - The escaped value.
+ * @returns The raw value.
+ */
+function unescapeLabel(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char));
+}
+
+/**
+ * Builds the github-action-benchmark entry name of a row.
+ * @param row - The metric row.
+ * @returns `<contract>/<function>: <metric>`, followed by ` (<circuit>)` for per-circuit metrics,
+ *          or ` (<circuit> #<occurrence>)` from the second occurrence of a circuit on.
+ */
+function gabName(row: MetricRow): string {
+  if (row.circuit === undefined) return `${row.contract}/${row.function}: ${row.metric}`;
+  const occurrence = row.occurrence !== undefined && row.occurrence > 1 ? ` #${row.occurrence}` : '';
+  return `${row.contract}/${row.function}: ${row.metric} (${row.circuit}${occurrence})`;
+}
+
+/** Exporters keyed by format */
+export const EXPORTERS: Record<ExportFormat, Exporter> = {
+  json: {
+    extension: '.json',
+    serialize: report => JSON.stringify(report, null, 2),
+    parse: (content, contractName) => flattenReport(JSON.parse(content), contractName),
+  },
+
+  csv: {
+    extension: '.csv',
+    serialize: (report, contractName) => {
+      const lines = [CSV_HEADER.join(',')];
+      for (const row of flattenReport(report, contractName)) {
+        lines.push(
+          [
+            row.contract,
+            row.function,
+            row.metric,
+            row.circuit ?? '',
+            String(row.occurrence ?? ''),
+            String(row.value),
+            METRIC_INFO[row.metric].unit,
+          ]
+            .map(csvField)
+            .join(','),
+        );
+      }
+      return lines.join('\n') + '\n';
+    },
+    parse: content => {
+      const [header, ...records] = parseCsvRecords(content);
+      if (header?.join(',') !== CSV_HEADER.join(',')) throw new Error('Unexpected CSV header');
+      return records.map(([contract, fn, name, circuit, occurrence, value]) => {
+        const metric = toMetricName(name);
+        return {
+          contract,
+          function: fn,
+          metric,
+          ...(circuit !== '' && { circuit, occurrence: Number(occurrence) }),
+          value: toMetricValue(metric, value),
+        };
+      });
+    },
+  },
+
+  // Fees are written as exact decimals, but Prometheus stores samples as floats, so a scraped fee above 2^53 is rounded.
+  openmetrics: {
+    extension: '.prom',
+    serialize: (report, contractName) => {
+      const rows = flattenReport(report, contractName);
+      const lines: string[] = [];
+      // OpenMetrics requires all samples of a metric family to be grouped together.
+      for (const metric of METRIC_NAMES) {
+        const samples = rows.filter(row => row.metric === metric);
+        if (samples.length === 0) continue;
+        const name = `${OPENMETRICS_PREFIX}${metric}`;
+        lines.push(`# TYPE ${name} gauge`);
+        if (METRIC_INFO[metric].unit) lines.push(`# UNIT ${name} ${METRIC_INFO[metric].unit}`);
+        lines.push(`# HELP ${name} ${METRIC_INFO[metric].help}.`);
+        for (const row of samples) {
+          const labels = [`contract="${escapeLabel(row.contract)}"`, `function="${escapeLabel(row.function)}"`];
+          if (row.circuit !== undefined) labels.push(`circuit="${escapeLabel(row.circuit)}"`, `occurrence="${row.occurrence}"`);
+          lines.push(`${name}{${labels.join(',')}} ${row.value}`);
+        }
+      }
+      lines.push('# EOF');
+      return lines.join('\n') + '\n';
+    },
+    parse: content => {
+      const rows: MetricRow[] = [];
+      for (const line of content.split('\n')) {
+        if (!line || line.startsWith('#')) continue;
+        const match = line.match(/^(\w+)\{(.*)\} (\S+)$/);
+        if (!match || !match[1].startsWith(OPENMETRICS_PREFIX)) throw new Error(`Unexpected OpenMetrics line: ${line}`);
+        const labels: Record<string, string> = {};
+        for (const [, key, value] of match[2].matchAll(/(\w+)="((?:[^"\\]|\\.)*)"/g)) {
+          labels[key] = unescapeLabel(value);
+        }
+        const metric = toMetricName(match[1].slice(OPENMETRICS_PREFIX.length));
+        rows.push({
+          contract: labels.contract,
+          function: labels.function,
+          metric,
+          ...(labels.circuit !== undefined && { circuit: labels.circuit, occurrence: Number(labels.occurrence) }),
+          value: toMetricValue(metric, match[3]),
+        });
+      }
+      return rows;
+    },
+  },
+
+  // github-action-benchmark "customSmallerIsBetter" input: every metric is better when lower.
+  // Its values are JSON numbers, so a fee above 2^53 loses precision and is read back rounded.
+  gab: {
+    extension: '.gab.json',
+    serialize: (report, contractName) =>
+      JSON.stringify(
+        flattenReport(report, contractName).map(row => ({
+          name: gabName(row),
+          unit: METRIC_INFO[row.metric].unit,
+          value: Number(row.value),
+        })),
+        null,
+        2,
+      ),
+    parse: content =>
+      (JSON.parse(content) as Array<{ name: string; value: number }>).map(entry => {
+        const match = entry.name.match(/^([^/]*)\/(.*): (\w+)(?: \((.*?)(?: #(\d+))?\))?$/s);
+        if (!match) throw new Error(`Unexpected github-action-benchmark entry: ${entry.name}`);
+        const metric = toMetricName(match[3]);
+        return {
+          contract: match[1],
+          function: match[2],
+          metric,
+          ...(match[4] !== undefined && { circuit: match[4], occurrence: Number(match[5] ?? 1) }),
+          value: metric === 'fee' ? BigInt(entry.value).toString() : entry.value,
+        };
+      }),
+  },
+};
+
+/** All supported formats, in the order they are listed in help output */
+export const EXPORT_FORMATS = Object.keys(EXPORTERS) as ExportFormat[];
+
+/**
+ * Derives the path of an exported file from the JSON report path.
+ * @param jsonPath - Path of the `*.benchmark.json` report.
+ * @param format - The export format.
+ * @returns The path with `.json` replaced by the format's extension.
+ */
+export function exportPath(jsonPath: string, format: ExportFormat): string {
+  return jsonPath.replace(/\.json$/, '') + EXPORTERS[format].extension;
+}
+
+/**
+ * Writes a report in every requested format next to the JSON report path.
+ * @param report - The report to write.
+ * @param jsonPath - Path of the `*.benchmark.json` report.
+ * @param contractName - Name of the contract, used as a label.
+ * @param formats - The formats to write.
+ */
+export function writeReportFormats(report: ProfileReport, jsonPath: string, contractName: string, formats: ExportFormat[]) {
+  for (const format of formats) {
+    fs.writeFileSync(exportPath(jsonPath, format), EXPORTERS[format].serialize(report, contractName));
+  }
+}
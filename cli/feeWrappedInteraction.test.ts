@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import type { FeePaymentMethod } from '@aztec/aztec.js/fee';
+
+import { FeeWrappedInteraction, namedMethod, type FeeGasSettings } from './feeWrappedInteraction.js';
+import { FakeInteraction, optionsOf, profileOptions, sendOptions, simulateOptions } from './testing.js';
+
+const PAYMENT_METHOD = { name: 'sponsored' } as unknown as FeePaymentMethod;
+const OTHER_PAYMENT_METHOD = { name: 'private fpc' } as unknown as FeePaymentMethod;
+const GAS_SETTINGS = { maxFeesPerGas: { feePerDaGas: 1n, feePerL2Gas: 2n } } as unknown as FeeGasSettings;
+const ALICE = AztecAddress.fromBigInt(1n);
+
+/**
+ * Wraps a fake interaction.
+ * @param paymentMethod - The payment method injected by the wrapper.
+ * @param gasSettings - The gas settings injected by the wrapper.
+ * @returns The wrapper and the fake, whose calls show the options it received.
+ */
+function wrap(paymentMethod?: FeePaymentMethod, gasSettings?: FeeGasSettings) {
+  const inner = new FakeInteraction({ name: 'transfer' });
+  return { wrapped: new FeeWrappedInteraction(inner.asInteraction(), paymentMethod, gasSettings), inner };
+}
+
+describe('FeeWrappedInteraction', () => {
+  it('injects the payment method and gas settings into profile and send', async () => {
+    const { wrapped, inner } = wrap(PAYMENT_METHOD, GAS_SETTINGS);
+
+    await wrapped.profile(profileOptions({ fee: { estimatedGasPadding: 0 } }));
+    await wrapped.send(sendOptions());
+
+    for (const { fee } of [optionsOf(inner.calls, 'profile'), optionsOf(inner.calls, 'send')]) {
+      assert.equal(fee?.paymentMethod, PAYMENT_METHOD);
+      assert.equal(fee?.gasSettings, GAS_SETTINGS);
+    }
+    const profiled = optionsOf(inner.calls, 'profile');
+    assert.equal(profiled.profileMode, 'full');
+    assert.equal(profiled.fee?.estimatedGasPadding, 0);
+  });
+
+  it('only injects the payment method into request', async () => {
+    const { wrapped, inner } = wrap(PAYMENT_METHOD, GAS_SETTINGS);
+
+    await wrapped.request();
+
+    assert.deepEqual(inner.calls[0].options, { fee: { paymentMethod: PAYMENT_METHOD } });
+  });
+
+  it('prefers the payment method passed by the caller', async () => {
+    const { wrapped, inner } = wrap(PAYMENT_METHOD);
+
+    await wrapped.request({ fee: { paymentMethod: OTHER_PAYMENT_METHOD } });
+    await wrapped.send(sendOptions({ fee: { paymentMethod: OTHER_PAYMENT_METHOD } }));
+
+    assert.equal(optionsOf(inner.calls, 'request')?.fee?.paymentMethod, OTHER_PAYMENT_METHOD);
+    assert.equal(optionsOf(inner.calls, 'send').fee?.paymentMethod, OTHER_PAYMENT_METHOD);
+  });
+
+  it('replaces gas estimation with metadata in simulate', async () => {
+    const { wrapped, inner } = wrap(PAYMENT_METHOD, GAS_SETTINGS);
+
+    await wrapped.simulate(simulateOptions({ from: ALICE, fee: { estimateGas: true, estimatedGasPadding: 0 } }));
+
+    const options = optionsOf(inner.calls, 'simulate');
+    assert.equal(options.from, ALICE);
+    assert.equal(options.includeMetadata, true);
+    assert.equal('estimateGas' in options.fee!, false);
+    assert.equal(options.fee?.estimatedGasPadding, 0);
+    assert.equal(options.fee?.paymentMethod, PAYMENT_METHOD);
+    assert.equal(options.fee?.gasSettings, GAS_SETTINGS);
+  });
+
+  it('passes options through unchanged without a payment method', async () => {
+    const { wrapped, inner } = wrap();
+    const simulated = simulateOptions({ from: ALICE, fee: { estimateGas: true } });
+
+    await wrapped.request();
+    await wrapped.simulate(simulated);
+    await wrapped.send(sendOptions({ from: ALICE }));
+
+    assert.deepEqual(inner.calls[0].options, {});
+    assert.equal(inner.calls[1].options, simulated);
+    assert.deepEqual(inner.calls[2].options, { from: ALICE });
+  });
+});
+
+describe('namedMethod', () => {
+  it('creates a named entry sending the wrapped interaction from the caller', async () => {
+    const inner = new FakeInteraction({ name: 'transfer' });
+    const entry = namedMethod('transfer (sponsored)', ALICE, inner.asInteraction(), { paymentMethod: PAYMENT_METHOD });
+
+    assert.equal(entry.name, 'transfer (sponsored)');
+    assert.ok(!(typeof entry.interaction === 'function') && 'action' in entry.interaction);
+    assert.equal(entry.interaction.caller, ALICE);
+    await entry.interaction.action.send(sendOptions({ from: ALICE }));
+    assert.equal(optionsOf(inner.calls, 'send').fee?.paymentMethod, PAYMENT_METHOD);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Selection of benchmark entries by name and tags (`--filter`, `--tag`, `--exclude-tag`).
+ *
+ * Compiled to CommonJS like `comparison.cts`, which uses it to describe filtered reports.
+ */
+import type { BenchmarkFilter } from './types.js';
+
+/**
+ * Parses a name pattern into a regular expression.
+ * A pattern wrapped in slashes (e.g. `/^transfer_(private|public)$/i`) is a regular expression;
+ * anything else is a glob matching the whole name, where `*` matches any characters and `?` one character.
+ * @param pattern - The raw pattern.
+ * @returns The regular expression.
+ * @throws If the pattern is an invalid regular expression.
+ */
+export function parseNamePattern(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/s);
+  if (regex) return new RegExp(regex[1], regex[2]);
+
+  const source = pattern
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[\\^$.|+()[\]{}]/, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Whether a filter selects anything less than every entry.
+ * @param filter - The filter.
+ * @returns True if a pattern, tags or excluded tags are set.
+ */
+export function isFilterActive(filter: BenchmarkFilter): boolean {
+  return filter.pattern !== undefined || (filter.tags?.length ?? 0) > 0 || (filter.excludeTags?.length ?? 0) > 0;
+}
+
+/**
+ * Checks whether a benchmark entry is selected by a filter.
+ * An entry must match the pattern, carry at least one of `tags` and none of `excludeTags`.
+ * @param name - Name of the entry.
+ * @param tags - Tags of the entry.
+ * @param filter - The filter.
+ * @returns True if the entry should be benchmarked.
+ */
+export function matchesFilter(name: string, tags: readonly string[], filter: BenchmarkFilter): boolean {
+  if (filter.pattern !== undefined && !parseNamePattern(filter.pattern).test(name)) return false;
+  if (filter.tags?.length && !filter.tags.some(tag => tags.includes(tag))) return false;
+  if (filter.excludeTags?.some(tag => tags.includes(tag))) return false;
+  return true;
+}
+
+/**
+ * Describes a filter for logs and warnings.
+ * @param filter - The filter.
+ * @returns E.g. `--filter "transfer*" --tag slow`.
+ */
+export function describeFilter(filter: BenchmarkFilter): string {
+  return [
+    ...(filter.pattern !== undefined ? [`--filter ${JSON.stringify(filter.pattern)}`] : []),
+    ...(filter.tags?.length ? [`--tag ${filter.tags.join(',')}`] : []),
+    ...(filter.excludeTags?.length ? [`--exclude-tag ${filter.excludeTags.join(',')}`] : []),
+  ].join(' ');
+}
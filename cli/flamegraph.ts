@@ -0,0 +1,186 @@
+import { getFailure } from './comparison.cjs';
+import type { ReportSetEntry } from './htmlReport.js';
+import type { GateCount } from './types.js';
+
+/** Output formats supported by the `flamegraph` command */
+export type FlamegraphFormat = 'collapsed' | 'speedscope';
+
+/** What the width of a frame represents: gate counts, or witness generation time in microseconds */
+export type FlamegraphWeight = 'gates' | 'witgen';
+
+/** Options of the `flamegraph` command */
+export interface FlamegraphOptions {
+  format: FlamegraphFormat;
+  weight: FlamegraphWeight;
+  /** Only include these functions. */
+  functions?: string[];
+}
+
+/** A circuit of a function, placed under the frames that lead to it */
+export interface CircuitStack {
+  /** Frames from the function down to the circuit, e.g. `['transfer', 'Token:transfer', 'private_kernel_inner']`. */
+  frames: string[];
+  weight: number;
+}
+
+/** The circuit stacks of one profiled function */
+export interface FunctionStacks {
+  contractName: string;
+  /** Name of the benchmarked function. */
+  functionName: string;
+  /** The stacks, in execution order. Circuits that weigh nothing are left out. */
+  stacks: CircuitStack[];
+}
+
+/** Kernel circuits that finish the whole transaction rather than process the preceding app circuit */
+const TRANSACTION_KERNEL_PATTERN = /^private_kernel_(reset|tail)|^hiding_kernel/;
+
+/** Speedscope's file format schema, referenced by exported files */
+const SPEEDSCOPE_SCHEMA = 'https://www.speedscope.app/file-format-schema.json';
+
+/**
+ * Whether a circuit is the private function of a contract rather than a protocol kernel circuit.
+ * @param circuitName - Name of the circuit, e.g. `Token:transfer` or `private_kernel_inner`.
+ * @returns True for app circuits, which are named `<contract>:<function>`.
+ */
+function isAppCircuit(circuitName: string): boolean {
+  return circuitName.includes(':');
+}
+
+/**
+ * Reads the weight of a circuit.
+ * @param circuit - The circuit.
+ * @param weight - The weight to read.
+ * @returns The gate count, or the witness generation time in whole microseconds (0 if not measured).
+ */
+function circuitWeight(circuit: GateCount, weight: FlamegraphWeight): number {
+  return weight === 'gates' ? circuit.gateCount : Math.round((circuit.witgenMs ?? 0) * 1000);
+}
+
+/**
+ * Places the circuits of a function, in execution order, into stacks.
+ * App circuits sit under the function. Each kernel circuit sits under the app circuit it follows, the one it
+ * processes; the reset, tail and hiding kernels that finish the whole transaction sit directly under the function.
+ * @param functionName - Name of the benchmarked function, the root frame.
+ * @param gateCounts - The circuits of the function, in execution order.
+ * @param weight - The weight of each circuit.
+ * @returns One stack per circuit that weighs something.
+ */
+export function buildCircuitStacks(functionName: string, gateCounts: GateCount[], weight: FlamegraphWeight): CircuitStack[] {
+  let app: string | undefined;
+  const stacks: CircuitStack[] = [];
+  for (const circuit of gateCounts) {
+    let frames: string[];
+    if (isAppCircuit(circuit.circuitName)) {
+      app = circuit.circuitName;
+      frames = [functionName, app];
+    } else if (app === undefined || TRANSACTION_KERNEL_PATTERN.test(circuit.circuitName)) {
+      frames = [functionName, circuit.circuitName];
+    } else {
+      frames = [functionName, app, circuit.circuitName];
+    }
+    const value = circuitWeight(circuit, weight);
+    if (value > 0) stacks.push({ frames, weight: value });
+  }
+  return stacks;
+}
+
+/**
+ * Builds the circuit stacks of every successful function of the reports.
+ * @param entries - The reports; only the head report of each entry is used.
+ * @param options - The weight and the functions to include.
+ * @returns The functions that have at least one weighted circuit, in report order.
+ */
+export function buildFlamegraphStacks(entries: ReportSetEntry[], options: Pick<FlamegraphOptions, 'weight' | 'functions'>): FunctionStacks[] {
+  return entries.flatMap(entry =>
+    entry.head.results
+      .filter(result => !getFailure(result) && (!options.functions || options.functions.includes(result.name)))
+      .map(result => ({
+        contractName: entry.contractName,
+        functionName: result.name,
+        stacks: buildCircuitStacks(result.name, result.gateCounts, options.weight),
+      }))
+      .filter(fn => fn.stacks.length > 0),
+  );
+}
+
+/**
+ * Makes a name usable as a frame of a collapsed stack, where `;` separates frames and a line ends the stack.
+ * @param name - The raw name.
+ * @returns The name with separators replaced.
+ */
+function collapsedFrame(name: string): string {
+  return name.replace(/;/g, ',').replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Renders stacks in the collapsed format read by flamegraph.pl, inferno and speedscope:
+ * one `contract;function;circuit... weight` line per circuit, rooted at the contract.
+ * @param functions - The stacks of each function.
+ * @returns The collapsed stacks.
+ */
+export function renderCollapsed(functions: FunctionStacks[]): string {
+  const lines = functions.flatMap(fn =>
+    fn.stacks.map(stack => `${[fn.contractName, ...stack.frames].map(collapsedFrame).join(';')} ${stack.weight}`),
+  );
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders stacks as a speedscope file with one sampled profile per function, named `<contract>/<function>`.
+ * @param functions - The stacks of each function.
+ * @param weight - The weight of the stacks, which sets the unit of the profiles.
+ * @param name - Name of the file, shown by speedscope.
+ * @returns The speedscope JSON.
+ */
+export function renderSpeedscope(functions: FunctionStacks[], weight: FlamegraphWeight, name: string): string {
+  const frames: Array<{ name: string }> = [];
+  const frameIndex = new Map<string, number>();
+  const indexOf = (frame: string) => {
+    if (!frameIndex.has(frame)) {
+      frameIndex.set(frame, frames.length);
+      frames.push({ name: frame });
+    }
+    return frameIndex.get(frame)!;
+  };
+
+  const profiles = functions.map(fn => ({
+    type: 'sampled',
+    name: `${fn.contractName}/${fn.functionName}`,
+    unit: weight === 'gates' ? 'none' : 'microseconds',
+    startValue: 0,
+    endValue: fn.stacks.reduce((acc, stack) => acc + stack.weight, 0),
+    samples: fn.stacks.map(stack => stack.frames.map(indexOf)),
+    weights: fn.stacks.map(stack => stack.weight),
+  }));
+
+  return JSON.stringify(
+    {
+      $schema: SPEEDSCOPE_SCHEMA,
+      name,
+      exporter: 'aztec-benchmark',
+      activeProfileIndex: 0,
+      shared: { frames },
+      profiles,
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Renders the circuits of the reports as a flamegraph input.
+ * @param entries - The reports.
+ * @param options - The format, the weight and the functions to include.
+ * @returns The rendered output.
+ * @throws If no function has a weighted circuit, e.g. witgen weights of reports without witness generation times.
+ */
+export function renderFlamegraph(entries: ReportSetEntry[], options: FlamegraphOptions): string {
+  const functions = buildFlamegraphStacks(entries, options);
+  if (functions.length === 0) {
+    throw new Error(`No successful function has ${options.weight === 'gates' ? 'gate counts' : 'witness generation times'}.`);
+  }
+  if (options.format === 'collapsed') return renderCollapsed(functions);
+  const name = `${entries.map(entry => entry.contractName).join(', ')} (${options.weight === 'gates' ? 'gates' : 'witgen µs'})`;
+  return renderSpeedscope(functions, options.weight, name);
+}
@@ -0,0 +1,355 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { getDaGas, getFailure, getL2Gas, getProvingTime } from './comparison.cjs';
+import { upgradeReport } from './reportSchema.cjs';
+import { median } from './stats.js';
+import type { ProfileReport } from './types.js';
+
+/** One contract's report in the history store, one JSON line per entry */
+export interface HistoryEntry {
+  /** Name of the contract. */
+  contractName: string;
+  /** ISO 8601 time at which the entry was appended. */
+  recordedAt: string;
+  /** Commit the run was made on. */
+  commit?: string;
+  /** Whether the checkout had uncommitted changes. */
+  dirty?: boolean;
+  /** Branch the run was made on. */
+  branch?: string;
+  /** The full report of the run. */
+  report: ProfileReport;
+}
+
+/** Metrics tracked over time */
+export type HistoryMetric = 'gates' | 'daGas' | 'l2Gas' | 'provingTime';
+
+/** Output formats supported by the `history` command */
+export type HistoryFormat = 'terminal' | 'markdown' | 'json';
+
+/** A function's metrics in one run */
+export interface HistoryPoint {
+  /** Commit of the run, if known. */
+  commit?: string;
+  /** Whether the run had uncommitted changes. */
+  dirty?: boolean;
+  /** Time the run was recorded. */
+  recordedAt: string;
+  gates: number;
+  daGas: number;
+  l2Gas: number;
+  /** Proving time in milliseconds, 0 if proving was skipped. */
+  provingTime: number;
+}
+
+/** A lasting change of a metric between two runs */
+export interface StepChange {
+  metric: HistoryMetric;
+  /** Median of the runs since the previous step change, up to the detection window. */
+  before: number;
+  /** Value in the run where the change happened. */
+  after: number;
+  /** Relative change in percent, null when the previous value is 0. */
+  pct: number | null;
+  /** Commit of the run where the change happened. */
+  commit?: string;
+  /** Time the run where the change happened was recorded. */
+  recordedAt: string;
+}
+
+/** The history of a single function */
+export interface FunctionTrend {
+  name: string;
+  /** Successful runs of the function, oldest first. */
+  points: HistoryPoint[];
+  /** Detected step changes, oldest first. */
+  stepChanges: StepChange[];
+}
+
+/** The history of a single contract */
+export interface ContractTrend {
+  contractName: string;
+  /** Number of runs considered. */
+  runs: number;
+  functions: FunctionTrend[];
+}
+
+/** Options of the `history` command */
+export interface TrendOptions {
+  /** Only include these contracts. */
+  contracts?: string[];
+  /** Only include these functions. */
+  functions?: string[];
+  /** Number of most recent runs per contract to consider. */
+  last: number;
+  /** Relative change in percent above which a change is reported as a step. */
+  threshold: number;
+  /** Number of preceding runs whose median a run is compared to. */
+  window: number;
+}
+
+/** Column labels of each metric */
+const METRIC_LABELS: Record<HistoryMetric, string> = {
+  gates: 'Gates',
+  daGas: 'DA gas',
+  l2Gas: 'L2 gas',
+  provingTime: 'Proving ms',
+};
+
+const METRICS = Object.keys(METRIC_LABELS) as HistoryMetric[];
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+/**
+ * Builds the history entry of a contract's report, taking the commit from its provenance.
+ * @param contractName - Name of the contract.
+ * @param report - The report of the run.
+ * @param branch - Branch the run was made on, if known.
+ * @returns The entry to append.
+ */
+export function toHistoryEntry(contractName: string, report: ProfileReport, branch?: string): HistoryEntry {
+  return {
+    contractName,
+    recordedAt: new Date().toISOString(),
+    ...(report.provenance?.gitCommit && { commit: report.provenance.gitCommit }),
+    ...(report.provenance?.gitDirty !== undefined && { dirty: report.provenance.gitDirty }),
+    ...(branch && { branch }),
+    report,
+  };
+}
+
+/**
+ * Appends entries to a JSONL history file, creating it and its directory if needed.
+ * @param historyPath - Path of the history file.
+ * @param entries - The entries to append.
+ */
+export function appendHistory(historyPath: string, entries: HistoryEntry[]) {
+  if (entries.length === 0) return;
+  fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+  fs.appendFileSync(historyPath, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+}
+
+/**
+ * Reads a JSONL history file. Reports from older versions are upgraded; malformed lines are skipped with a warning.
+ * @param historyPath - Path of the history file.
+ * @returns The entries in the order they were appended.
+ * @throws If the file cannot be read.
+ */
+export function readHistory(historyPath: string): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  const lines = fs.readFileSync(historyPath, 'utf-8').split('\n');
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      const entry = JSON.parse(line);
+      if (typeof entry.contractName !== 'string') throw new Error('missing contractName');
+      entries.push({ ...entry, report: upgradeReport(entry.report) });
+    } catch (error: any) {
+      console.warn(`Skipping line ${index + 1} of ${historyPath}: ${error.message}`);
+    }
+  });
+  return entries;
+}
+
+/**
+ * Finds runs where a metric moved away from the preceding runs by more than the threshold.
+ * Each run is compared to the median of up to `window` preceding runs since the last step change,
+ * so a lasting change is reported once and isolated noise in proving times is smoothed out.
+ * Runs without proving time (--skip-proving) are ignored for that metric.
+ * @param points - The function's runs, oldest first.
+ * @param threshold - Relative change in percent above which a change is reported.
+ * @param window - Number of preceding runs to compare to.
+ * @returns The step changes, oldest first.
+ */
+export function detectStepChanges(points: HistoryPoint[], threshold: number, window: number): StepChange[] {
+  const changes: StepChange[] = [];
+  for (const metric of METRICS) {
+    const measured = points.filter(p => metric !== 'provingTime' || p.provingTime > 0);
+    let segmentStart = 0;
+    for (let i = 1; i < measured.length; i++) {
+      const before = median(measured.slice(Math.max(segmentStart, i - window), i).map(p => p[metric]));
+      const after = measured[i][metric];
+      if (before === after) continue;
+
+      const pct = before === 0 ? null : ((after - before) / before) * 100;
+      if (pct === null || Math.abs(pct) > threshold) {
+        changes.push({ metric, before, after, pct, commit: measured[i].commit, recordedAt: measured[i].recordedAt });
+        segmentStart = i;
+      }
+    }
+  }
+  return changes.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
+
+/**
+ * Builds per-function trends from the history.
+ * @param entries - The history entries in the order they were appended.
+ * @param options - Filters, run count and step detection settings.
+ * @returns One trend per contract, sorted by contract name.
+ */
+export function buildTrends(entries: HistoryEntry[], options: TrendOptions): ContractTrend[] {
+  const byContract = new Map<string, HistoryEntry[]>();
+  for (const entry of entries) {
+    if (options.contracts?.length && !options.contracts.includes(entry.contractName)) continue;
+    byContract.set(entry.contractName, [...(byContract.get(entry.contractName) ?? []), entry]);
+  }
+
+  return [...byContract.keys()].sort().map(contractName => {
+    const runs = byContract.get(contractName)!.slice(-options.last);
+    const names = [...new Set(runs.flatMap(run => run.report.results.map(r => r.name)))]
+      .filter(name => !options.functions?.length || options.functions.includes(name))
+      .sort();
+
+    const functions = names.map(name => {
+      const points: HistoryPoint[] = [];
+      for (const run of runs) {
+        const result = run.report.results.find(r => r.name === name);
+        if (!result || getFailure(result)) continue;
+        points.push({
+          commit: run.commit,
+          dirty: run.dirty,
+          recordedAt: run.recordedAt,
+          gates: result.totalGateCount,
+          daGas: getDaGas(result),
+          l2Gas: getL2Gas(result),
+          provingTime: Math.round(getProvingTime(result)),
+        });
+      }
+      return { name, points, stepChanges: detectStepChanges(points, options.threshold, options.window) };
+    });
+
+    return { contractName, runs: runs.length, functions };
+  });
+}
+
+/**
+ * Draws a sparkline of a series of values.
+ * @param values - The values, oldest first.
+ * @returns One block character per value, scaled between the series minimum and maximum.
+ */
+function sparkline(values: number[]): string {
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  return values
+    .map(v => SPARK_CHARS[range === 0 ? 0 : Math.round(((v - min) / range) * (SPARK_CHARS.length - 1))])
+    .join('');
+}
+
+/**
+ * Formats the latest value and the trend of a metric.
+ * @param fn - The function trend.
+ * @param metric - The metric to show.
+ * @returns The latest value followed by a sparkline, or N/A if the metric was never measured.
+ */
+function trendCell(fn: FunctionTrend, metric: HistoryMetric): string {
+  const values = fn.points.map(p => p[metric]).filter(v => metric !== 'provingTime' || v > 0);
+  if (values.length === 0) return 'N/A';
+  return `${values[values.length - 1].toLocaleString()} ${sparkline(values)}`;
+}
+
+/**
+ * Formats a commit for display.
+ * @param commit - The full commit hash, if known.
+ * @param dirty - Whether the run had uncommitted changes.
+ * @returns The short hash, suffixed with `*` for dirty checkouts.
+ */
+function shortCommit(commit?: string, dirty?: boolean): string {
+  return `${commit ? commit.slice(0, 7) : 'unknown commit'}${dirty ? '*' : ''}`;
+}
+
+/**
+ * Describes a step change.
+ * @param fn - The function the change belongs to.
+ * @param change - The step change.
+ * @returns A one-line description including the commit where it happened.
+ */
+function describeStepChange(fn: FunctionTrend, change: StepChange): string {
+  const sign = change.after > change.before ? '+' : '';
+  const pct = change.pct === null ? '+Inf%' : `${sign}${change.pct.toFixed(1)}%`;
+  const point = fn.points.find(p => p.recordedAt === change.recordedAt);
+  return `${fn.name}: ${METRIC_LABELS[change.metric]} ${change.before.toLocaleString()} → ${change.after.toLocaleString()} (${pct}) ` +
+    `at ${shortCommit(change.commit, point?.dirty)} (${change.recordedAt.slice(0, 10)})`;
+}
+
+/**
+ * Renders the trends as GitHub-flavoured markdown tables.
+ * @param trends - The contract trends.
+ * @returns The markdown document.
+ */
+export function renderHistoryMarkdown(trends: ContractTrend[]): string {
+  const lines = ['# Benchmark History', ''];
+  for (const contract of trends) {
+    lines.push(`## Contract: ${contract.contractName}`, '', `*Last ${contract.runs} run(s)*`, '');
+    if (contract.functions.length === 0) {
+      lines.push('*No functions found in the history.*', '');
+      continue;
+    }
+    lines.push(
+      `| Function | ${METRICS.map(m => METRIC_LABELS[m]).join(' | ')} |`,
+      `|---|${METRICS.map(() => '---:').join('|')}|`,
+    );
+    for (const fn of contract.functions) {
+      lines.push(`| \`${fn.name}\` | ${METRICS.map(m => trendCell(fn, m)).join(' | ')} |`);
+    }
+    lines.push('');
+    const steps = contract.functions.flatMap(fn => fn.stepChanges.map(change => describeStepChange(fn, change)));
+    if (steps.length > 0) {
+      lines.push('**Step changes**', '', ...steps.map(step => `- ${step}`), '');
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders the trends as aligned terminal tables.
+ * @param trends - The contract trends.
+ * @param color - Whether to emit ANSI colour codes.
+ * @returns The terminal output.
+ */
+export function renderHistoryTerminal(trends: ContractTrend[], color: boolean): string {
+  const paint = (text: string, code: string) => (color ? `${code}${text}\x1b[0m` : text);
+  const lines: string[] = [];
+
+  for (const contract of trends) {
+    lines.push(paint(`Contract: ${contract.contractName} (last ${contract.runs} run(s))`, '\x1b[1m'));
+    if (contract.functions.length === 0) {
+      lines.push('  No functions found in the history.', '');
+      continue;
+    }
+
+    const header = ['Function', ...METRICS.map(m => METRIC_LABELS[m])];
+    const rows = contract.functions.map(fn => [fn.name, ...METRICS.map(m => trendCell(fn, m))]);
+    const widths = header.map((h, col) => Math.max(h.length, ...rows.map(r => r[col].length)));
+    const pad = (cell: string, col: number) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]));
+
+    lines.push('  ' + header.map(pad).join('  '));
+    lines.push('  ' + widths.map(w => '-'.repeat(w)).join('  '));
+    for (const row of rows) lines.push('  ' + row.map(pad).join('  '));
+
+    const steps = contract.functions.flatMap(fn =>
+      fn.stepChanges.map(change => paint(describeStepChange(fn, change), change.after > change.before ? '\x1b[31m' : '\x1b[32m')),
+    );
+    if (steps.length > 0) {
+      lines.push('', '  Step changes:', ...steps.map(step => `    ${step}`));
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders the trends in the requested format.
+ * @param trends - The contract trends.
+ * @param options - The output format and colour setting.
+ * @returns The rendered output.
+ */
+export function renderHistory(trends: ContractTrend[], options: { format: HistoryFormat; color: boolean }): string {
+  switch (options.format) {
+    case 'json':
+      return JSON.stringify({ contracts: trends }, null, 2);
+    case 'markdown':
+      return renderHistoryMarkdown(trends);
+    case 'terminal':
+      return renderHistoryTerminal(trends, options.color);
+  }
+}
@@ -0,0 +1,411 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { contractNameFromFile, listReports } from './compare.js';
+import {
+  compareResults,
+  compareSweeps,
+  diffSideEffects,
+  formatBatchOverhead,
+  formatDiff,
+  formatSideEffectChanges,
+  formatSweepComparison,
+  getExcludedNames,
+  getFailure,
+  getProvenanceWarnings,
+  getStatus,
+  readReport,
+  STATUS_EMOJI,
+  type FunctionComparison,
+} from './comparison.cjs';
+import { readHistory } from './history.js';
+import type { ProfileReport } from './types.js';
+
+/** A contract's head report and the base report it is compared to */
+export interface ReportSetEntry {
+  contractName: string;
+  /** The report being presented. */
+  head: ProfileReport;
+  /** The report deltas are computed against, if any. */
+  base?: ProfileReport;
+  /** Where the head report was read from. */
+  source: string;
+}
+
+/** Options of the `report` command */
+export interface HtmlReportOptions {
+  /** Base report file or directory to compute deltas against. */
+  base?: string;
+  /** Suffix of head report filenames in directories. */
+  suffix: string;
+  /** Suffix of base report filenames in the base directory. */
+  baseSuffix: string;
+  /** Regression threshold percentage. */
+  threshold: number;
+  /** Regression threshold percentage of peak memory. */
+  memoryThreshold: number;
+  /** Title of the page. */
+  title: string;
+}
+
+/** Colours of per-circuit segments, picked by hashing the circuit name */
+const CIRCUIT_COLORS = [
+  '#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948',
+  '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac', '#86bcb6', '#d37295',
+];
+
+const CHART_WIDTH = 720;
+const LABEL_WIDTH = 220;
+const BAR_HEIGHT = 18;
+const BAR_GAP = 6;
+
+/**
+ * Escapes text for use in HTML content and attributes.
+ * @param text - The raw text.
+ * @returns The escaped text.
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Picks a stable colour for a circuit.
+ * @param circuitName - Name of the circuit.
+ * @returns A colour from the palette.
+ */
+function circuitColor(circuitName: string): string {
+  let hash = 0;
+  for (const char of circuitName) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return CIRCUIT_COLORS[hash % CIRCUIT_COLORS.length];
+}
+
+/**
+ * Collects the reports to present from files, directories of reports and JSONL history files.
+ * For a history file, the latest run of each contract is presented and compared to the run before it.
+ * Reports found under `base` (a file or a directory) are matched to head reports by contract name
+ * and take precedence over history.
+ * @param inputs - Report files, directories of reports or history files.
+ * @param options - Filename suffixes and the base path.
+ * @returns The reports to present, sorted by contract name.
+ * @throws If an input does not exist or a report cannot be read.
+ */
+export function loadReportSet(inputs: string[], options: Pick<HtmlReportOptions, 'base' | 'suffix' | 'baseSuffix'>): ReportSetEntry[] {
+  const entries = new Map<string, ReportSetEntry>();
+
+  for (const input of inputs) {
+    if (!fs.existsSync(input)) throw new Error(`Path not found: ${input}`);
+    if (fs.statSync(input).isDirectory()) {
+      for (const [contractName, reportPath] of listReports(input, options.suffix)) {
+        entries.set(contractName, { contractName, head: readReport(reportPath), source: reportPath });
+      }
+    } else if (input.endsWith('.jsonl')) {
+      const runsByContract = new Map<string, ProfileReport[]>();
+      for (const entry of readHistory(input)) {
+        runsByContract.set(entry.contractName, [...(runsByContract.get(entry.contractName) ?? []), entry.report]);
+      }
+      for (const [contractName, runs] of runsByContract) {
+        entries.set(contractName, { contractName, head: runs[runs.length - 1], base: runs[runs.length - 2], source: input });
+      }
+    } else {
+      const contractName = contractNameFromFile(input, options.suffix);
+      entries.set(contractName, { contractName, head: readReport(input), source: input });
+    }
+  }
+
+  if (options.base) {
+    if (!fs.existsSync(options.base)) throw new Error(`Path not found: ${options.base}`);
+    if (fs.statSync(options.base).isDirectory()) {
+      for (const [contractName, reportPath] of listReports(options.base, options.baseSuffix)) {
+        const entry = entries.get(contractName);
+        if (entry) entry.base = readReport(reportPath);
+      }
+    } else if (entries.size === 1) {
+      [...entries.values()][0].base = readReport(options.base);
+    } else {
+      throw new Error('A single base report can only be used with a single head report; pass a directory instead.');
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => a.contractName.localeCompare(b.contractName));
+}
+
+/**
+ * Renders a table cell that sorts by a numeric value.
+ * @param value - The value used for sorting.
+ * @param text - The displayed text.
+ * @param className - Optional CSS class.
+ * @returns The cell HTML.
+ */
+function numericCell(value: number, text: string, className = ''): string {
+  return `<td class="num ${className}" data-value="${value}">${escapeHtml(text)}</td>`;
+}
+
+/**
+ * Renders the cells of a metric: the head value and, with a base report, the delta.
+ * @param pair - Base and head values.
+ * @param hasBase - Whether a base report exists.
+ * @returns The cells HTML.
+ */
+function metricCells(pair: { main: number; pr: number }, hasBase: boolean): string {
+  const cells = [numericCell(pair.pr, pair.pr.toLocaleString())];
+  if (hasBase) {
+    const diff = pair.pr - pair.main;
+    cells.push(numericCell(diff, formatDiff(pair.main, pair.pr), diff > 0 ? 'worse' : diff < 0 ? 'better' : ''));
+  }
+  return cells.join('');
+}
+
+/**
+ * Renders the sortable table of a contract's functions.
+ * @param comparison - The per-function comparison.
+ * @param names - Function names in display order.
+ * @param hasBase - Whether a base report exists.
+ * @param threshold - Regression threshold percentage.
+ * @param memoryThreshold - Regression threshold percentage of peak memory.
+ * @returns The table HTML.
+ */
+function renderFunctionTable(
+  comparison: Record<string, FunctionComparison>,
+  names: string[],
+  hasBase: boolean,
+  threshold: number,
+  memoryThreshold: number,
+): string {
+  const metricHeaders = ['Gates', 'DA gas', 'L2 gas', 'Teardown DA gas', 'Teardown L2 gas', 'Fee', 'Proving ms', 'Peak MiB']
+    .map(h => (hasBase ? `<th>${h}</th><th>Δ ${h}</th>` : `<th>${h}</th>`))
+    .join('');
+  const rows = names.map(name => {
+    const metrics = comparison[name];
+    const status = hasBase ? getStatus(metrics, threshold, memoryThreshold) : metrics.failure?.pr ? 'failed' : undefined;
+    const statusCell = status ? `<td data-value="${status}">${STATUS_EMOJI[status]} ${status}</td>` : '';
+    const failure = metrics.failure?.pr;
+    if (failure) {
+      const reason = `${failure.timedOut ? 'Timed out' : 'Failed'} during ${failure.phase}: ${failure.message.split('\n')[0]}`;
+      return `<tr>${statusCell || '<td></td>'}<td><code>${escapeHtml(name)}</code></td>` +
+        `<td colspan="${hasBase ? 16 : 8}"><em>${escapeHtml(reason)}</em></td></tr>`;
+    }
+    const provingTime = { main: Math.round(metrics.provingTime.main), pr: Math.round(metrics.provingTime.pr) };
+    const sideEffects = formatSideEffectChanges(diffSideEffects(metrics.sideEffects));
+    const sideEffectsNote = sideEffects ? `<br><small>Side effects: ${escapeHtml(sideEffects)}</small>` : '';
+    const batch = formatBatchOverhead(metrics.batch);
+    const batchNote = batch ? `<br><small>Batch: ${escapeHtml(batch)}</small>` : '';
+    return `<tr>${statusCell || '<td></td>'}<td><code>${escapeHtml(name)}</code>${sideEffectsNote}${batchNote}</td>` +
+      [metrics.gates, metrics.daGas, metrics.l2Gas, metrics.teardownDaGas, metrics.teardownL2Gas, metrics.fee, provingTime, metrics.peakMemory]
+        .map(pair => metricCells(pair, hasBase))
+        .join('') +
+      '</tr>';
+  });
+  return `<table class="sortable"><thead><tr><th>Status</th><th>Function</th>${metricHeaders}</tr></thead>` +
+    `<tbody>${rows.join('')}</tbody></table>`;
+}
+
+/**
+ * Renders a horizontal bar chart of total gates per function, with the base value as a marker.
+ * @param comparison - The per-function comparison.
+ * @param names - Function names in display order.
+ * @param hasBase - Whether a base report exists.
+ * @returns The SVG HTML, or an empty string if there are no successful functions.
+ */
+function renderGatesChart(comparison: Record<string, FunctionComparison>, names: string[], hasBase: boolean): string {
+  const measured = names.filter(name => !comparison[name].failure?.pr && comparison[name].gates.pr > 0);
+  if (measured.length === 0) return '';
+  const max = Math.max(...measured.map(name => Math.max(comparison[name].gates.pr, comparison[name].gates.main)));
+  const scale = (CHART_WIDTH - LABEL_WIDTH - 90) / max;
+  const height = measured.length * (BAR_HEIGHT + BAR_GAP);
+
+  const bars = measured.map((name, i) => {
+    const { main, pr } = comparison[name].gates;
+    const y = i * (BAR_HEIGHT + BAR_GAP);
+    const marker = hasBase && main > 0
+      ? `<line x1="${LABEL_WIDTH + main * scale}" x2="${LABEL_WIDTH + main * scale}" y1="${y - 2}" y2="${y + BAR_HEIGHT + 2}" class="base-marker"><title>base: ${main.toLocaleString()}</title></line>`
+      : '';
+    return `<text x="${LABEL_WIDTH - 8}" y="${y + BAR_HEIGHT - 5}" text-anchor="end">${escapeHtml(name)}</text>` +
+      `<rect x="${LABEL_WIDTH}" y="${y}" width="${Math.max(pr * scale, 1)}" height="${BAR_HEIGHT}" class="bar"><title>${escapeHtml(name)}: ${pr.toLocaleString()} gates</title></rect>` +
+      `<text x="${LABEL_WIDTH + pr * scale + 6}" y="${y + BAR_HEIGHT - 5}">${pr.toLocaleString()}</text>` +
+      marker;
+  });
+  return `<svg class="chart" width="${CHART_WIDTH}" height="${height}" viewBox="0 0 ${CHART_WIDTH} ${height}">${bars.join('')}</svg>`;
+}
+
+/**
+ * Renders stacked bars of each function's per-circuit gate counts, with a legend.
+ * @param comparison - The per-function comparison.
+ * @param names - Function names in display order.
+ * @returns The SVG and legend HTML, or an empty string if no function has circuit details.
+ */
+function renderCircuitChart(comparison: Record<string, FunctionComparison>, names: string[]): string {
+  const measured = names.filter(name => !comparison[name].failure?.pr && comparison[name].gateCounts.pr.length > 0);
+  if (measured.length === 0) return '';
+  const totals = measured.map(name => comparison[name].gateCounts.pr.reduce((acc, c) => acc + c.gateCount, 0));
+  const scale = (CHART_WIDTH - LABEL_WIDTH - 20) / Math.max(...totals, 1);
+  const height = measured.length * (BAR_HEIGHT + BAR_GAP);
+  const circuits = new Set<string>();
+
+  const bars = measured.map((name, i) => {
+    const y = i * (BAR_HEIGHT + BAR_GAP);
+    let x = LABEL_WIDTH;
+    const segments = comparison[name].gateCounts.pr.map(circuit => {
+      circuits.add(circuit.circuitName);
+      const width = circuit.gateCount * scale;
+      const segment = `<rect x="${x}" y="${y}" width="${width}" height="${BAR_HEIGHT}" fill="${circuitColor(circuit.circuitName)}">` +
+        `<title>${escapeHtml(circuit.circuitName)}: ${circuit.gateCount.toLocaleString()} gates</title></rect>`;
+      x += width;
+      return segment;
+    });
+    return `<text x="${LABEL_WIDTH - 8}" y="${y + BAR_HEIGHT - 5}" text-anchor="end">${escapeHtml(name)}</text>${segments.join('')}`;
+  });
+
+  const legend = [...circuits].sort().map(circuit =>
+    `<li><span class="swatch" style="background:${circuitColor(circuit)}"></span>${escapeHtml(circuit)}</li>`,
+  );
+  return `<svg class="chart" width="${CHART_WIDTH}" height="${height}" viewBox="0 0 ${CHART_WIDTH} ${height}">${bars.join('')}</svg>` +
+    `<ul class="legend">${legend.join('')}</ul>`;
+}
+
+/**
+ * Renders the section of one contract.
+ * @param entry - The contract's reports.
+ * @param threshold - Regression threshold percentage.
+ * @param memoryThreshold - Regression threshold percentage of peak memory.
+ * @returns The section HTML.
+ */
+function renderContract(entry: ReportSetEntry, threshold: number, memoryThreshold: number): string {
+  const comparison = compareResults(entry.base?.results ?? [], entry.head.results, getExcludedNames(entry.base, entry.head));
+  // Functions that only exist in the base report were removed; they have nothing to chart.
+  const names = Object.keys(comparison)
+    .filter(name => entry.head.results.some(r => r.name === name))
+    .sort();
+  const removed = Object.keys(comparison).filter(name => !names.includes(name)).sort();
+  const hasBase = !!entry.base;
+  const provenance = entry.head.provenance;
+  const warnings = getProvenanceWarnings(entry.base, entry.head);
+  const failedCount = entry.head.results.filter(r => getFailure(r)).length;
+
+  const parts = [
+    `<section id="${escapeHtml(entry.contractName)}">`,
+    `<h2>${escapeHtml(entry.contractName)}</h2>`,
+    `<p class="meta">${entry.head.results.length} function(s)` +
+      (failedCount > 0 ? `, <span class="worse">${failedCount} failed</span>` : '') +
+      (provenance?.gitCommit ? ` · commit <code>${escapeHtml(provenance.gitCommit.slice(0, 7))}</code>` : '') +
+      (provenance?.aztecVersion ? ` · Aztec ${escapeHtml(provenance.aztecVersion)}` : '') +
+      (hasBase ? ' · compared to base' : '') +
+      `</p>`,
+    ...warnings.map(w => `<p class="warning">⚠️ ${escapeHtml(w)}</p>`),
+  ];
+
+  if (names.length === 0) {
+    parts.push('<p><em>No functions found in the report.</em></p>', '</section>');
+    return parts.join('\n');
+  }
+
+  parts.push(renderFunctionTable(comparison, names, hasBase, threshold, memoryThreshold));
+  if (removed.length > 0) {
+    parts.push(`<p class="meta">Removed since base: ${removed.map(name => `<code>${escapeHtml(name)}</code>`).join(', ')}</p>`);
+  }
+  const sweeps = compareSweeps(entry.base, entry.head);
+  if (sweeps.length > 0) {
+    const items = sweeps.map(sweep => `<li><code>${escapeHtml(sweep.name)}</code> ${escapeHtml(formatSweepComparison(sweep))}</li>`);
+    parts.push('<h3>Parameter sweeps</h3>', `<ul>${items.join('')}</ul>`);
+  }
+
+  const gatesChart = renderGatesChart(comparison, names, hasBase);
+  if (gatesChart) {
+    parts.push(`<h3>Gates per function${hasBase ? ' <small>(line: base)</small>' : ''}</h3>`, gatesChart);
+  }
+  const circuitChart = renderCircuitChart(comparison, names);
+  if (circuitChart) {
+    parts.push('<h3>Per-circuit breakdown</h3>', circuitChart);
+  }
+  parts.push('</section>');
+  return parts.join('\n');
+}
+
+const STYLE = `
+body { font-family: system-ui, -apple-system, sans-serif; margin: 2rem; color: #1f2328; background: #fff; }
+h1 { margin-bottom: 0.25rem; }
+nav ul { display: flex; flex-wrap: wrap; gap: 0.75rem; list-style: none; padding: 0; }
+section { margin-top: 2.5rem; }
+.meta { color: #59636e; }
+.warning { background: #fff8c5; border-left: 4px solid #d4a72c; padding: 0.5rem 0.75rem; }
+table { border-collapse: collapse; font-size: 0.9rem; }
+th, td { border: 1px solid #d1d9e0; padding: 0.3rem 0.6rem; }
+th { background: #f6f8fa; cursor: pointer; user-select: none; white-space: nowrap; }
+th.asc::after { content: ' ▲'; }
+th.desc::after { content: ' ▼'; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.worse { color: #cf222e; }
+.better { color: #1a7f37; }
+.chart { font-size: 12px; display: block; margin: 0.5rem 0; }
+.chart .bar { fill: #4e79a7; }
+.chart .base-marker { stroke: #1f2328; stroke-width: 2; }
+.legend { display: flex; flex-wrap: wrap; gap: 0.4rem 1rem; list-style: none; padding: 0; font-size: 0.8rem; }
+.swatch { display: inline-block; width: 0.8rem; height: 0.8rem; margin-right: 0.3rem; vertical-align: middle; }
+`;
+
+// Sorts a table by the clicked column, using data-value when present so numbers sort numerically.
+const SORT_SCRIPT = `
+document.querySelectorAll('table.sortable th').forEach((th, column) => {
+  th.addEventListener('click', () => {
+    const table = th.closest('table');
+    const tbody = table.tBodies[0];
+    const ascending = !th.classList.contains('asc');
+    table.querySelectorAll('th').forEach(h => h.classList.remove('asc', 'desc'));
+    th.classList.add(ascending ? 'asc' : 'desc');
+    const key = row => {
+      const cell = row.cells[column];
+      if (!cell) return '';
+      const value = cell.dataset.value ?? cell.textContent.trim();
+      const number = Number(value);
+      return value !== '' && !Number.isNaN(number) ? number : value;
+    };
+    const rows = [...tbody.rows].sort((a, b) => {
+      const [x, y] = [key(a), key(b)];
+      const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+      return ascending ? order : -order;
+    });
+    rows.forEach(row => tbody.appendChild(row));
+  });
+});
+`;
+
+/**
+ * Renders a self-contained HTML dashboard: no external scripts, styles or fonts are referenced,
+ * so the file can be opened offline or published as a CI artifact.
+ * @param entries - The reports to present.
+ * @param options - Page title and regression thresholds.
+ * @returns The HTML document.
+ */
+export function renderHtmlReport(entries: ReportSetEntry[], options: Pick<HtmlReportOptions, 'title' | 'threshold' | 'memoryThreshold'>): string {
+  const systemInfo = entries[0]?.head.systemInfo;
+  const system = systemInfo
+    ? `${systemInfo.cpuModel} · ${systemInfo.cpuCores} cores · ${systemInfo.totalMemoryGiB} GiB · ${systemInfo.arch}`
+    : 'N/A';
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(options.title)}</title>`,
+    `<style>${STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(options.title)}</h1>`,
+    `<p class="meta">Generated ${new Date().toISOString()} · ${escapeHtml(system)}</p>`,
+    `<nav><ul>${entries.map(e => `<li><a href="#${escapeHtml(e.contractName)}">${escapeHtml(e.contractName)}</a></li>`).join('')}</ul></nav>`,
+    ...entries.map(entry => renderContract(entry, options.threshold, options.memoryThreshold)),
+    `<script>${SORT_SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+/**
+ * Writes the HTML dashboard, creating the output directory if needed.
+ * @param outputPath - Path of the HTML file.
+ * @param html - The HTML document.
+ */
+export function writeHtmlReport(outputPath: string, html: string) {
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, html);
+}
@@ -1,6 +1,6 @@
 // Export the base class and types for users
 export { BenchmarkBase as Benchmark, BenchmarkContext } from './types.js'; // Alias BenchmarkBase to Benchmark for user convenience
-export type { ProfileReport, ProfileResult, GateCount, SystemInfo, NamedBenchmarkedInteraction } from './types.js';
+export type { ProfileReport, ProfileResult, GateCount, GasUsage, SideEffects, SystemInfo, NamedBenchmarkedInteraction, BenchmarkedIntent, DeploymentIntent, DeploymentOptions, BatchIntent, BatchBreakdown, BatchCallResult, BatchCost, InclusionTimings, SendMode, BenchmarkFilter, ReportFilter, ReportShard, CostModel, SweepPoint, SweepSeries } from './types.js';
 
 // Export system info utilities
 export { getSystemInfo } from './systemInfo.js';
@@ -10,4 +10,44 @@ export { Profiler } from './profiler.js';
 
 // Export fee payment helpers
 export { FeeWrappedInteraction, namedMethod } from './feeWrappedInteraction.js';
-export type { FeeGasSettings, FeeOptions } from './feeWrappedInteraction.js';
\ No newline at end of file
+export type { FeeGasSettings, FeeOptions } from './feeWrappedInteraction.js';
+
+// Export the parameter sweep helper
+export { sweep } from './sweep.js';
+export type { SweepFactory, SweepOptions, SweepRange } from './sweep.js';
+
+// Export the config file helper
+export { defineConfig } from './config.js';
+export type { BenchmarkConfig } from './config.js';
+export type { BenchmarkSettings, ReportConfig } from './types.js';
+
+// Export report format helpers for custom integrations
+export { EXPORTERS, EXPORT_FORMATS, flattenReport } from './exporters.js';
+export type { ExportFormat, Exporter, MetricName, MetricRow } from './exporters.js';
+
+// Export the programmatic runner, its events and the reporters consuming them
+export { runBenchmarks } from './runner.js';
+export type { BenchmarkRunResult, RunBenchmarksOptions } from './runner.js';
+export type { ContractRunSummary } from './runContract.js';
+export { ConsoleReporter, GithubReporter, NdjsonReporter, BUILTIN_REPORTERS } from './reporters.js';
+export type { BuiltinReporter } from './reporters.js';
+export type {
+  BenchmarkEvent,
+  BudgetExceededEvent,
+  ContractEndEvent,
+  ContractStartEvent,
+  EventListener,
+  FailureEvent,
+  LogEvent,
+  MethodStartEvent,
+  PhaseEvent,
+  Reporter,
+  ReportSavedEvent,
+  ResultEvent,
+  RunEndEvent,
+  RunStartEvent,
+  SetupEndEvent,
+  SetupStartEvent,
+  TeardownEndEvent,
+  TeardownStartEvent,
+} from './events.js';
@@ -0,0 +1,320 @@
+/**
+ * The JSON Schema of `*.benchmark.json` reports, published as `schema/profile-report.schema.json`.
+ *
+ * It is kept in code rather than read from the published file, so validation does not depend on
+ * where this module is loaded from (the CommonJS build, the Action bundle, or the sources under tsx).
+ * A test checks that the published file matches it.
+ */
+
+/** The subset of JSON Schema keywords used by the published schema */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  type?: string | string[];
+  enum?: unknown[];
+  minimum?: number;
+  pattern?: string;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema;
+}
+
+/** The report schema, identical to `schema/profile-report.schema.json` */
+export const PROFILE_REPORT_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://github.com/defi-wonderland/aztec-benchmark/schema/profile-report.schema.json',
+  title: 'aztec-benchmark profile report',
+  description: 'Report written by aztec-benchmark for one contract (<contract><suffix>.benchmark.json).',
+  type: 'object',
+  required: ['schemaVersion', 'summary', 'results', 'gasSummary', 'provingTimeSummary', 'systemInfo'],
+  properties: {
+    schemaVersion: { type: 'integer', minimum: 1 },
+    summary: { $ref: '#/$defs/numberRecord' },
+    results: { type: 'array', items: { $ref: '#/$defs/profileResult' } },
+    gasSummary: { $ref: '#/$defs/numberRecord' },
+    provingTimeSummary: { $ref: '#/$defs/numberRecord' },
+    systemInfo: { $ref: '#/$defs/systemInfo' },
+    provenance: { $ref: '#/$defs/provenance' },
+    budgetViolations: { type: 'array', items: { $ref: '#/$defs/budgetViolation' } },
+    filter: { $ref: '#/$defs/filter' },
+    sweeps: { type: 'array', items: { $ref: '#/$defs/sweepSeries' } },
+    shard: { $ref: '#/$defs/shard' },
+  },
+  $defs: {
+    stringArray: { type: 'array', items: { type: 'string' } },
+    filter: {
+      type: 'object',
+      required: ['excluded'],
+      properties: {
+        pattern: { type: 'string' },
+        tags: { $ref: '#/$defs/stringArray' },
+        excludeTags: { $ref: '#/$defs/stringArray' },
+        excluded: { $ref: '#/$defs/stringArray' },
+      },
+    },
+    shard: {
+      type: 'object',
+      required: ['index', 'count'],
+      properties: {
+        index: { type: 'integer', minimum: 1 },
+        count: { type: 'integer', minimum: 1 },
+        skipped: { $ref: '#/$defs/stringArray' },
+      },
+    },
+    costModel: {
+      type: 'object',
+      required: ['kind', 'marginal', 'intercept', 'r2'],
+      properties: {
+        kind: { enum: ['linear', 'step'] },
+        marginal: { type: 'number' },
+        intercept: { type: 'number' },
+        r2: { type: 'number' },
+        stepWidth: { type: 'integer', minimum: 1 },
+        stepCost: { type: 'number' },
+      },
+    },
+    sweepSeries: {
+      type: 'object',
+      required: ['name', 'parameter', 'points', 'fits'],
+      properties: {
+        name: { type: 'string' },
+        parameter: { type: 'string' },
+        points: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['value', 'name'],
+            properties: { value: { type: 'number' }, name: { type: 'string' } },
+          },
+        },
+        fits: {
+          type: 'object',
+          properties: {
+            gates: { $ref: '#/$defs/costModel' },
+            daGas: { $ref: '#/$defs/costModel' },
+            l2Gas: { $ref: '#/$defs/costModel' },
+          },
+        },
+      },
+    },
+    numberRecord: { type: 'object', additionalProperties: { type: 'number' } },
+    gas: {
+      type: 'object',
+      required: ['daGas', 'l2Gas'],
+      properties: { daGas: { type: 'number' }, l2Gas: { type: 'number' } },
+    },
+    gasLimits: {
+      type: 'object',
+      required: ['gasLimits', 'teardownGasLimits'],
+      properties: { gasLimits: { $ref: '#/$defs/gas' }, teardownGasLimits: { $ref: '#/$defs/gas' } },
+    },
+    sideEffects: {
+      type: 'object',
+      required: [
+        'noteHashes',
+        'nullifiers',
+        'privateLogs',
+        'publicLogs',
+        'l2ToL1Messages',
+        'publicDataWrites',
+        'enqueuedPublicCalls',
+        'calldataBytes',
+        'logBytes',
+      ],
+      properties: {
+        noteHashes: { type: 'integer', minimum: 0 },
+        nullifiers: { type: 'integer', minimum: 0 },
+        privateLogs: { type: 'integer', minimum: 0 },
+        publicLogs: { type: 'integer', minimum: 0 },
+        l2ToL1Messages: { type: 'integer', minimum: 0 },
+        publicDataWrites: { type: 'integer', minimum: 0 },
+        enqueuedPublicCalls: { type: 'integer', minimum: 0 },
+        calldataBytes: { type: 'integer', minimum: 0 },
+        logBytes: { type: 'integer', minimum: 0 },
+      },
+    },
+    gasUsage: {
+      type: 'object',
+      required: ['privateExecution', 'publicSetupAndAppLogic', 'teardown', 'total', 'billed'],
+      properties: {
+        privateExecution: { $ref: '#/$defs/gas' },
+        publicSetupAndAppLogic: { $ref: '#/$defs/gas' },
+        teardown: { $ref: '#/$defs/gas' },
+        total: { $ref: '#/$defs/gas' },
+        billed: { $ref: '#/$defs/gas' },
+      },
+    },
+    gateCount: {
+      type: 'object',
+      required: ['circuitName', 'gateCount'],
+      properties: {
+        circuitName: { type: 'string' },
+        gateCount: { type: 'number', minimum: 0 },
+        witgenMs: { type: 'number', minimum: 0 },
+        call: { type: 'integer', minimum: 0 },
+      },
+    },
+    batchCost: {
+      type: 'object',
+      required: ['gates'],
+      properties: {
+        gates: { type: 'number' },
+        daGas: { type: 'number' },
+        l2Gas: { type: 'number' },
+        provingTime: { type: 'number' },
+      },
+    },
+    batchBreakdown: {
+      type: 'object',
+      required: ['calls', 'sharedGates'],
+      properties: {
+        calls: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'gates'],
+            properties: {
+              name: { type: 'string' },
+              gates: { type: 'number', minimum: 0 },
+              separateGates: { type: 'number', minimum: 0 },
+            },
+          },
+        },
+        sharedGates: { type: 'number', minimum: 0 },
+        separate: { $ref: '#/$defs/batchCost' },
+        overhead: { $ref: '#/$defs/batchCost' },
+      },
+    },
+    inclusionTimings: {
+      type: 'object',
+      required: ['txHash', 'timeToSubmit', 'timeToMined'],
+      properties: {
+        txHash: { type: 'string' },
+        blockNumber: { type: 'integer', minimum: 0 },
+        timeToProof: { type: 'number', minimum: 0 },
+        timeToSubmit: { type: 'number', minimum: 0 },
+        timeToMined: { type: 'number', minimum: 0 },
+      },
+    },
+    sampleStats: {
+      type: 'object',
+      required: ['min', 'median', 'mean', 'p95', 'stddev'],
+      properties: {
+        min: { type: 'number' },
+        median: { type: 'number' },
+        mean: { type: 'number' },
+        p95: { type: 'number' },
+        stddev: { type: 'number' },
+      },
+    },
+    resourceUsage: {
+      type: 'object',
+      required: ['peakRssMiB', 'peakHeapUsedMiB', 'cpuUserMs', 'cpuSystemMs'],
+      properties: {
+        peakRssMiB: { type: 'number', minimum: 0 },
+        peakHeapUsedMiB: { type: 'number', minimum: 0 },
+        cpuUserMs: { type: 'number', minimum: 0 },
+        cpuSystemMs: { type: 'number', minimum: 0 },
+      },
+    },
+    profileSample: {
+      type: 'object',
+      required: ['totalGateCount'],
+      properties: {
+        totalGateCount: { type: 'number', minimum: 0 },
+        gas: { $ref: '#/$defs/gasLimits' },
+        witgenMs: { type: 'number', minimum: 0 },
+        provingTime: { type: 'number', minimum: 0 },
+        resources: { $ref: '#/$defs/resourceUsage' },
+      },
+    },
+    profileFailure: {
+      type: 'object',
+      required: ['phase', 'message'],
+      properties: {
+        phase: { enum: ['setup', 'beforeEach', 'request', 'simulate', 'profile', 'send', 'wait', 'afterEach'] },
+        message: { type: 'string' },
+        timedOut: { type: 'boolean' },
+      },
+    },
+    profileResult: {
+      type: 'object',
+      required: ['name', 'totalGateCount', 'gateCounts'],
+      properties: {
+        name: { type: 'string' },
+        totalGateCount: { type: 'number', minimum: 0 },
+        gateCounts: { type: 'array', items: { $ref: '#/$defs/gateCount' } },
+        gas: { $ref: '#/$defs/gasLimits' },
+        simulatedGasUsed: { $ref: '#/$defs/gasUsage' },
+        sideEffects: { $ref: '#/$defs/sideEffects' },
+        fee: { type: 'string', pattern: '^[0-9]+$' },
+        provingTime: { type: 'number', minimum: 0 },
+        resources: { $ref: '#/$defs/resourceUsage' },
+        samples: { type: 'array', items: { $ref: '#/$defs/profileSample' } },
+        status: { enum: ['success', 'failed'] },
+        error: { $ref: '#/$defs/profileFailure' },
+        stats: {
+          type: 'object',
+          properties: { provingTime: { $ref: '#/$defs/sampleStats' }, witgenMs: { $ref: '#/$defs/sampleStats' } },
+        },
+        batch: { $ref: '#/$defs/batchBreakdown' },
+        inclusion: { $ref: '#/$defs/inclusionTimings' },
+      },
+    },
+    systemInfo: {
+      type: 'object',
+      required: ['cpuModel', 'cpuCores', 'totalMemoryGiB', 'arch'],
+      properties: {
+        cpuModel: { type: 'string' },
+        cpuCores: { type: 'number' },
+        totalMemoryGiB: { type: 'number' },
+        arch: { type: 'string' },
+      },
+    },
+    provenance: {
+      type: 'object',
+      required: ['timestamp', 'nodeVersion', 'cliVersion', 'flags'],
+      properties: {
+        timestamp: { type: 'string' },
+        gitCommit: { type: 'string' },
+        gitDirty: { type: 'boolean' },
+        cliVersion: { type: 'string' },
+        aztecVersion: { type: 'string' },
+        packages: { type: 'object', additionalProperties: { type: 'string' } },
+        nodeVersion: { type: 'string' },
+        flags: {
+          type: 'object',
+          required: ['skipProving', 'runs', 'warmup'],
+          properties: {
+            skipProving: { type: 'boolean' },
+            runs: { type: 'integer', minimum: 1 },
+            warmup: { type: 'integer', minimum: 0 },
+            continueOnError: { type: 'boolean' },
+            timeout: { type: 'integer', minimum: 0 },
+            sendMode: { enum: ['none', 'send', 'send-and-wait'] },
+          },
+        },
+        config: {
+          type: 'object',
+          required: ['settings'],
+          properties: { file: { type: 'string' }, profile: { type: 'string' }, settings: { type: 'object' } },
+        },
+      },
+    },
+    budgetViolation: {
+      type: 'object',
+      required: ['name', 'metric', 'limit', 'actual'],
+      properties: {
+        name: { type: 'string' },
+        metric: { enum: ['gates', 'daGas', 'l2Gas', 'provingTime'] },
+        limit: { type: 'number' },
+        actual: { type: 'number' },
+      },
+    },
+  },
+};
@@ -0,0 +1,412 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import { NO_WAIT } from '@aztec/aztec.js/contracts';
+import type { FeePaymentMethod } from '@aztec/aztec.js/fee';
+
+import { Profiler } from './profiler.js';
+import { validateReport } from './reportSchema.cjs';
+import { FakeInteraction, FakeNode, FakeWallet, fakeMethod, optionsOf } from './testing.js';
+import type { BenchmarkEvent, FailureEvent } from './events.js';
+import type { BatchIntent, DeploymentIntent, ProfileReport } from './types.js';
+
+const CIRCUITS = [
+  { circuitName: 'SchnorrAccount:entrypoint', gateCount: 50_000, witgenMs: 10 },
+  { circuitName: 'Token:transfer', gateCount: 30_000, witgenMs: 20 },
+  { circuitName: 'private_kernel_tail', gateCount: 10_000, witgenMs: 5 },
+];
+
+const ZERO_GAS = { daGas: 0, l2Gas: 0 };
+
+const GAS = { gasLimits: { daGas: 1_536, l2Gas: 84_000 }, teardownGasLimits: { daGas: 0, l2Gas: 0 } };
+
+/**
+ * Silences the progress output of the profiler.
+ */
+function silenceConsole() {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+}
+
+describe('Profiler.profile', () => {
+  beforeEach(silenceConsole);
+  afterEach(() => mock.restoreAll());
+
+  it('derives the name of a plain interaction and records its gates, gas, witgen and proving times', async () => {
+    const transfer = new FakeInteraction({ name: 'transfer', circuits: CIRCUITS, gas: GAS, provingTime: 1_200, fee: 42n });
+
+    const [result] = await new Profiler().profile([transfer.toIntent()]);
+
+    assert.equal(result.name, 'transfer');
+    assert.equal(result.status, 'success');
+    assert.equal(result.totalGateCount, 90_000);
+    assert.deepEqual(result.gateCounts, CIRCUITS);
+    assert.deepEqual(result.gas, GAS);
+    assert.equal(result.provingTime, 1_200);
+    assert.equal(result.fee, '42');
+    assert.ok(result.resources && result.resources.peakRssMiB > 0);
+    assert.deepEqual(transfer.calls.map(call => call.method), ['request', 'simulate', 'profile', 'send']);
+  });
+
+  it('skips proof generation and omits the proving time with skipProving', async () => {
+    const transfer = fakeMethod('transfer', { circuits: CIRCUITS, provingTime: 1_200 });
+
+    const [result] = await new Profiler(undefined, { skipProving: true }).profile([transfer]);
+
+    assert.equal(result.provingTime, undefined);
+    const profileCall = transfer.fake.calls.find(call => call.method === 'profile');
+    assert.equal(profileCall?.options.skipProofGeneration, true);
+  });
+
+  it('discards warmup runs and reports the median of the measured runs', async () => {
+    const transfer = fakeMethod('transfer', { circuits: CIRCUITS, provingTime: [5_000, 1_000, 3_000, 2_000] });
+
+    const [result] = await new Profiler(undefined, { runs: 3, warmup: 1 }).profile([transfer]);
+
+    assert.equal(transfer.fake.calls.filter(call => call.method === 'profile').length, 4);
+    assert.equal(result.provingTime, 2_000);
+    assert.deepEqual(result.samples?.map(sample => sample.provingTime), [1_000, 3_000, 2_000]);
+    assert.equal(result.stats?.provingTime?.min, 1_000);
+    assert.equal(result.stats?.provingTime?.median, 2_000);
+  });
+
+  it('rejects fewer than one run or negative warmup runs', async () => {
+    assert.throws(() => new Profiler(undefined, { runs: 0 }), /Invalid runs in the Profiler options: expected an integer of at least 1, got 0/);
+    assert.throws(() => new Profiler(undefined, { warmup: -1 }), /Invalid warmup in the Profiler options/);
+
+    const transfer = { ...fakeMethod('transfer', { circuits: CIRCUITS }), runs: 0 };
+    const [result] = await new Profiler(undefined, { continueOnError: true }).profile([transfer]);
+
+    assert.equal(result.status, 'failed');
+    assert.match(result.error!.message, /Invalid runs in the settings of transfer: expected an integer of at least 1, got 0/);
+    assert.ok(!transfer.fake.calls.some(call => call.method === 'profile'));
+  });
+
+  it('profiles a deployment with its own options, named after its contract', async () => {
+    const deploy = new FakeInteraction({ name: 'constructor', circuits: CIRCUITS, gas: GAS, provingTime: 1_200, fee: 42n });
+    const intent: DeploymentIntent = {
+      caller: AztecAddress.ZERO,
+      deploy: deploy.asDeployMethod(),
+      contractName: 'Token',
+      options: { skipClassPublication: true },
+    };
+
+    const [result] = await new Profiler().profile([intent]);
+
+    assert.equal(result.name, 'deploy:Token');
+    assert.equal(result.status, 'success');
+    assert.equal(result.totalGateCount, 90_000);
+    assert.deepEqual(result.gas, GAS);
+    assert.equal(result.provingTime, 1_200);
+    assert.equal(result.fee, '42');
+    assert.deepEqual(deploy.calls.map(call => call.method), ['simulate', 'profile', 'send']);
+    for (const method of ['simulate', 'profile', 'send'] as const) {
+      const options = optionsOf(deploy.calls, method);
+      assert.ok('skipClassPublication' in options && options.skipClassPublication, `${method} was not given the deploy options`);
+    }
+  });
+
+  it('names a deployment without a contract name as an unknown contract', async () => {
+    const deploy = new FakeInteraction({ name: 'constructor', circuits: CIRCUITS });
+
+    const [result] = await new Profiler(undefined, { skipProving: true }).profile([
+      { caller: AztecAddress.ZERO, deploy: deploy.asDeployMethod() },
+    ]);
+
+    assert.equal(result.name, 'deploy:unknown_contract');
+  });
+
+  it('profiles a batch through the wallet and reports its overhead over separate transactions', async () => {
+    const approve = new FakeInteraction({
+      name: 'approve',
+      circuits: [CIRCUITS[0], { circuitName: 'Token:approve', gateCount: 5_000 }, CIRCUITS[2]],
+      provingTime: 1_000,
+    });
+    const transfer = new FakeInteraction({ name: 'transfer', circuits: CIRCUITS, provingTime: 1_200 });
+    const total = { daGas: 1_000, l2Gas: 20_000 };
+    const wallet = new FakeWallet({
+      gasUsed: { privateExecution: total, publicSetupAndAppLogic: ZERO_GAS, teardown: ZERO_GAS, total, billed: total },
+      circuits: [CIRCUITS[0], { circuitName: 'Token:approve', gateCount: 5_000 }, CIRCUITS[1], CIRCUITS[2]],
+      provingTime: 1_500,
+    });
+    const batch: BatchIntent = { caller: AztecAddress.ZERO, batch: [approve.asInteraction(), transfer.asInteraction()] };
+
+    const [result] = await new Profiler(wallet.asWallet(), { sendMode: 'none' }).profile([batch]);
+
+    assert.equal(result.name, 'batch:approve+transfer');
+    assert.equal(result.totalGateCount, 95_000);
+    assert.equal(result.provingTime, 1_500);
+    assert.deepEqual(result.gateCounts.map(circuit => circuit.call), [undefined, 0, 1, undefined]);
+    assert.deepEqual(result.batch, {
+      calls: [
+        { name: 'approve', gates: 5_000, separateGates: 65_000 },
+        { name: 'transfer', gates: 30_000, separateGates: 90_000 },
+      ],
+      sharedGates: 60_000,
+      separate: { gates: 155_000, daGas: 2_000, l2Gas: 40_000, provingTime: 2_200 },
+      overhead: { gates: -60_000, daGas: -1_000, l2Gas: -20_000, provingTime: -700 },
+    });
+    const [profiled] = wallet.calls.filter(call => call.method === 'profileTx');
+    assert.deepEqual(profiled.options.payload.calls.map((call: { name: string }) => call.name), ['approve', 'transfer']);
+  });
+
+  it('passes the fee payment method to every call', async () => {
+    const paymentMethod = { getAsset: () => 'fpc' } as unknown as FeePaymentMethod;
+    const transfer = fakeMethod('transfer', { circuits: CIRCUITS });
+
+    await new Profiler(undefined, { feePaymentMethod: paymentMethod }).profile([transfer]);
+
+    for (const call of transfer.fake.calls.filter(call => call.method !== 'request')) {
+      assert.equal(call.options.fee?.paymentMethod, paymentMethod, `${call.method} was not given the payment method`);
+    }
+  });
+
+  it('does not send the transaction in the none send mode', async () => {
+    const transfer = fakeMethod('transfer', { circuits: CIRCUITS, fee: 42n });
+
+    const [result] = await new Profiler(undefined, { sendMode: 'none' }).profile([transfer]);
+
+    assert.equal(result.fee, undefined);
+    assert.ok(!transfer.fake.calls.some(call => call.method === 'send'));
+  });
+
+  it('records the inclusion latency in the send-and-wait send mode', async () => {
+    const node = new FakeNode(10);
+    const transfer = fakeMethod('transfer', { circuits: CIRCUITS, provingTime: 1_200, fee: 42n }, node);
+
+    const [result] = await new Profiler(undefined, { sendMode: 'send-and-wait', node: node.asNode() }).profile([transfer]);
+
+    const sendCall = transfer.fake.calls.find(call => call.method === 'send');
+    assert.equal(sendCall?.options.wait, NO_WAIT);
+    assert.equal(result.fee, '42');
+    assert.equal(result.inclusion?.blockNumber, 11);
+    assert.equal(result.inclusion?.timeToProof, 1_200);
+    assert.ok(result.inclusion!.timeToMined >= result.inclusion!.timeToSubmit);
+  });
+
+  it('fails a method whose transaction reverts in the send-and-wait send mode', async () => {
+    const node = new FakeNode();
+    const transfer = fakeMethod('transfer', { circuits: CIRCUITS, revertReason: 'Assertion failed: balance too low' }, node);
+    const profiler = new Profiler(undefined, { sendMode: 'send-and-wait', node: node.asNode(), continueOnError: true });
+
+    const [result] = await profiler.profile([transfer]);
+
+    assert.equal(result.status, 'failed');
+    assert.equal(result.error?.phase, 'wait');
+    assert.match(result.error!.message, /was mined but reverted \(app_logic_reverted\): Assertion failed: balance too low/);
+  });
+
+  it('reads the estimated gas, gas used and side effects from a single wallet simulation per run', async () => {
+    const gasUsed = {
+      privateExecution: { daGas: 1_000, l2Gas: 40_000 },
+      publicSetupAndAppLogic: { daGas: 512, l2Gas: 30_000 },
+      teardown: { daGas: 0, l2Gas: 5_000 },
+      total: { daGas: 1_512, l2Gas: 75_000 },
+      billed: { daGas: 1_512, l2Gas: 80_000 },
+    };
+    const sideEffects = {
+      noteHashes: 2,
+      nullifiers: 3,
+      privateLogs: 2,
+      publicLogs: 1,
+      l2ToL1Messages: 0,
+      publicDataWrites: 4,
+      enqueuedPublicCalls: 1,
+      calldataBytes: 128,
+      logBytes: 576,
+    };
+    const wallet = new FakeWallet({ gasUsed, sideEffects });
+
+    const transfer = fakeMethod('transfer', { circuits: CIRCUITS, fee: 42n });
+
+    const [result] = await new Profiler(wallet.asWallet(), { runs: 2 }).profile([transfer]);
+
+    assert.deepEqual(result.simulatedGasUsed, gasUsed);
+    assert.deepEqual(result.sideEffects, sideEffects);
+    assert.deepEqual(result.gas, { gasLimits: gasUsed.total, teardownGasLimits: gasUsed.teardown });
+    assert.equal(result.fee, '42');
+    assert.equal(wallet.calls.length, 2);
+    assert.ok(!transfer.fake.calls.some(call => call.method === 'simulate'));
+  });
+
+  it('records a failed result with the failing phase when continuing on errors', async () => {
+    const transfer = fakeMethod('transfer', { circuits: CIRCUITS, errors: { profile: 'Circuit execution failed' } });
+    const mint = fakeMethod('mint', { circuits: CIRCUITS });
+
+    const results = await new Profiler(undefined, { continueOnError: true }).profile([transfer, mint]);
+
+    assert.deepEqual(results[0], {
+      name: 'transfer',
+      totalGateCount: 0,
+      gateCounts: [],
+      status: 'failed',
+      error: { phase: 'profile', message: 'Circuit execution failed' },
+    });
+    assert.equal(results[1].status, 'success');
+  });
+
+  it('throws the first failure without continueOnError', async () => {
+    const transfer = fakeMethod('transfer', { errors: { simulate: 'Assertion failed' } });
+
+    await assert.rejects(new Profiler().profile([transfer]), /Assertion failed/);
+  });
+
+  it('fails a method that exceeds its timeout', async () => {
+    const transfer = { ...fakeMethod('transfer', { circuits: CIRCUITS, delays: { profile: 200 } }), timeout: 20 };
+
+    const [result] = await new Profiler(undefined, { continueOnError: true }).profile([transfer]);
+
+    assert.equal(result.status, 'failed');
+    assert.equal(result.error?.phase, 'profile');
+    assert.equal(result.error?.timedOut, true);
+  });
+
+  it('waits for a timed out method to stop before its afterEach and the next method, without sending it', async () => {
+    const events: string[] = [];
+    const transfer = { ...fakeMethod('transfer', { circuits: CIRCUITS, delays: { profile: 100 } }), timeout: 20 };
+    const profiler = new Profiler(undefined, {
+      continueOnError: true,
+      beforeEach: async name => void events.push(`before ${name}`),
+      afterEach: async name => void events.push(`after ${name} (${transfer.fake.calls.length} calls)`),
+    });
+
+    const [result] = await profiler.profile([transfer, fakeMethod('mint')]);
+
+    assert.equal(result.error?.timedOut, true);
+    assert.deepEqual(transfer.fake.calls.map(call => call.method), ['simulate', 'profile']);
+    assert.deepEqual(events, ['before transfer', 'after transfer (2 calls)', 'before mint', 'after mint (2 calls)']);
+  });
+
+  it('names a method that fails before its name is derived by its position', async () => {
+    const malformed = { caller: AztecAddress.ZERO, batch: undefined } as unknown as BatchIntent;
+
+    const [, result] = await new Profiler(undefined, { continueOnError: true }).profile([fakeMethod('mint'), malformed]);
+
+    assert.equal(result.name, 'entry #2');
+    assert.equal(result.status, 'failed');
+  });
+
+  it('runs the hooks around each method, and afterEach also after a failure', async () => {
+    const events: string[] = [];
+    const profiler = new Profiler(undefined, {
+      continueOnError: true,
+      beforeEach: async name => void events.push(`before ${name}`),
+      afterEach: async name => void events.push(`after ${name}`),
+    });
+
+    await profiler.profile([fakeMethod('transfer', { errors: { send: 'Tx dropped' } }), fakeMethod('mint')]);
+
+    assert.deepEqual(events, ['before transfer', 'after transfer', 'before mint', 'after mint']);
+  });
+
+  it('builds lazy interactions after beforeEach', async () => {
+    const events: string[] = [];
+    const transfer = new FakeInteraction({ name: 'transfer', circuits: CIRCUITS });
+    const profiler = new Profiler(undefined, { beforeEach: async () => void events.push('beforeEach') });
+
+    await profiler.profile([
+      {
+        name: 'transfer',
+        interaction: async () => {
+          events.push('build');
+          return transfer.toIntent();
+        },
+      },
+    ]);
+
+    assert.deepEqual(events, ['beforeEach', 'build']);
+  });
+
+  it('reports the start, phases and result of each method as events', async () => {
+    const events: BenchmarkEvent[] = [];
+    const profiler = new Profiler(undefined, { contractName: 'token', runs: 2, afterEach: async () => {}, onEvent: event => void events.push(event) });
+
+    const [result] = await profiler.profile([fakeMethod('transfer', { circuits: CIRCUITS })]);
+
+    assert.deepEqual(events[0], { type: 'method-start', name: 'transfer', runs: 2, warmup: 0, contractName: 'token' });
+    assert.deepEqual(
+      events.filter(event => event.type === 'phase').map(event => event.phase),
+      ['beforeEach', 'request', 'simulate', 'profile', 'simulate', 'profile', 'send', 'afterEach'],
+    );
+    assert.deepEqual(events.at(-1), { type: 'result', result, contractName: 'token' });
+  });
+
+  it('reports a failure before the failed result, and no phases of a timed out run', async () => {
+    const events: BenchmarkEvent[] = [];
+    const transfer = { ...fakeMethod('transfer', { circuits: CIRCUITS, delays: { profile: 200 } }), timeout: 20 };
+
+    await new Profiler(undefined, { continueOnError: true, onEvent: event => void events.push(event) }).profile([transfer]);
+
+    assert.deepEqual(
+      events.map(event => (event.type === 'phase' ? `${event.type}:${event.phase}` : event.type)),
+      ['method-start', 'phase:beforeEach', 'phase:request', 'phase:simulate', 'phase:profile', 'failure', 'result'],
+    );
+    const { stack, ...failure } = events.find(event => event.type === 'failure') as FailureEvent;
+    assert.deepEqual(failure, { type: 'failure', name: 'transfer', phase: 'profile', message: 'Timed out after 20ms', timedOut: true });
+    assert.match(stack!, /Timed out after 20ms/);
+  });
+});
+
+describe('Profiler.saveResults', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    silenceConsole();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aztec-benchmark-'));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Reads a report written by saveResults.
+   * @param file - The report path.
+   * @returns The parsed report.
+   */
+  const readJson = (file: string): ProfileReport => JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+  it('writes a valid report that summarizes the successful methods', async () => {
+    const profiler = new Profiler(undefined, { continueOnError: true });
+    const results = await profiler.profile([
+      fakeMethod('transfer', { circuits: CIRCUITS, gas: GAS, provingTime: 1_200 }),
+      fakeMethod('mint', { errors: { simulate: 'Assertion failed' } }),
+    ]);
+    const file = path.join(dir, 'token.benchmark.json');
+
+    await profiler.saveResults(results, file, { budgetViolations: [] });
+
+    const report = readJson(file);
+    assert.deepEqual(validateReport(report), []);
+    assert.deepEqual(report.summary, { transfer: 90_000 });
+    assert.deepEqual(report.gasSummary, { transfer: 85_536 });
+    assert.deepEqual(report.provingTimeSummary, { transfer: 1_200 });
+    assert.deepEqual(report.results.map(result => result.status), ['success', 'failed']);
+    assert.deepEqual(report.budgetViolations, []);
+  });
+
+  it('writes an empty report without results', async () => {
+    const file = path.join(dir, 'token.benchmark.json');
+
+    await new Profiler().saveResults([], file);
+
+    const report = readJson(file);
+    assert.deepEqual(validateReport(report), []);
+    assert.deepEqual(report.results, []);
+    assert.deepEqual(report.summary, {});
+  });
+
+  it('writes every configured format next to the JSON report', async () => {
+    const profiler = new Profiler(undefined, { formats: ['json', 'csv', 'openmetrics'] });
+    const results = await profiler.profile([fakeMethod('transfer', { circuits: CIRCUITS })]);
+
+    await profiler.saveResults(results, path.join(dir, 'token.benchmark.json'));
+
+    assert.deepEqual(fs.readdirSync(dir).sort(), ['token.benchmark.csv', 'token.benchmark.json', 'token.benchmark.prom']);
+  });
+});
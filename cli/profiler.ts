@@ -1,17 +1,39 @@
 import type { AztecAddress } from '@aztec/aztec.js/addresses';
-import type { ContractFunctionInteractionCallIntent } from '@aztec/aztec.js/authorization';
+import { NO_WAIT, toSimulateOptions } from '@aztec/aztec.js/contracts';
 import type { FeePaymentMethod } from '@aztec/aztec.js/fee';
+import { waitForTx, type AztecNode } from '@aztec/aztec.js/node';
 import { EmbeddedWallet } from '@aztec/wallets/embedded';
 
-import fs from 'node:fs';
+import path from 'node:path';
 import {
+  type BatchCost,
+  type BatchIntent,
+  type BenchmarkedIntent,
   type ProfileResult,
   type ProfileReport,
   type Gas,
   type GasLimits,
+  type GasUsage,
+  type GateCount,
+  type InclusionTimings,
   type NamedBenchmarkedInteraction,
+  type ProfiledCall,
+  type ProfilePhase,
+  type ProfileSample,
+  type ReportExtras,
+  type ResourceUsage,
+  type SendMode,
+  type SideEffects,
 } from './types.js';
 import { getSystemInfo } from './systemInfo.js';
+import { getDeploymentName, toCallIntent } from './deployment.js';
+import { buildBatchBreakdown, toBatchCallIntent } from './batch.js';
+import { computeStats, median } from './stats.js';
+import { ResourceSampler } from './resourceUsage.js';
+import { SCHEMA_VERSION } from './reportSchema.cjs';
+import { writeReportFormats, type ExportFormat } from './exporters.js';
+import { logEvent, type BenchmarkEvent, type EventListener } from './events.js';
+import { consoleListener } from './reporters.js';
 
 /**
  * Sums all numbers in an array.
@@ -22,6 +44,52 @@ function sumArray(arr: number[]): number {
   return arr.reduce((a, b) => a + b, 0);
 }
 
+/**
+ * Runs work against a timeout, aborting its signal when the time is up.
+ * The work cannot be interrupted, it stops at its next check of the signal. A timeout is only reported
+ * once the work settled, so nothing it does outlives its entry.
+ * @param work - The work to run, given the signal to check.
+ * @param ms - Timeout in milliseconds, or undefined for no timeout.
+ * @param onLateError - Called with the error of work that failed for another reason after timing out.
+ * @returns The result of the work.
+ * @throws A timeout error if the work doesn't settle in time.
+ */
+async function withTimeout<T>(work: (signal: AbortSignal) => Promise<T>, ms: number | undefined, onLateError: (error: any) => void): Promise<T> {
+  const controller = new AbortController();
+  const promise = work(controller.signal);
+  if (!ms) return promise;
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(Object.assign(new Error(`Timed out after ${ms}ms`), { timedOut: true })), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } catch (error: any) {
+    if (!error.timedOut) throw error;
+    controller.abort(error);
+    await promise.then(
+      () => {},
+      (late: any) => late !== error && onLateError(late),
+    );
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Checks the number of measured and warmup runs of a function.
+ * @param runs - Number of measured runs.
+ * @param warmup - Number of discarded warmup runs.
+ * @param source - Where the settings come from, for the error message.
+ * @throws If runs is not an integer of at least 1, or warmup is not a non-negative integer.
+ */
+function validateRuns(runs: number, warmup: number, source: string) {
+  if (!Number.isInteger(runs) || runs < 1) throw new Error(`Invalid runs in ${source}: expected an integer of at least 1, got ${runs}.`);
+  if (!Number.isInteger(warmup) || warmup < 0) throw new Error(`Invalid warmup in ${source}: expected a non-negative integer, got ${warmup}.`);
+}
+
 /**
  * Sums DA and L2 gas components.
  * @param gas - The gas object.
@@ -31,23 +99,286 @@ function sumGas(gas: Gas): number {
   return (gas?.daGas ?? 0) + (gas?.l2Gas ?? 0);
 }
 
+/**
+ * Computes the per-function summaries of a report from its results.
+ * Failed entries have no meaningful metrics, they are only listed in `results`.
+ * @param results - The profiling results.
+ * @returns The gate count, gas and proving time summaries, keyed by function name.
+ */
+export function summarizeResults(results: ProfileResult[]): Pick<ProfileReport, 'summary' | 'gasSummary' | 'provingTimeSummary'> {
+  const succeeded = results.filter(result => result.status !== 'failed');
+
+  const summary = succeeded.reduce(
+    (acc, result) => ({
+      ...acc,
+      [result.name]: result.totalGateCount,
+    }),
+    {} as Record<string, number>,
+  );
+
+  const gasSummary = succeeded.reduce(
+    (acc, result) => ({
+      ...acc,
+      [result.name]: result.gas
+        ? sumGas(result.gas.gasLimits) + sumGas(result.gas.teardownGasLimits)
+        : 0,
+    }),
+    {} as Record<string, number>,
+  );
+
+  const provingTimeSummary = succeeded.reduce(
+    (acc, result) => ({
+      ...acc,
+      [result.name]: result.stats?.provingTime?.median ?? result.provingTime ?? 0,
+    }),
+    {} as Record<string, number>,
+  );
+
+  return { summary, gasSummary, provingTimeSummary };
+}
+
+/**
+ * Copies the components of an Aztec.js gas object into a plain, serializable one.
+ * @param gas - The gas object.
+ * @returns The DA and L2 gas.
+ */
+function toGas(gas: Gas): Gas {
+  return { daGas: gas.daGas, l2Gas: gas.l2Gas };
+}
+
+/**
+ * Subtracts gas components.
+ * @param a - The gas to subtract from.
+ * @param b - The gas to subtract.
+ * @returns The difference of each component.
+ */
+function subGas(a: Gas, b: Gas): Gas {
+  return { daGas: a.daGas - b.daGas, l2Gas: a.l2Gas - b.l2Gas };
+}
+
+/** Size of a field element, the unit of calldata and logs */
+const FIELD_SIZE_IN_BYTES = 32;
+
+/** Result of simulating a tx through the wallet */
+type SimulatedTx = Awaited<ReturnType<EmbeddedWallet['simulateTx']>>;
+
+/**
+ * Counts the side effects of a simulated tx.
+ * A tx with public calls is read from the effect of its public simulation, which also holds its private
+ * side effects. A private-only tx is read from the output of the private kernel tail.
+ * @param simulatedTx - The wallet simulation result.
+ * @returns The side effect counts and sizes.
+ */
+function getSideEffects(simulatedTx: SimulatedTx): SideEffects {
+  const { publicInputs, publicOutput, privateExecutionResult } = simulatedTx;
+  const effect = publicOutput?.txEffect;
+  const privateLogs = effect?.privateLogs ?? publicInputs.getNonEmptyPrivateLogs();
+  const publicLogs = effect?.publicLogs ?? [];
+  const calldataFields = sumArray(privateExecutionResult.publicFunctionCalldata.map(calldata => calldata.values.length));
+  const logFields = sumArray(privateLogs.map(log => log.emittedLength)) + sumArray(publicLogs.map(log => log.fields.length));
+  return {
+    noteHashes: (effect?.noteHashes ?? publicInputs.getNonEmptyNoteHashes()).length,
+    nullifiers: (effect?.nullifiers ?? publicInputs.getNonEmptyNullifiers()).length,
+    privateLogs: privateLogs.length,
+    publicLogs: publicLogs.length,
+    l2ToL1Messages: (effect?.l2ToL1Msgs ?? publicInputs.getNonEmptyL2ToL1Msgs()).length,
+    publicDataWrites: effect?.publicDataWrites.length ?? 0,
+    enqueuedPublicCalls: publicInputs.numberOfPublicCallRequests(),
+    calldataBytes: calldataFields * FIELD_SIZE_IN_BYTES,
+    logBytes: logFields * FIELD_SIZE_IN_BYTES,
+  };
+}
+
+/**
+ * Derives the benchmark name of a plain interaction from the first call of its execution payload.
+ * Deployments are named after the deployed contract, e.g. `deploy:Token`, and batches after their calls,
+ * e.g. `batch:approve+transfer`.
+ * @param f - The interaction to name.
+ * @returns The function name, or an `unknown_function*` placeholder if it cannot be determined.
+ */
+export async function getInteractionName(f: BenchmarkedIntent): Promise<string> {
+  if ('deploy' in f) return getDeploymentName(f);
+  if ('batch' in f) return `batch:${(await getBatchCallNames(f)).join('+')}`;
+  let name: string;
+  // Name discovery logic (reinstated)
+  try {
+    const executionPayload = await f.action.request(); // Note: f.request() might be an issue if f is already a PxeSimoneResponse - check aztec.js docs
+    if (executionPayload.calls && executionPayload.calls.length > 0) {
+      const firstCall = executionPayload.calls[0];
+      // Attempt to get a meaningful name
+      name = firstCall?.name ?? firstCall?.selector?.toString() ?? 'unknown_function';
+    } else {
+      name = 'unknown_function_no_calls';
+      console.warn('No calls found in execution payload for name discovery.');
+    }
+  } catch (e: any) {
+    // Fallback if request() fails or doesn't yield a name
+    const potentialMethodName = (f as any).methodName; // methodName is not a standard prop, but might exist on some wrapped objects
+    if (potentialMethodName) {
+        name = potentialMethodName;
+        console.warn(`Could not simulate request for name discovery (${e.message}), using interaction.methodName as fallback: ${name}`);
+    } else {
+        name = 'unknown_function_request_failed';
+        console.warn(`Could not determine function name from request simulation: ${e.message}`);
+    }
+  }
+  return name;
+}
+
+/**
+ * Derives the names of the calls of a batch.
+ * @param f - The batch.
+ * @returns The name of each call, in execution order.
+ */
+async function getBatchCallNames(f: BatchIntent): Promise<string[]> {
+  return Promise.all(f.batch.map(action => getInteractionName({ caller: f.caller, action })));
+}
+
 interface ProfilerOptions {
   skipProving?: boolean;
   /** Fee payment method to use when sending transactions. */
   feePaymentMethod?: FeePaymentMethod;
+  /** Number of measured profiling runs per function (default 1). */
+  runs?: number;
+  /** Number of discarded profiling runs before measuring (default 0). */
+  warmup?: number;
+  /** Record failing functions as failed results instead of throwing. */
+  continueOnError?: boolean;
+  /** Timeout in milliseconds for profiling a single function. */
+  timeout?: number;
+  /** Formats the report is saved in (default json). */
+  formats?: ExportFormat[];
+  /** Contract name used as a label in exported formats (default derived from the report filename). */
+  contractName?: string;
+  /** Called with the name of each function before its interaction is built and profiled. */
+  beforeEach?: (name: string) => Promise<void>;
+  /** Called with the name of each function once it was sent or failed, if its beforeEach call completed. */
+  afterEach?: (name: string) => Promise<void>;
+  /** How each transaction is sent once measured (default `send`). */
+  sendMode?: SendMode;
+  /** Node used to wait for receipts in the `send-and-wait` send mode. */
+  node?: AztecNode;
+  /** Receives the progress of profiling (default prints it to the console). */
+  onEvent?: EventListener;
+}
+
+/** A benchmark entry normalized by `profile`; the name is derived when missing. */
+type BenchmarkEntry = Omit<NamedBenchmarkedInteraction, 'name'> & { name?: string };
+
+/** Tracks the name and current phase of the function being profiled, for failure reporting. */
+interface ProgressTracker {
+  name: string;
+  phase: ProfilePhase;
+  /** Whether beforeEach completed, so afterEach must run. */
+  beforeEachDone: boolean;
+  /** When the current phase started; unset until the name is known. */
+  phaseStart?: number;
+  /** Set once the function settled, so a timed-out run reports no further phases. */
+  done: boolean;
+  /** Aborted when the function timed out; its run stops before its next phase. */
+  signal?: AbortSignal;
+}
+
+/** Raw measurements of a single simulate + profile run. */
+interface Measurement {
+  gas?: GasLimits;
+  /** Gas used per phase, when simulated through the wallet. */
+  gasUsed?: GasUsage;
+  /** Side effects, when simulated through the wallet. */
+  sideEffects?: SideEffects;
+  gateCounts: GateCount[];
+  provingTime?: number;
+  resources: ResourceUsage;
+}
+
+/**
+ * Takes the median of each resource metric over several runs.
+ * @param usages - The resources used by each run.
+ * @returns The median usage.
+ */
+function medianResources(usages: ResourceUsage[]): ResourceUsage {
+  const of = (key: keyof ResourceUsage) => Math.round(median(usages.map(u => u[key])));
+  return {
+    peakRssMiB: of('peakRssMiB'),
+    peakHeapUsedMiB: of('peakHeapUsedMiB'),
+    cpuUserMs: of('cpuUserMs'),
+    cpuSystemMs: of('cpuSystemMs'),
+  };
 }
 
 /**
  * Profiles Aztec contract functions to measure gate counts, gas usage and proving time.
  */
 export class Profiler {
+  #wallet?: EmbeddedWallet;
   #skipProving: boolean;
   #feePaymentMethod?: FeePaymentMethod;
+  #runs: number;
+  #warmup: number;
+  #continueOnError: boolean;
+  #timeout?: number;
+  #formats: ExportFormat[];
+  #contractName?: string;
+  #beforeEach?: (name: string) => Promise<void>;
+  #afterEach?: (name: string) => Promise<void>;
+  #sendMode: SendMode;
+  #node?: AztecNode;
+  #onEvent: EventListener;
 
-  /** @param _wallet - Unused, kept for backward compatibility with existing callers. */
-  constructor(_wallet?: EmbeddedWallet, options?: ProfilerOptions) {
+  /**
+   * @param wallet - Used to simulate transactions, which also reads their gas used and side effects.
+   *                 Without it only the estimated gas and the fee paid are recorded.
+   * @throws If the runs or warmup options are invalid.
+   */
+  constructor(wallet?: EmbeddedWallet, options?: ProfilerOptions) {
+    this.#wallet = wallet;
     this.#skipProving = options?.skipProving ?? false;
     this.#feePaymentMethod = options?.feePaymentMethod;
+    this.#runs = options?.runs ?? 1;
+    this.#warmup = options?.warmup ?? 0;
+    validateRuns(this.#runs, this.#warmup, 'the Profiler options');
+    this.#continueOnError = options?.continueOnError ?? false;
+    this.#timeout = options?.timeout;
+    this.#formats = options?.formats ?? ['json'];
+    this.#contractName = options?.contractName;
+    this.#beforeEach = options?.beforeEach;
+    this.#afterEach = options?.afterEach;
+    this.#sendMode = options?.sendMode ?? 'send';
+    this.#node = options?.node;
+    this.#onEvent = options?.onEvent ?? consoleListener();
+  }
+
+  /**
+   * Emits an event, attributed to the profiled contract if it is known.
+   * @param event - The event, without its contract.
+   */
+  #emit(event: BenchmarkEvent) {
+    this.#onEvent(this.#contractName !== undefined ? { ...event, contractName: this.#contractName } as BenchmarkEvent : event);
+  }
+
+  /**
+   * Moves a function to its next phase, reporting the duration of the phase it leaves.
+   * @param progress - The progress of the function.
+   * @param phase - The next phase.
+   * @throws The timeout error if the function timed out, so a timed-out run never reaches its next phase, e.g. the send.
+   */
+  #setPhase(progress: ProgressTracker, phase: ProfilePhase) {
+    progress.signal?.throwIfAborted();
+    if (progress.done) return;
+    this.#endPhase(progress);
+    progress.phase = phase;
+    progress.phaseStart = performance.now();
+  }
+
+  /**
+   * Reports the duration of the current phase of a function, if it is timed.
+   * @param progress - The progress of the function.
+   */
+  #endPhase(progress: ProgressTracker) {
+    if (progress.phaseStart === undefined || progress.done) return;
+    const durationMs = Math.round(performance.now() - progress.phaseStart);
+    this.#emit({ type: 'phase', name: progress.name, phase: progress.phase, durationMs });
+    progress.phaseStart = undefined;
   }
 
   /**
@@ -56,170 +387,421 @@ export class Profiler {
    * @param fsToProfile - An array of items to profile.
    * @returns A promise that resolves to an array of profile results.
    */
-  async profile(fsToProfile: Array<ContractFunctionInteractionCallIntent | NamedBenchmarkedInteraction>): Promise<ProfileResult[]> {
+  async profile(fsToProfile: Array<BenchmarkedIntent | NamedBenchmarkedInteraction>): Promise<ProfileResult[]> {
     const results: ProfileResult[] = [];
-    for (const item of fsToProfile) {
+    for (const [index, item] of fsToProfile.entries()) {
       if ('interaction' in item && 'name' in item) {
         // This is a NamedBenchmarkedInteraction object
-        results.push(await this.#profileOne(item.interaction, item.name, item.additionalScopes));
+        results.push(await this.#profileOne(item, index));
       } else {
-        // This is a plain ContractFunctionInteractionCallIntent
-        results.push(await this.#profileOne(item as ContractFunctionInteractionCallIntent)); // Pass undefined for customName
+        // This is a plain interaction or deployment, its name is derived
+        results.push(await this.#profileOne({ interaction: item as BenchmarkedIntent }, index));
       }
     }
     return results;
   }
 
   /**
-   * Saves the profiling results to a JSON file.
+   * Saves the profiling results to a JSON file, and in any other configured format next to it.
    * If no results are provided, an empty report is saved.
    * @param results - An array of profile results to save.
-   * @param filename - The name of the file to save the results to.
+   * @param filename - The name of the JSON file to save the results to.
+   * @param extras - Optional report sections (e.g. provenance, budget violations) to include.
+   * @returns The saved report.
    */
-  async saveResults(results: ProfileResult[], filename: string) {
+  async saveResults(results: ProfileResult[], filename: string, extras: ReportExtras = {}): Promise<ProfileReport> {
     const systemInfo = getSystemInfo();
-
-    if (!results.length) {
-      console.log(`No results to save for ${filename}. Saving empty report.`);
-      fs.writeFileSync(
-        filename,
-        JSON.stringify({ summary: {}, results: [], gasSummary: {}, provingTimeSummary: {}, systemInfo } as ProfileReport, null, 2),
-      );
-      return;
-    }
-
-    const summary = results.reduce(
-      (acc, result) => ({
-        ...acc,
-        [result.name]: result.totalGateCount,
-      }),
-      {} as Record<string, number>,
-    );
-
-    const gasSummary = results.reduce(
-      (acc, result) => ({
-        ...acc,
-        [result.name]: result.gas
-          ? sumGas(result.gas.gasLimits) + sumGas(result.gas.teardownGasLimits)
-          : 0,
-      }),
-      {} as Record<string, number>,
-    );
-
-    const provingTimeSummary = results.reduce(
-      (acc, result) => ({
-        ...acc,
-        [result.name]: result.provingTime ?? 0,
-      }),
-      {} as Record<string, number>,
-    );
-
+    const { summary, gasSummary, provingTimeSummary } = summarizeResults(results);
     const report: ProfileReport = {
+      schemaVersion: SCHEMA_VERSION,
       summary,
       results: results,
       gasSummary,
       provingTimeSummary,
       systemInfo,
+      ...extras,
     };
 
-    console.log(`Saving results for ${results.length} methods in ${filename}`);
     try {
-      fs.writeFileSync(filename, JSON.stringify(report, null, 2));
+      this.#writeReport(report, filename);
     } catch (error: any) {
-      console.error(`Error writing results to ${filename}:`, error.message);
+      this.#emit(logEvent('error', `Error writing results to ${filename}: ${error.message}`));
       throw error;
     }
+    this.#emit({ type: 'report-saved', path: filename, methods: results.length });
+    return report;
   }
 
   /**
-   * Profiles a single contract function interaction.
-   * @param f - The contract function interaction to profile.
-   * @param customName - Optional user-defined name for this benchmark entry. If not provided, name is derived.
+   * Writes a report in every configured format.
+   * @param report - The report to write.
+   * @param filename - The name of the JSON file; other formats replace its `.json` extension.
+   */
+  #writeReport(report: ProfileReport, filename: string) {
+    const contractName = this.#contractName ?? path.basename(filename).replace(/\.benchmark\.json$|\.json$/, '');
+    writeReportFormats(report, filename, contractName, this.#formats);
+  }
+
+  /**
+   * Profiles a single contract function interaction, applying the per-method timeout,
+   * then runs the afterEach hook (outside the timeout).
+   * @param entry - The interaction to profile with its optional name, scopes and settings.
+   *                If no name is provided, it is derived from the interaction.
+   * @param index - Position of the entry in the profiled list, naming it if it fails before its name is derived.
    * @returns A promise that resolves to a profile result for the function.
-   *          Returns a result with FAILED in the name and zero counts/gas if profiling errors.
+   *          In continue-on-error mode, a failure resolves to a result with status `failed`.
    * @private
    */
-  async #profileOne(f: ContractFunctionInteractionCallIntent, customName?: string, additionalScopes?: AztecAddress[]): Promise<ProfileResult> {
-    let name: string;
-    if (customName) {
-      name = customName;
-    } else {
-      // Name discovery logic (reinstated)
+  async #profileOne(entry: BenchmarkEntry, index: number): Promise<ProfileResult> {
+    // Failures are reported under the position of the entry until its name is known, e.g. `entry #3`.
+    const progress: ProgressTracker = { name: entry.name ?? `entry #${index + 1}`, phase: 'request', beforeEachDone: false, done: false };
+    let result: ProfileResult | undefined;
+    let failure: any;
+    try {
+      result = await withTimeout(
+        signal => {
+          progress.signal = signal;
+          return this.#runEntry(entry, progress);
+        },
+        entry.timeout ?? this.#timeout,
+        error => this.#emit(logEvent('error', `Error in ${progress.name} after it timed out: ${error.message ?? error}`)),
+      );
+    } catch (error: any) {
+      failure = error;
+    }
+    this.#endPhase(progress);
+    progress.done = true;
+    let phase = progress.phase;
+
+    // afterEach restores the state for the next entry, so it also runs when this one failed.
+    if (this.#afterEach && progress.beforeEachDone) {
+      const start = performance.now();
       try {
-        const executionPayload = await f.action.request(); // Note: f.request() might be an issue if f is already a PxeSimoneResponse - check aztec.js docs
-        if (executionPayload.calls && executionPayload.calls.length > 0) {
-          const firstCall = executionPayload.calls[0];
-          // Attempt to get a meaningful name
-          name = firstCall?.name ?? firstCall?.selector?.toString() ?? 'unknown_function';
+        await this.#afterEach(progress.name);
+      } catch (error: any) {
+        if (failure === undefined) {
+          failure = error;
+          phase = 'afterEach';
         } else {
-          name = 'unknown_function_no_calls';
-          console.warn('No calls found in execution payload for name discovery.');
-        }
-      } catch (e: any) {
-        // Fallback if request() fails or doesn't yield a name
-        const potentialMethodName = (f as any).methodName; // methodName is not a standard prop, but might exist on some wrapped objects
-        if (potentialMethodName) {
-            name = potentialMethodName;
-            console.warn(`Could not simulate request for name discovery (${e.message}), using interaction.methodName as fallback: ${name}`);
-        } else {
-            name = 'unknown_function_request_failed';
-            console.warn(`Could not determine function name from request simulation: ${e.message}`);
+          this.#emit(logEvent('error', `Error in afterEach for ${progress.name}: ${error.message}`));
         }
       }
+      this.#emit({ type: 'phase', name: progress.name, phase: 'afterEach', durationMs: Math.round(performance.now() - start) });
     }
 
-    console.log(`Profiling ${name}...`);
+    if (failure === undefined) {
+      this.#emit({ type: 'result', result: result! });
+      return result!;
+    }
 
-    try {
-      const origin = f.caller;
+    const message = failure.message ?? String(failure);
+    this.#emit({
+      type: 'failure',
+      name: progress.name,
+      phase,
+      message,
+      ...(failure.stack && { stack: failure.stack }),
+      ...(failure.timedOut && { timedOut: true }),
+    });
+    if (!this.#continueOnError) throw failure;
+
+    const failed: ProfileResult = {
+      name: progress.name,
+      totalGateCount: 0,
+      gateCounts: [],
+      status: 'failed',
+      error: {
+        phase,
+        message,
+        ...(failure.timedOut && { timedOut: true }),
+      },
+    };
+    this.#emit({ type: 'result', result: failed });
+    return failed;
+  }
+
+  /**
+   * Derives the name of an interaction, runs the beforeEach hook, builds a lazy interaction, measures it and sends the tx.
+   * Runs `warmup` discarded measurements followed by `runs` measured ones, then sends the tx once, as set by the send mode.
+   * @param entry - The interaction to profile with its optional name, scopes and sampling settings.
+   * @param progress - Updated with the resolved name and the phase being executed.
+   * @returns A promise that resolves to a profile result for the function.
+   * @private
+   */
+  async #runEntry(entry: BenchmarkEntry, progress: ProgressTracker): Promise<ProfileResult> {
+    const { interaction, additionalScopes } = entry;
+    // Only plain interactions come without a name, and those are never factories.
+    const name = entry.name ?? (await getInteractionName(interaction as BenchmarkedIntent));
+    progress.name = name;
+
+    const runs = entry.runs ?? this.#runs;
+    const warmup = entry.warmup ?? this.#warmup;
+    validateRuns(runs, warmup, `the settings of ${name}`);
+    this.#emit({ type: 'method-start', name, runs, warmup });
+
+    this.#setPhase(progress, 'beforeEach');
+    await this.#beforeEach?.(name);
+    progress.beforeEachDone = true;
+
+    // Lazy interactions are built now, against the state left by the previous entries and beforeEach.
+    // Deployments and batches are then wrapped to be simulated, profiled and sent like function interactions.
+    this.#setPhase(progress, 'request');
+    const built = typeof interaction === 'function' ? await interaction() : interaction;
+    const f = 'batch' in built ? toBatchCallIntent(built, this.#wallet) : toCallIntent(built);
+    const callNames = 'batch' in built ? await getBatchCallNames(built) : undefined;
+
+    const origin = f.caller;
+
+    const feeOpts = this.#feePaymentMethod
+      ? { paymentMethod: this.#feePaymentMethod }
+      : undefined;
+
+    for (let i = 0; i < warmup; i++) {
+      await this.#measure(f, additionalScopes, feeOpts, progress);
+    }
+    const measurements: Measurement[] = [];
+    for (let i = 0; i < runs; i++) {
+      measurements.push(await this.#measure(f, additionalScopes, feeOpts, progress));
+    }
+    // Each call of a batch is also profiled on its own, against the same state, to compare with separate txs.
+    const separate = 'batch' in built ? await this.#measureCalls(built, additionalScopes, feeOpts, progress) : undefined;
+
+    const sendMode = entry.sendMode ?? this.#sendMode;
+    this.#setPhase(progress, 'send');
+    let fee: string | undefined;
+    let inclusion: InclusionTimings | undefined;
+    if (sendMode === 'send') {
+      // Sending proves the tx again, and send() waits for it to be mined.
+      const { receipt } = await f.action.send({ from: origin, additionalScopes, fee: feeOpts });
+      fee = receipt.transactionFee?.toString();
+    } else if (sendMode === 'send-and-wait') {
+      ({ fee, inclusion } = await this.#sendAndWait(f, additionalScopes, feeOpts, progress));
+    }
+
+    const samples: ProfileSample[] = measurements.map(m => ({
+      totalGateCount: sumArray(m.gateCounts.map(c => c.gateCount)),
+      gas: m.gas,
+      witgenMs: m.gateCounts.some(c => c.witgenMs !== undefined)
+        ? sumArray(m.gateCounts.map(c => c.witgenMs ?? 0))
+        : undefined,
+      provingTime: m.provingTime,
+      resources: m.resources,
+    }));
+    const [first] = measurements;
+    const provingTimes = samples.map(s => s.provingTime).filter((t): t is number => t !== undefined);
+    const witgenTimes = samples.map(s => s.witgenMs).filter((t): t is number => t !== undefined);
+
+    const result: ProfileResult = {
+      name,
+      totalGateCount: samples[0].totalGateCount,
+      // Circuits are identical across runs, only their witgen time varies.
+      gateCounts: first.gateCounts.map((circuit, idx) => ({
+        ...circuit,
+        witgenMs: circuit.witgenMs !== undefined
+          ? median(measurements.map(m => m.gateCounts[idx]?.witgenMs ?? circuit.witgenMs!))
+          : undefined,
+      })),
+      gas: first.gas,
+      // The receipt only carries the fee paid, so the gas used per phase and the side effects are those simulated
+      // against the state the tx is sent into: measuring does not change the state.
+      simulatedGasUsed: first.gasUsed,
+      sideEffects: first.sideEffects,
+      fee,
+      provingTime: provingTimes.length > 0 ? median(provingTimes) : undefined,
+      resources: medianResources(measurements.map(m => m.resources)),
+      status: 'success',
+    };
+    if (inclusion) {
+      result.inclusion = { ...inclusion, ...(result.provingTime !== undefined && { timeToProof: result.provingTime }) };
+    }
+    if (callNames) {
+      const cost: BatchCost = {
+        gates: result.totalGateCount,
+        daGas: result.gas?.gasLimits?.daGas,
+        l2Gas: result.gas?.gasLimits?.l2Gas,
+        provingTime: result.provingTime,
+      };
+      const { gateCounts, breakdown } = buildBatchBreakdown(result.gateCounts, callNames, cost, separate);
+      result.gateCounts = gateCounts;
+      result.batch = breakdown;
+    }
+    if (runs > 1) {
+      result.samples = samples;
+      result.stats = {
+        provingTime: provingTimes.length > 0 ? computeStats(provingTimes) : undefined,
+        witgenMs: witgenTimes.length > 0 ? computeStats(witgenTimes) : undefined,
+      };
+    }
 
-      const feeOpts = this.#feePaymentMethod
-        ? { paymentMethod: this.#feePaymentMethod }
-        : undefined;
+    return result;
+  }
+
+  /**
+   * Sends a tx without letting the wallet wait for it, then waits for its receipt through the node.
+   * @param f - The contract function interaction to send.
+   * @param additionalScopes - Extra addresses whose private state is accessible during execution.
+   * @param feeOpts - Fee options used when sending the tx.
+   * @param progress - Updated with the phase being executed.
+   * @returns The fee paid and the time taken to submit and mine the tx; the proving time is added by the caller.
+   * @throws If the context has no node, or the tx was dropped or reverted.
+   * @private
+   */
+  async #sendAndWait(
+    f: ProfiledCall,
+    additionalScopes: AztecAddress[] | undefined,
+    feeOpts: { paymentMethod: FeePaymentMethod } | undefined,
+    progress: ProgressTracker,
+  ): Promise<{ fee?: string; inclusion: InclusionTimings }> {
+    if (!this.#node) throw new Error(`The send-and-wait send mode requires a 'node' in the benchmark context.`);
+
+    const start = performance.now();
+    // With NO_WAIT the wallet returns once the node accepted the proven tx.
+    const { txHash } = await f.action.send({ from: f.caller, additionalScopes, fee: feeOpts, wait: NO_WAIT });
+    const timeToSubmit = Math.round(performance.now() - start);
+
+    this.#setPhase(progress, 'wait');
+    // Reverts are reported below with a clearer message than the one waitForTx throws.
+    const receipt = await waitForTx(this.#node, txHash, { dontThrowOnRevert: true });
+    const timeToMined = Math.round(performance.now() - start);
+    if (!receipt.hasExecutionSucceeded()) {
+      throw new Error(
+        `Transaction ${txHash.toString()} was mined but reverted (${receipt.executionResult}): ${receipt.error ?? 'no reason given'}`,
+      );
+    }
+
+    return {
+      fee: receipt.transactionFee?.toString(),
+      inclusion: {
+        txHash: txHash.toString(),
+        ...(receipt.blockNumber !== undefined && { blockNumber: Number(receipt.blockNumber) }),
+        timeToSubmit,
+        timeToMined,
+      },
+    };
+  }
+
+  /**
+   * Profiles each call of a batch as a transaction of its own, without sending it.
+   * A call may depend on the ones before it in the batch, so failures are not fatal.
+   * @param batch - The batch.
+   * @param additionalScopes - Extra addresses whose private state is accessible during execution.
+   * @param feeOpts - Fee options passed to the simulation and profiling calls.
+   * @param progress - Updated with the phase being executed.
+   * @returns The cost of each call, or undefined if a call cannot be profiled alone.
+   * @private
+   */
+  async #measureCalls(
+    batch: BatchIntent,
+    additionalScopes: AztecAddress[] | undefined,
+    feeOpts: { paymentMethod: FeePaymentMethod } | undefined,
+    progress: ProgressTracker,
+  ): Promise<BatchCost[] | undefined> {
+    const costs: BatchCost[] = [];
+    for (const action of batch.batch) {
+      try {
+        const m = await this.#measure({ caller: batch.caller, action }, additionalScopes, feeOpts, progress);
+        costs.push({
+          gates: sumArray(m.gateCounts.map(c => c.gateCount)),
+          daGas: m.gas?.gasLimits?.daGas,
+          l2Gas: m.gas?.gasLimits?.l2Gas,
+          provingTime: m.provingTime,
+        });
+      } catch (error: any) {
+        if (progress.signal?.aborted) throw error;
+        this.#emit(logEvent('warn', `Could not profile a call of ${progress.name} on its own (${error.message}); its batch overhead is not reported.`));
+        return undefined;
+      }
+    }
+    return costs;
+  }
 
-      // Gas simulated is 10% higher by default, we set the padding to 0 to get a better estimate.
-      const simResult = await f.action.simulate({ from: origin, additionalScopes, includeMetadata: true, fee: { estimateGas: true, estimatedGasPadding: 0, ...feeOpts } });
-      const gas: GasLimits | undefined = simResult.estimatedGas;
-      // Profile the tx to get gate counts and optionally proving time.
-      const profileResults = await f.action.profile({
+  /**
+   * Simulates an interaction to estimate its gas limits without padding.
+   * With a wallet the tx is simulated through it, as the interaction's own simulation does, because the wallet
+   * result also holds the public and billed gas and the tx effect.
+   * @param f - The contract function interaction to simulate.
+   * @param additionalScopes - Extra addresses whose private state is accessible during execution.
+   * @param feeOpts - Fee options used when sending the tx.
+   * @returns The estimated gas and, with a wallet, the gas used per phase and the side effects.
+   * @private
+   */
+  async #simulate(
+    f: ProfiledCall,
+    additionalScopes: AztecAddress[] | undefined,
+    feeOpts: { paymentMethod: FeePaymentMethod } | undefined,
+  ): Promise<Pick<Measurement, 'gas' | 'gasUsed' | 'sideEffects'>> {
+    // Gas simulated is 10% higher by default, we set the padding to 0 to get a better estimate.
+    const fee = { estimateGas: true, estimatedGasPadding: 0, ...feeOpts };
+    if (!this.#wallet) {
+      const simResult = await f.action.simulate({ from: f.caller, additionalScopes, includeMetadata: true, fee });
+      return { gas: simResult.estimatedGas };
+    }
+
+    const payload = await f.action.request({ fee: feeOpts });
+    const simulatedTx = await this.#wallet.simulateTx(payload, toSimulateOptions({ from: f.caller, additionalScopes, fee }));
+    const { gasUsed } = simulatedTx;
+    return {
+      // Without padding, the estimated limits are the total and teardown gas used.
+      gas: { gasLimits: toGas(gasUsed.totalGas), teardownGasLimits: toGas(gasUsed.teardownGas) },
+      // Public gas includes the teardown gas, total gas includes both private and public gas.
+      gasUsed: {
+        privateExecution: subGas(gasUsed.totalGas, gasUsed.publicGas),
+        publicSetupAndAppLogic: subGas(gasUsed.publicGas, gasUsed.teardownGas),
+        teardown: toGas(gasUsed.teardownGas),
+        total: toGas(gasUsed.totalGas),
+        billed: toGas(gasUsed.billedGas),
+      },
+      sideEffects: getSideEffects(simulatedTx),
+    };
+  }
+
+  /**
+   * Simulates and profiles an interaction once, without sending it.
+   * @param f - The contract function interaction to measure.
+   * @param additionalScopes - Extra addresses whose private state is accessible during execution.
+   * @param feeOpts - Fee options passed to the simulation and profiling calls.
+   * @param progress - Updated with the phase being executed.
+   * @returns The estimated gas, (with a wallet) the gas used and side effects, per-circuit gate counts,
+   *          (if enabled) proving time and the resources used by profiling.
+   * @private
+   */
+  async #measure(
+    f: ProfiledCall,
+    additionalScopes: AztecAddress[] | undefined,
+    feeOpts: { paymentMethod: FeePaymentMethod } | undefined,
+    progress: ProgressTracker,
+  ): Promise<Measurement> {
+    const origin = f.caller;
+
+    this.#setPhase(progress, 'simulate');
+    const simulated = await this.#simulate(f, additionalScopes, feeOpts);
+    // Profile the tx to get gate counts and optionally proving time, sampling the resources it uses.
+    this.#setPhase(progress, 'profile');
+    const sampler = new ResourceSampler();
+    sampler.start();
+    let resources: ResourceUsage;
+    let profileResults: Awaited<ReturnType<typeof f.action.profile>>;
+    try {
+      profileResults = await f.action.profile({
         profileMode: 'full',
         from: origin,
         additionalScopes,
         skipProofGeneration: this.#skipProving,
         fee: feeOpts,
       });
-
-      const provingTime = !this.#skipProving
-        ? profileResults.stats?.timings?.proving
-        : undefined;
-
-      // Send the tx (this proves again internally).
-      await f.action.send({ from: origin, additionalScopes, fee: feeOpts });
-
-      const result: ProfileResult = {
-        name,
-        totalGateCount: sumArray(
-          profileResults.executionSteps
-            .map(step => step.gateCount)
-            .filter((count): count is number => count !== undefined),
-        ),
-        gateCounts: profileResults.executionSteps.map(step => ({
-          circuitName: step.functionName,
-          gateCount: step.gateCount || 0,
-          witgenMs: step.timings?.witgen,
-        })),
-        gas,
-        provingTime,
-      };
-
-      const daGas = gas?.gasLimits?.daGas ?? 'N/A';
-      const l2Gas = gas?.gasLimits?.l2Gas ?? 'N/A';
-      const provingDisplay = provingTime !== undefined ? `${provingTime}ms` : 'skipped';
-      console.log(` -> ${name}: ${result.totalGateCount} gates, Gas (DA: ${daGas}, L2: ${l2Gas}), Proving: ${provingDisplay}`);
-      return result;
-    } catch (error: any) {
-      console.error(`Error profiling ${name}:`, error.message);
-      throw error;
+    } finally {
+      resources = sampler.stop();
     }
+
+    return {
+      ...simulated,
+      gateCounts: profileResults.executionSteps.map(step => ({
+        circuitName: step.functionName,
+        gateCount: step.gateCount || 0,
+        witgenMs: step.timings?.witgen,
+      })),
+      provingTime: !this.#skipProving ? profileResults.stats?.timings?.proving : undefined,
+      resources,
+    };
   }
 } 
@@ -0,0 +1,88 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Provenance, ReportConfig, RunFlags } from './types.js';
+
+/** Aztec packages whose installed versions are recorded in reports */
+const TRACKED_PACKAGES = ['@aztec/aztec.js', '@aztec/wallets'];
+
+/** package.json of aztec-benchmark itself, one level above `cli/` and `dist/` */
+const OWN_PACKAGE_JSON = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../package.json');
+
+/**
+ * Reads and parses a package.json file.
+ * @param filePath - Path to the package.json.
+ * @returns The parsed file, or undefined if it cannot be read.
+ */
+function readPackageJson(filePath: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Runs a git command in the working directory.
+ * @param args - The git arguments.
+ * @returns The trimmed output, or undefined if git is unavailable or the directory is not a checkout.
+ */
+function git(args: string[]): string | undefined {
+  try {
+    return execFileSync('git', args, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Collects the versions of the Aztec packages installed in the benchmarked project.
+ * @param projectDir - Directory whose node_modules is searched.
+ * @returns Versions keyed by package name; packages that are not installed are omitted.
+ */
+function getInstalledPackages(projectDir: string): Record<string, string> {
+  const packages: Record<string, string> = {};
+  for (const name of TRACKED_PACKAGES) {
+    const version = readPackageJson(path.join(projectDir, 'node_modules', name, 'package.json'))?.version;
+    if (typeof version === 'string') packages[name] = version;
+  }
+  return packages;
+}
+
+/**
+ * Returns the branch checked out in the working directory.
+ * @returns The branch name, falling back to the GitHub Actions ref name, or undefined on a detached HEAD outside CI.
+ */
+export function getGitBranch(): string | undefined {
+  const branch = git(['rev-parse', '--abbrev-ref', 'HEAD']);
+  if (branch && branch !== 'HEAD') return branch;
+  return process.env.GITHUB_HEAD_REF || process.env.GITHUB_REF_NAME || undefined;
+}
+
+/**
+ * Collects where and how the current run is produced, for inclusion in every report.
+ * Missing information (no git checkout, no installed Aztec packages) is left out rather than failing.
+ * @param flags - The CLI flags that affect the measured values.
+ * @param config - The effective configuration of the run.
+ * @returns The provenance of the run.
+ */
+export function getProvenance(flags: RunFlags, config?: ReportConfig): Provenance {
+  const ownPackage = readPackageJson(OWN_PACKAGE_JSON);
+  const packages = getInstalledPackages(process.cwd());
+
+  const gitCommit = git(['rev-parse', 'HEAD']) || process.env.GITHUB_SHA;
+  const gitStatus = git(['status', '--porcelain']);
+
+  return {
+    timestamp: new Date().toISOString(),
+    ...(gitCommit && { gitCommit }),
+    ...(gitStatus !== undefined && { gitDirty: gitStatus.length > 0 }),
+    cliVersion: ownPackage?.version ?? 'unknown',
+    aztecVersion: packages['@aztec/aztec.js'] ?? ownPackage?.config?.aztecVersion,
+    ...(Object.keys(packages).length > 0 && { packages }),
+    nodeVersion: process.version,
+    flags,
+    ...(config && { config }),
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Report format versioning: loading, upgrading and validating `*.benchmark.json` files.
+ *
+ * Like `comparison.cts`, this module is compiled to CommonJS so the GitHub Action
+ * can use it. Reports are validated against the JSON Schema in `profileReportSchema.cts`,
+ * which is published as `schema/profile-report.schema.json`.
+ */
+import fs from 'node:fs';
+import { PROFILE_REPORT_SCHEMA, type JsonSchema } from './profileReportSchema.cjs';
+import type { ProfileReport, ProfileResult, SystemInfo } from './types.js';
+
+/** Version of the report format written by this package */
+export const SCHEMA_VERSION = 2;
+
+/** Values used for system info fields missing from old reports */
+const UNKNOWN_SYSTEM_INFO: SystemInfo = { cpuModel: 'N/A', cpuCores: 0, totalMemoryGiB: 0, arch: 'N/A' };
+
+/**
+ * Returns the JSON type name of a value as used by JSON Schema.
+ * @param value - Any parsed JSON value.
+ * @returns One of null, array, integer, number, string, boolean, object.
+ */
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Validates a value against a schema node, collecting errors.
+ * @param value - The value to validate.
+ * @param schema - The schema node.
+ * @param root - The root schema, used to resolve `#/$defs/...` references.
+ * @param at - JSON path of the value, used in error messages.
+ * @param errors - Collected error messages.
+ */
+function validateNode(value: unknown, schema: JsonSchema, root: JsonSchema, at: string, errors: string[]) {
+  if (schema.$ref) {
+    const defName = schema.$ref.replace('#/$defs/', '');
+    return validateNode(value, root.$defs![defName], root, at, errors);
+  }
+
+  const actualType = jsonType(value);
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed.includes(actualType) || (actualType === 'integer' && allowed.includes('number'));
+    if (!matches) {
+      errors.push(`${at}: expected ${allowed.join(' or ')}, got ${actualType}`);
+      return;
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${at}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    errors.push(`${at}: must be >= ${schema.minimum}`);
+  }
+  if (schema.pattern !== undefined && typeof value === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+    errors.push(`${at}: must match ${schema.pattern}`);
+  }
+
+  if (actualType === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => validateNode(item, schema.items!, root, `${at}[${i}]`, errors));
+  }
+
+  if (actualType === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) errors.push(`${at}: missing required property "${key}"`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateNode(child, propertySchema, root, `${at}.${key}`, errors);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(child, schema.additionalProperties, root, `${at}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Validates a report against the published JSON Schema.
+ * Unknown properties are allowed so that reports with newer optional fields still validate.
+ * @param report - The parsed report.
+ * @returns The validation errors, empty if the report is valid.
+ */
+export function validateReport(report: unknown): string[] {
+  const errors: string[] = [];
+  validateNode(report, PROFILE_REPORT_SCHEMA, PROFILE_REPORT_SCHEMA, '$', errors);
+  return errors;
+}
+
+/**
+ * Returns the schema version of a parsed report.
+ * @param report - The parsed report.
+ * @returns The declared version, or 1 for reports written before versioning.
+ */
+export function getSchemaVersion(report: any): number {
+  return typeof report?.schemaVersion === 'number' ? report.schemaVersion : 1;
+}
+
+/**
+ * Builds a summary keyed by function name from the results of an old report.
+ * @param results - The report results.
+ * @param read - Reads the summarized value of a result.
+ * @returns The summary record.
+ */
+function summarize(results: ProfileResult[], read: (result: ProfileResult) => number): Record<string, number> {
+  return Object.fromEntries(results.map(result => [result.name, read(result)]));
+}
+
+/**
+ * Upgrades a parsed report to the current schema version.
+ * Version 1 reports (no `schemaVersion`) may lack `systemInfo`, the summaries, and
+ * per-circuit `gateCounts`; missing values are filled with neutral defaults.
+ * @param report - The parsed report.
+ * @returns The report in the current format.
+ * @throws If the report was written by a newer, unsupported version or has no results array.
+ */
+export function upgradeReport(report: any): ProfileReport {
+  if (!report || typeof report !== 'object' || !Array.isArray(report.results)) {
+    throw new Error('Invalid JSON structure (missing results array)');
+  }
+  const version = getSchemaVersion(report);
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Report schema version ${version} is newer than the supported version ${SCHEMA_VERSION}; upgrade aztec-benchmark`);
+  }
+  if (version === SCHEMA_VERSION) return report as ProfileReport;
+
+  const results: ProfileResult[] = report.results.map((result: any) => ({
+    ...result,
+    totalGateCount: result.totalGateCount ?? 0,
+    gateCounts: Array.isArray(result.gateCounts) ? result.gateCounts : [],
+  }));
+  return {
+    ...report,
+    schemaVersion: SCHEMA_VERSION,
+    results,
+    summary: report.summary ?? summarize(results, r => r.totalGateCount),
+    gasSummary: report.gasSummary ?? summarize(results, r =>
+      (r.gas?.gasLimits?.daGas ?? 0) + (r.gas?.gasLimits?.l2Gas ?? 0) +
+      (r.gas?.teardownGasLimits?.daGas ?? 0) + (r.gas?.teardownGasLimits?.l2Gas ?? 0)),
+    provingTimeSummary: report.provingTimeSummary ?? summarize(results, r => r.provingTime ?? 0),
+    systemInfo: { ...UNKNOWN_SYSTEM_INFO, ...report.systemInfo },
+  };
+}
+
+/**
+ * Reads a report file and upgrades it to the current schema version.
+ * @param filePath - Path to a `*.benchmark.json` file.
+ * @returns The report in the current format.
+ * @throws If the file cannot be read, is not valid JSON or cannot be upgraded.
+ */
+export function loadReport(filePath: string): ProfileReport {
+  try {
+    return upgradeReport(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+  } catch (error: any) {
+    throw new Error(`${filePath}: ${error.message}`);
+  }
+}
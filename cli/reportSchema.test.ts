@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { PROFILE_REPORT_SCHEMA } from './profileReportSchema.cjs';
+import { SCHEMA_VERSION, upgradeReport, validateReport } from './reportSchema.cjs';
+
+const ROOT_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+/**
+ * Reads a JSON file of the repository.
+ * @param relativePath - Path relative to the repository root.
+ * @returns The parsed JSON.
+ */
+function readJson(relativePath: string): any {
+  return JSON.parse(fs.readFileSync(path.join(ROOT_DIR, relativePath), 'utf-8'));
+}
+
+describe('report schema', () => {
+  it('matches the published JSON Schema', () => {
+    assert.deepEqual(readJson('schema/profile-report.schema.json'), PROFILE_REPORT_SCHEMA);
+  });
+
+  it('accepts the fixture reports', () => {
+    for (const fixture of ['token_base', 'token_latest']) {
+      assert.deepEqual(validateReport(readJson(`cli/fixtures/${fixture}.benchmark.json`)), [], fixture);
+    }
+  });
+
+  it('reports where a report breaks the schema', () => {
+    const report = { ...readJson('cli/fixtures/token_base.benchmark.json'), results: [{ name: 'transfer', totalGateCount: '1' }] };
+
+    assert.deepEqual(validateReport(report), [
+      '$.results[0]: missing required property "gateCounts"',
+      '$.results[0].totalGateCount: expected number, got string',
+    ]);
+  });
+
+  it('upgrades a version 1 report to one that validates', () => {
+    const gas = { gasLimits: { daGas: 10, l2Gas: 20 }, teardownGasLimits: { daGas: 0, l2Gas: 5 } };
+    const v1 = { results: [{ name: 'transfer', totalGateCount: 1_000, gas }] };
+
+    const upgraded = upgradeReport(v1);
+
+    assert.equal(upgraded.schemaVersion, SCHEMA_VERSION);
+    assert.deepEqual(upgraded.gasSummary, { transfer: 35 });
+    assert.deepEqual(validateReport(upgraded), []);
+  });
+
+  it('rejects reports of a newer version', () => {
+    assert.throws(() => upgradeReport({ schemaVersion: SCHEMA_VERSION + 1, results: [] }), /newer than the supported version/);
+  });
+});
@@ -0,0 +1,188 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import type { BenchmarkEvent, Reporter } from './events.js';
+import { ConsoleReporter, EventDispatcher, GithubReporter, loadReporters, NdjsonReporter } from './reporters.js';
+import type { ReportConfig } from './types.js';
+
+const CONFIG: ReportConfig = { settings: { runs: 1, skipProving: true } };
+
+const SUMMARY = { contractName: 'token', failed: false, failedMethods: 0, budgetViolations: 0 };
+
+/**
+ * Captures what is written to stdout while running a function.
+ * @param fn - The function.
+ * @returns The written text.
+ */
+function captureStdout(fn: () => void): string {
+  const chunks: string[] = [];
+  const write = mock.method(process.stdout, 'write', (chunk: string) => {
+    chunks.push(chunk);
+    return true;
+  });
+  try {
+    fn();
+  } finally {
+    write.mock.restore();
+  }
+  return chunks.join('');
+}
+
+describe('ConsoleReporter', () => {
+  let lines: string[];
+  beforeEach(() => {
+    lines = [];
+    for (const method of ['log', 'warn', 'error'] as const) {
+      mock.method(console, method, (text: string) => void lines.push(`${method}: ${text}`));
+    }
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('prints the progress and outcome of a run', () => {
+    const reporter = new ConsoleReporter();
+    const events: BenchmarkEvent[] = [
+      { type: 'run-start', config: CONFIG, contracts: ['token'], concurrency: 1 },
+      { type: 'method-start', contractName: 'token', name: 'transfer', runs: 3, warmup: 1 },
+      { type: 'phase', contractName: 'token', name: 'transfer', phase: 'simulate', durationMs: 12 },
+      { type: 'failure', contractName: 'token', name: 'transfer', phase: 'simulate', message: 'Assertion failed' },
+      {
+        type: 'budget-exceeded',
+        contractName: 'token',
+        violations: [{ name: 'mint', metric: 'gates', limit: 100, actual: 120 }],
+      },
+      { type: 'run-end', summaries: [{ ...SUMMARY, budgetViolations: 1 }], durationMs: 1_000 },
+    ];
+
+    for (const event of events) reporter.onEvent(event);
+
+    assert.deepEqual(lines, [
+      'log: Effective configuration:\n  runs: 1\n  skipProving: true\nFound 1 benchmark(s) to run: token',
+      'log: Profiling transfer... (1 warmup, 3 runs)',
+      'error: Error profiling transfer (simulate): Assertion failed',
+      `error: Budget exceeded for 1 limit(s) in token:\n -> mint: gates 120 exceeds budget of 100 (+20.0%)`,
+      'error: All specified benchmarks completed, but 1 budget limit(s) were exceeded.',
+    ]);
+  });
+
+  it('prefixes every line with its contract when contracts run at the same time', () => {
+    const reporter = new ConsoleReporter();
+
+    reporter.onEvent({ type: 'run-start', config: CONFIG, contracts: ['token', 'amm'], concurrency: 2 });
+    lines = [];
+    reporter.onEvent({ type: 'contract-start', contractName: 'amm', benchmarkFile: '/b/amm.benchmark.ts', outputPath: '/r/amm.benchmark.json' });
+    reporter.onEvent({ type: 'contract-end', contractName: 'amm', summary: { ...SUMMARY, contractName: 'amm' }, durationMs: 10 });
+
+    assert.deepEqual(lines, [
+      'log: [amm] --- Running benchmark for amm ---\n[amm]  -> Benchmark file: /b/amm.benchmark.ts\n[amm]  -> Output report: /r/amm.benchmark.json',
+      'log: [amm] --- Benchmark finished for amm ---',
+    ]);
+  });
+});
+
+describe('GithubReporter', () => {
+  it('annotates the benchmark file of a contract with its failures and exceeded budgets', () => {
+    const reporter = new GithubReporter();
+    const benchmarkFile = path.join(process.cwd(), 'benchmarks', 'token.benchmark.ts');
+
+    const output = captureStdout(() => {
+      reporter.onEvent({ type: 'contract-start', contractName: 'token', benchmarkFile, outputPath: '/r/token.benchmark.json' });
+      reporter.onEvent({ type: 'failure', contractName: 'token', name: 'transfer', phase: 'send', message: 'Tx dropped: 50% fee\nretry' });
+      reporter.onEvent({
+        type: 'budget-exceeded',
+        contractName: 'token',
+        violations: [{ name: 'mint', metric: 'gates', limit: 100, actual: 120 }],
+      });
+      reporter.onEvent({ type: 'log', level: 'info', contractName: 'token', message: 'Profiling 2 methods for token...' });
+    });
+
+    assert.equal(
+      output,
+      '::error file=benchmarks/token.benchmark.ts,title=token%3A transfer failed (send)::Tx dropped: 50%25 fee%0Aretry\n' +
+        '::error file=benchmarks/token.benchmark.ts,title=Budget exceeded in token::mint: gates 120 exceeds budget of 100 (+20.0%25)\n',
+    );
+  });
+});
+
+describe('NdjsonReporter', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporters-'));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('writes every event as a timestamped line of JSON', () => {
+    const file = path.join(dir, 'events', 'run.ndjson');
+    const reporter = new NdjsonReporter(file);
+    const events: BenchmarkEvent[] = [
+      { type: 'setup-start', contractName: 'token' },
+      { type: 'setup-end', contractName: 'token', durationMs: 1_500 },
+    ];
+
+    for (const event of events) reporter.onEvent(event);
+
+    const lines = fs.readFileSync(file, 'utf-8').trimEnd().split('\n').map(line => JSON.parse(line));
+    assert.deepEqual(lines.map(({ time, ...event }) => event), events);
+    assert.ok(lines.every(line => !isNaN(Date.parse(line.time))));
+  });
+});
+
+describe('loadReporters', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporters-'));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('creates built-in reporters, imports reporter modules and keeps reporter objects', async () => {
+    const file = path.join(dir, 'custom.reporter.mjs');
+    fs.writeFileSync(file, 'export default class CustomReporter { onEvent() {} }\n');
+    const own: Reporter = { onEvent: () => {} };
+
+    const reporters = await loadReporters(['console', file, own]);
+
+    assert.ok(reporters[0] instanceof ConsoleReporter);
+    assert.equal(reporters[1].constructor.name, 'CustomReporter');
+    assert.equal(reporters[2], own);
+  });
+
+  it('rejects unknown reporters and modules without a reporter', async () => {
+    const file = path.join(dir, 'empty.mjs');
+    fs.writeFileSync(file, 'export default {};\n');
+
+    await assert.rejects(loadReporters(['junit']), /Unknown reporter junit; expected one of console, ndjson, github/);
+    await assert.rejects(loadReporters([file]), /must export a reporter/);
+  });
+});
+
+describe('EventDispatcher', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('delivers events in order, waiting for async reporters, and survives failing reporters', async () => {
+    const received: string[] = [];
+    const slow: Reporter = {
+      onEvent: async event => {
+        await sleep(event.type === 'setup-start' ? 20 : 0);
+        received.push(event.type);
+      },
+    };
+    const failing: Reporter = {
+      onEvent: () => {
+        throw new Error('boom');
+      },
+    };
+    const error = mock.method(console, 'error', () => {});
+    const dispatcher = new EventDispatcher([slow, failing]);
+
+    dispatcher.emit({ type: 'setup-start', contractName: 'token' });
+    dispatcher.emit({ type: 'setup-end', contractName: 'token', durationMs: 20 });
+    await dispatcher.flush();
+
+    assert.deepEqual(received, ['setup-start', 'setup-end']);
+    assert.equal(error.mock.callCount(), 2);
+    assert.match(error.mock.calls[0].arguments[0], /Reporter failed on a setup-start event: boom/);
+  });
+});
@@ -0,0 +1,345 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { describeBatch } from './batch.js';
+import { formatViolation } from './budgets.js';
+import { isReporter, type BenchmarkEvent, type EventListener, type Reporter } from './events.js';
+import type { ProfileResult } from './types.js';
+
+/** Names of the built-in reporters */
+export const BUILTIN_REPORTERS = ['console', 'ndjson', 'github'] as const;
+
+/** A built-in reporter */
+export type BuiltinReporter = (typeof BUILTIN_REPORTERS)[number];
+
+/** Options of the built-in reporters */
+export interface ReporterOptions {
+  /** File the `ndjson` reporter writes to; defaults to stdout. */
+  ndjsonOutput?: string;
+}
+
+/**
+ * Describes a successful result on the lines printed below its method.
+ * @param result - The result.
+ * @returns The lines.
+ */
+function describeResult(result: ProfileResult): string[] {
+  const runs = result.samples?.length ?? 1;
+  const daGas = result.gas?.gasLimits?.daGas ?? 'N/A';
+  const l2Gas = result.gas?.gasLimits?.l2Gas ?? 'N/A';
+  const teardownDaGas = result.gas?.teardownGasLimits?.daGas ?? 'N/A';
+  const teardownL2Gas = result.gas?.teardownGasLimits?.l2Gas ?? 'N/A';
+  const provingDisplay = result.provingTime !== undefined
+    ? `${result.provingTime}ms${runs > 1 ? ` (median of ${runs})` : ''}`
+    : 'skipped';
+  const lines = [
+    ` -> ${result.name}: ${result.totalGateCount} gates, Gas (DA: ${daGas}, L2: ${l2Gas}), ` +
+      `Teardown gas (DA: ${teardownDaGas}, L2: ${teardownL2Gas}), Fee: ${result.fee ?? 'N/A'}, Proving: ${provingDisplay}`,
+  ];
+  if (result.resources) {
+    const { peakRssMiB, peakHeapUsedMiB, cpuUserMs, cpuSystemMs } = result.resources;
+    lines.push(
+      `    resources: peak RSS ${peakRssMiB.toLocaleString()} MiB, peak heap ${peakHeapUsedMiB.toLocaleString()} MiB, ` +
+        `CPU ${cpuUserMs.toLocaleString()}ms user + ${cpuSystemMs.toLocaleString()}ms system`,
+    );
+  }
+  if (result.batch) lines.push(`    batch: ${describeBatch(result.batch)}`);
+  if (result.inclusion) {
+    const { timeToProof, timeToSubmit, timeToMined, blockNumber } = result.inclusion;
+    lines.push(
+      `    inclusion: proof ${timeToProof !== undefined ? `${timeToProof}ms` : 'skipped'}, submitted after ${timeToSubmit}ms, ` +
+        `mined after ${timeToMined}ms${blockNumber !== undefined ? ` in block ${blockNumber}` : ''}`,
+    );
+  }
+  return lines;
+}
+
+/**
+ * Prints the progress of a run to the console, as the CLI always has.
+ * With several contracts run at the same time, each line is prefixed with its contract name.
+ */
+export class ConsoleReporter implements Reporter {
+  #prefixLines = false;
+  #continueOnError = false;
+
+  /**
+   * Prints an event.
+   * @param event - The event.
+   */
+  onEvent(event: BenchmarkEvent) {
+    const contractName = 'contractName' in event ? event.contractName : undefined;
+    const log = (...lines: string[]) => this.#print('log', contractName, lines);
+    const error = (...lines: string[]) => this.#print('error', contractName, lines);
+
+    switch (event.type) {
+      case 'run-start': {
+        const { config } = event;
+        this.#prefixLines = event.concurrency > 1;
+        this.#continueOnError = !!config.settings.continueOnError;
+        log(
+          `Effective configuration${config.file ? ` (${config.file}${config.profile ? `, profile ${config.profile}` : ''})` : ''}:`,
+          ...Object.entries(config.settings).map(([key, value]) => `  ${key}: ${JSON.stringify(value)}`),
+          `Found ${event.contracts.length} benchmark(s) to run: ${event.contracts.join(', ')}`,
+        );
+        break;
+      }
+      case 'contract-start':
+        log(`--- Running benchmark for ${event.contractName} ---`, ` -> Benchmark file: ${event.benchmarkFile}`, ` -> Output report: ${event.outputPath}`);
+        break;
+      case 'setup-start':
+        log(`Running setup for ${event.contractName}...`);
+        break;
+      case 'setup-end':
+        log(`Setup complete for ${event.contractName}.`);
+        break;
+      case 'method-start':
+        log(`Profiling ${event.name}...${event.runs > 1 || event.warmup > 0 ? ` (${event.warmup} warmup, ${event.runs} runs)` : ''}`);
+        break;
+      case 'result':
+        if (event.result.status !== 'failed') log(...describeResult(event.result));
+        break;
+      case 'failure':
+        if (event.phase === 'teardown') error(`Teardown failed for ${event.contractName}: ${event.message}`);
+        else if (event.name !== undefined) error(`Error profiling ${event.name} (${event.phase}): ${event.message}`);
+        else error(`Failed to run benchmark for ${event.contractName}: ${event.stack ?? event.message}`);
+        break;
+      case 'budget-exceeded':
+        error(
+          `Budget exceeded for ${event.violations.length} limit(s) in ${event.contractName}:`,
+          ...event.violations.map(violation => ` -> ${formatViolation(violation)}`),
+        );
+        break;
+      case 'teardown-start':
+        log(`Running teardown for ${event.contractName}...`);
+        break;
+      case 'teardown-end':
+        log(`Teardown complete for ${event.contractName}.`);
+        break;
+      case 'report-saved':
+        log(event.methods > 0 ? `Saved results for ${event.methods} methods in ${event.path}` : `Saved an empty report in ${event.path}`);
+        break;
+      case 'contract-end':
+        if (!event.summary.failed) log(`--- Benchmark finished for ${event.contractName} ---`);
+        break;
+      case 'log':
+        this.#print(event.level === 'info' ? 'log' : event.level, contractName, [event.message]);
+        break;
+      case 'run-end':
+        this.#printOutcome(event.summaries);
+        break;
+    }
+  }
+
+  /**
+   * Prints the outcome of the run.
+   * @param summaries - Outcome of every contract that was started.
+   */
+  #printOutcome(summaries: Extract<BenchmarkEvent, { type: 'run-end' }>['summaries']) {
+    const failedContracts = summaries.filter(s => s.failed).map(s => s.contractName);
+    const failedMethodCount = summaries.reduce((acc, s) => acc + s.failedMethods, 0);
+    const totalBudgetViolations = summaries.reduce((acc, s) => acc + s.budgetViolations, 0);
+
+    if (failedContracts.length > 0 && !this.#continueOnError) {
+      console.error(`Benchmark failed for ${failedContracts.join(', ')}.`);
+    } else if (failedContracts.length > 0 || failedMethodCount > 0) {
+      console.error(
+        `All specified benchmarks ran, but ${failedContracts.length} contract(s) and ${failedMethodCount} method(s) failed.` +
+        (failedContracts.length > 0 ? ` Failed contracts: ${failedContracts.join(', ')}` : ''),
+      );
+    } else if (totalBudgetViolations > 0) {
+      console.error(`All specified benchmarks completed, but ${totalBudgetViolations} budget limit(s) were exceeded.`);
+    } else {
+      console.log('All specified benchmarks completed successfully.');
+    }
+  }
+
+  /**
+   * Prints lines, prefixed with the contract name when contracts run at the same time.
+   * @param method - The console method to print with.
+   * @param contractName - The contract the lines are about, if any.
+   * @param lines - The lines.
+   */
+  #print(method: 'log' | 'warn' | 'error', contractName: string | undefined, lines: string[]) {
+    const prefix = this.#prefixLines && contractName !== undefined ? `[${contractName}] ` : '';
+    console[method](lines.map(line => `${prefix}${line}`).join('\n'));
+  }
+}
+
+/**
+ * Streams every event as a line of JSON with the time it was reported, e.g. for dashboards or other tools.
+ */
+export class NdjsonReporter implements Reporter {
+  #file?: string;
+
+  /**
+   * @param file - File to write to, replacing its contents; defaults to stdout.
+   */
+  constructor(file?: string) {
+    this.#file = file;
+    if (file) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, '');
+    }
+  }
+
+  /**
+   * Writes an event.
+   * @param event - The event.
+   */
+  onEvent(event: BenchmarkEvent) {
+    const line = `${JSON.stringify({ time: new Date().toISOString(), ...event })}\n`;
+    if (this.#file) fs.appendFileSync(this.#file, line);
+    else process.stdout.write(line);
+  }
+}
+
+/**
+ * Escapes a value of a GitHub Actions workflow command.
+ * @param value - The raw value.
+ * @param isProperty - Whether the value is a property, which also escapes `:` and `,`.
+ * @returns The escaped value.
+ */
+function escapeWorkflowValue(value: string, isProperty = false): string {
+  const escaped = value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  return isProperty ? escaped.replace(/:/g, '%3A').replace(/,/g, '%2C') : escaped;
+}
+
+/**
+ * Annotates a GitHub Actions run with the failures, exceeded budgets and warnings of the benchmarks,
+ * attached to the benchmark file of their contract.
+ */
+export class GithubReporter implements Reporter {
+  #files = new Map<string, string>();
+
+  /**
+   * Writes the annotations of an event.
+   * @param event - The event.
+   */
+  onEvent(event: BenchmarkEvent) {
+    switch (event.type) {
+      case 'contract-start':
+        this.#files.set(event.contractName, path.relative(process.cwd(), event.benchmarkFile));
+        break;
+      case 'failure': {
+        const subject = [event.contractName, event.name].filter(Boolean).join(': ');
+        this.#annotate('error', event.contractName, `${subject} failed (${event.phase})`, event.message);
+        break;
+      }
+      case 'budget-exceeded':
+        for (const violation of event.violations) {
+          this.#annotate('error', event.contractName, `Budget exceeded in ${event.contractName}`, formatViolation(violation));
+        }
+        break;
+      case 'log':
+        if (event.level === 'info') break;
+        this.#annotate(event.level === 'warn' ? 'warning' : 'error', event.contractName, event.contractName ?? 'aztec-benchmark', event.message);
+        break;
+    }
+  }
+
+  /**
+   * Writes an annotation.
+   * @param level - The annotation level.
+   * @param contractName - The contract whose benchmark file is annotated, if any.
+   * @param title - Title of the annotation.
+   * @param message - The message.
+   */
+  #annotate(level: 'error' | 'warning', contractName: string | undefined, title: string, message: string) {
+    const file = contractName !== undefined ? this.#files.get(contractName) : undefined;
+    const properties = [...(file ? [`file=${escapeWorkflowValue(file, true)}`] : []), `title=${escapeWorkflowValue(title, true)}`];
+    process.stdout.write(`::${level} ${properties.join(',')}::${escapeWorkflowValue(message)}\n`);
+  }
+}
+
+/**
+ * Creates a built-in reporter.
+ * @param name - Name of the reporter.
+ * @param options - Options of the built-in reporters.
+ * @returns The reporter.
+ */
+export function createReporter(name: BuiltinReporter, options: ReporterOptions = {}): Reporter {
+  switch (name) {
+    case 'console':
+      return new ConsoleReporter();
+    case 'ndjson':
+      return new NdjsonReporter(options.ndjsonOutput && path.resolve(process.cwd(), options.ndjsonOutput));
+    case 'github':
+      return new GithubReporter();
+  }
+}
+
+/**
+ * Resolves reporters given by name, by module path or as objects.
+ * A module is imported like benchmark files, so it can be written in TypeScript, and must export
+ * a reporter, or a reporter class constructed without arguments, as default export.
+ * @param specs - Built-in reporter names, module paths relative to the working directory, or reporters.
+ * @param options - Options of the built-in reporters.
+ * @returns The reporters, in the given order.
+ * @throws If a reporter is unknown or a module does not export a reporter.
+ */
+export async function loadReporters(specs: Array<string | Reporter>, options: ReporterOptions = {}): Promise<Reporter[]> {
+  const reporters: Reporter[] = [];
+  for (const spec of specs) {
+    if (typeof spec !== 'string') {
+      reporters.push(spec);
+      continue;
+    }
+    if (BUILTIN_REPORTERS.includes(spec as BuiltinReporter)) {
+      reporters.push(createReporter(spec as BuiltinReporter, options));
+      continue;
+    }
+
+    const file = path.resolve(process.cwd(), spec);
+    if (!fs.existsSync(file)) {
+      throw new Error(`Unknown reporter ${spec}; expected one of ${BUILTIN_REPORTERS.join(', ')} or the path of a reporter module`);
+    }
+    const exported = (await import(file)).default;
+    const reporter = typeof exported === 'function' ? new exported() : exported;
+    if (!isReporter(reporter)) {
+      throw new Error(`${file} must export a reporter (an object or class with an onEvent method) as default export`);
+    }
+    reporters.push(reporter);
+  }
+  return reporters;
+}
+
+/**
+ * Delivers the events of a run to its reporters, one event at a time and in order.
+ * A reporter that throws is reported on stderr without interrupting the run.
+ */
+export class EventDispatcher {
+  #reporters: Reporter[];
+  #queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param reporters - The reporters receiving the events.
+   */
+  constructor(reporters: Reporter[]) {
+    this.#reporters = reporters;
+  }
+
+  /** Queues an event for every reporter. */
+  emit: EventListener = event => {
+    for (const reporter of this.#reporters) {
+      this.#queue = this.#queue
+        .then(() => reporter.onEvent(event))
+        .catch((error: any) => console.error(`Reporter failed on a ${event.type} event: ${error?.message ?? error}`));
+    }
+  };
+
+  /**
+   * Waits until every queued event was delivered.
+   * @returns A promise that resolves once the reporters are done.
+   */
+  flush(): Promise<void> {
+    return this.#queue;
+  }
+}
+
+/**
+ * Creates a listener printing events to the console, for a `Profiler` used without reporters.
+ * @returns The listener.
+ */
+export function consoleListener(): EventListener {
+  const reporter = new ConsoleReporter();
+  return event => reporter.onEvent(event);
+}
@@ -0,0 +1,137 @@
+import fs from 'node:fs';
+import type { ResourceUsage } from './types.js';
+
+/** Interval between two samples of memory usage */
+const SAMPLE_INTERVAL_MS = 50;
+
+/** Clock ticks per second of the CPU times in /proc (USER_HZ, 100 on every supported Linux architecture) */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+const BYTES_PER_MIB = 1024 * 1024;
+
+/** CPU time of a process, in clock ticks */
+interface CpuTicks {
+  user: number;
+  system: number;
+}
+
+/**
+ * Reads the CPU times of a process from /proc.
+ * @param pid - The process.
+ * @returns Its own CPU times and those of its terminated, waited-for children, or undefined if it is gone.
+ */
+function readCpuTicks(pid: number | 'self'): { own: CpuTicks; children: CpuTicks } | undefined {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    // The command name may contain spaces and parentheses, the fields start after the last one.
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ').map(Number);
+    return { own: { user: fields[11], system: fields[12] }, children: { user: fields[13], system: fields[14] } };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the resident set size of a process from /proc.
+ * @param pid - The process.
+ * @returns The RSS in bytes, or 0 if the process is gone.
+ */
+function readRss(pid: number): number {
+  try {
+    const match = fs.readFileSync(`/proc/${pid}/status`, 'utf-8').match(/^VmRSS:\s+(\d+) kB/m);
+    return match ? Number(match[1]) * 1024 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Lists the descendants of a process, e.g. native prover processes spawned by bb.js.
+ * Only available on Linux; elsewhere no descendants are found.
+ * @param pid - The root process.
+ * @returns The process ids of its children, grandchildren and so on.
+ */
+function listDescendants(pid: number): number[] {
+  const children: number[] = [];
+  try {
+    for (const tid of fs.readdirSync(`/proc/${pid}/task`)) {
+      const content = fs.readFileSync(`/proc/${pid}/task/${tid}/children`, 'utf-8').trim();
+      if (content) children.push(...content.split(' ').map(Number));
+    }
+  } catch {
+    return children;
+  }
+  return [...children, ...children.flatMap(listDescendants)];
+}
+
+/**
+ * Samples the memory and CPU time used by this process and its child processes, from `start` until `stop`.
+ *
+ * Memory is sampled every 50ms from the event loop, and once more when stopping, so a peak that occurs
+ * while the event loop is blocked can be missed. CPU time covers every thread of this process (including
+ * the worker threads proving with WebAssembly) and the child processes running or waited for in between.
+ */
+export class ResourceSampler {
+  #timer?: NodeJS.Timeout;
+  #startCpu?: NodeJS.CpuUsage;
+  #startChildren?: CpuTicks;
+  #startDescendants = new Map<number, CpuTicks>();
+  #peakRss = 0;
+  #peakHeapUsed = 0;
+
+  /**
+   * Starts sampling.
+   */
+  start() {
+    this.#startCpu = process.cpuUsage();
+    this.#startChildren = readCpuTicks('self')?.children;
+    for (const pid of listDescendants(process.pid)) {
+      const ticks = readCpuTicks(pid);
+      if (ticks) this.#startDescendants.set(pid, ticks.own);
+    }
+    this.#sample();
+    this.#timer = setInterval(() => this.#sample(), SAMPLE_INTERVAL_MS);
+    this.#timer.unref();
+  }
+
+  /**
+   * Stops sampling.
+   * @returns The peak memory and the CPU time used since `start`.
+   */
+  stop(): ResourceUsage {
+    clearInterval(this.#timer);
+    this.#sample();
+
+    const cpu = process.cpuUsage(this.#startCpu);
+    const ticks: CpuTicks = { user: 0, system: 0 };
+    const add = (a: CpuTicks, b: CpuTicks = { user: 0, system: 0 }) => {
+      ticks.user += a.user - b.user;
+      ticks.system += a.system - b.system;
+    };
+    // Children that terminated since start are accounted to this process once waited for.
+    const children = readCpuTicks('self')?.children;
+    if (children && this.#startChildren) add(children, this.#startChildren);
+    for (const pid of listDescendants(process.pid)) {
+      const own = readCpuTicks(pid)?.own;
+      if (own) add(own, this.#startDescendants.get(pid));
+    }
+    const ticksToMs = (value: number) => (value * 1000) / CLOCK_TICKS_PER_SECOND;
+
+    return {
+      peakRssMiB: Math.round(this.#peakRss / BYTES_PER_MIB),
+      peakHeapUsedMiB: Math.round(this.#peakHeapUsed / BYTES_PER_MIB),
+      cpuUserMs: Math.round(cpu.user / 1000 + ticksToMs(ticks.user)),
+      cpuSystemMs: Math.round(cpu.system / 1000 + ticksToMs(ticks.system)),
+    };
+  }
+
+  /**
+   * Records the current memory usage of this process and its descendants.
+   */
+  #sample() {
+    const { rss, heapUsed } = process.memoryUsage();
+    const descendantsRss = listDescendants(process.pid).reduce((acc, pid) => acc + readRss(pid), 0);
+    this.#peakRss = Math.max(this.#peakRss, rss + descendantsRss);
+    this.#peakHeapUsed = Math.max(this.#peakHeapUsed, heapUsed);
+  }
+}
@@ -0,0 +1,289 @@
+import { getInteractionName, Profiler } from './profiler.js';
+import { describeFilter, isFilterActive, matchesFilter } from './filter.cjs';
+import { isInShard, type FunctionShard, type ShardSpec } from './shard.js';
+import { buildSweepSeries, describeSweep } from './sweep.js';
+import { findNondeterministicMetrics } from './stats.js';
+import { checkBudgets, resolveBudgets, type TomlBudgetTable } from './budgets.js';
+import { logEvent, type EventListener } from './events.js';
+import type { ExportFormat } from './exporters.js';
+import {
+  BenchmarkBase,
+  BenchmarkContext,
+  type BenchmarkedIntent,
+  type BenchmarkFilter,
+  type Budget,
+  type NamedBenchmarkedInteraction,
+  type ProfilePhase,
+  type ProfileReport,
+  type ProfileResult,
+  type Provenance,
+  type ReportFilter,
+  type ReportShard,
+  type SendMode,
+} from './types.js';
+
+/** Everything needed to benchmark one contract, sent from the CLI to a worker process */
+export interface ContractJob {
+  /** Name of the contract (key of the `[benchmark]` table). */
+  contractName: string;
+  /** Absolute path of the `*.benchmark.ts` file. */
+  benchmarkFilePath: string;
+  /** Absolute path of the JSON report to write. */
+  outputJsonPath: string;
+  /** The contract's `[benchmark_budgets.<contract>]` table, if any. */
+  tomlBudgets?: TomlBudgetTable;
+  /** Skip proving transactions. */
+  skipProving?: boolean;
+  /** Number of measured profiling runs per function. */
+  runs: number;
+  /** Number of discarded warmup runs per function. */
+  warmup: number;
+  /** Record failures in the report instead of aborting. */
+  continueOnError?: boolean;
+  /** Per-method timeout in milliseconds. */
+  timeout?: number;
+  /** How the benchmarked transactions are sent, unless overridden per entry. */
+  sendMode?: SendMode;
+  /** Where and how the run is produced, recorded in the report. */
+  provenance: Provenance;
+  /** Formats the report is saved in. */
+  formats: ExportFormat[];
+  /** Selects the entries to benchmark by name and tags. */
+  filter?: BenchmarkFilter;
+  /** The shard of a sharded run, with the functions it runs if the contract is split across shards. */
+  shard?: ShardSpec & { functions?: FunctionShard };
+}
+
+/** Outcome of benchmarking one contract */
+export interface ContractRunSummary {
+  /** Name of the contract. */
+  contractName: string;
+  /** Whether the benchmark file failed as a whole (setup, getMethods, profiling or teardown). */
+  failed: boolean;
+  /** Number of methods recorded as failed in the report. */
+  failedMethods: number;
+  /** Number of exceeded budget limits. */
+  budgetViolations: number;
+}
+
+/** Outcome and report of benchmarking one contract */
+export interface ContractRun {
+  /** Outcome of the contract. */
+  summary: ContractRunSummary;
+  /** The saved report; unset if the contract failed without continue-on-error. */
+  report?: ProfileReport;
+}
+
+/**
+ * Builds the report entry recorded when a whole benchmark file fails in --continue-on-error mode.
+ * @param phase - The phase that failed.
+ * @param error - The thrown error.
+ * @returns A failed result named BENCHMARK_RUNNER_ERROR.
+ */
+export function createRunnerErrorResult(phase: ProfilePhase, error: any): ProfileResult {
+  return {
+    name: 'BENCHMARK_RUNNER_ERROR',
+    totalGateCount: 0,
+    gateCounts: [],
+    status: 'failed',
+    error: { phase, message: error?.message ?? String(error) },
+  };
+}
+
+/**
+ * Converts the shard of a job into the shard recorded in its report.
+ * @param shard - The shard of the job, if the run is sharded.
+ * @returns The shard without the functions it runs, or undefined.
+ */
+export function toReportShard(shard: ContractJob['shard']): ReportShard | undefined {
+  return shard && { index: shard.index, count: shard.count };
+}
+
+/**
+ * Names the benchmark entries, so plain interactions can be selected by name before any of them is profiled.
+ * @param items - The entries returned by `getMethods`.
+ * @returns The named entries.
+ */
+async function nameEntries(items: Array<BenchmarkedIntent | NamedBenchmarkedInteraction>): Promise<NamedBenchmarkedInteraction[]> {
+  const named: NamedBenchmarkedInteraction[] = [];
+  for (const item of items) {
+    named.push('interaction' in item && 'name' in item ? item : { interaction: item, name: await getInteractionName(item) });
+  }
+  return named;
+}
+
+/**
+ * Selects the benchmark entries matching a filter.
+ * @param entries - The named entries.
+ * @param filter - The filter to apply.
+ * @returns The selected entries and the filter with the names of the skipped ones.
+ */
+function selectEntries(
+  entries: NamedBenchmarkedInteraction[],
+  filter: BenchmarkFilter,
+): { selected: NamedBenchmarkedInteraction[]; reportFilter: ReportFilter } {
+  const selected = entries.filter(entry => matchesFilter(entry.name, entry.tags ?? [], filter));
+  const excluded = entries.filter(entry => !selected.includes(entry)).map(entry => entry.name);
+  return { selected, reportFilter: { ...filter, excluded } };
+}
+
+/**
+ * Benchmarks one contract: runs setup, profiles its methods, checks budgets, saves
+ * the report and always runs teardown. Errors are reported in the summary and as events, never thrown.
+ * @param job - The contract to benchmark and the run options.
+ * @param onEvent - Receives the progress of the contract.
+ * @returns The outcome of the run and its report.
+ */
+export async function runContractBenchmark(job: ContractJob, onEvent: EventListener): Promise<ContractRun> {
+  const { contractName, benchmarkFilePath, outputJsonPath } = job;
+  const summary: ContractRunSummary = { contractName, failed: false, failedMethods: 0, budgetViolations: 0 };
+  const log = (level: 'info' | 'warn' | 'error', message: string) => onEvent(logEvent(level, message, contractName));
+
+  let benchmarkInstance: BenchmarkBase | undefined;
+  let runContext: BenchmarkContext = {};
+  let setupComplete = false;
+  let reportShard = toReportShard(job.shard);
+  let report: ProfileReport | undefined;
+
+  try {
+    const module = await import(benchmarkFilePath);
+    const BenchmarkClass = module.default;
+
+    if (!BenchmarkClass || !(typeof BenchmarkClass === 'function') || !(typeof BenchmarkClass.prototype.getMethods === 'function')) {
+      throw new Error(`${benchmarkFilePath} does not export a default class with a getMethods method.`);
+    }
+
+    benchmarkInstance = new BenchmarkClass() as BenchmarkBase;
+
+    if (typeof benchmarkInstance.setup === 'function') {
+      onEvent({ type: 'setup-start', contractName });
+      const start = performance.now();
+      runContext = await benchmarkInstance.setup();
+      onEvent({ type: 'setup-end', contractName, durationMs: Math.round(performance.now() - start) });
+    }
+    setupComplete = true;
+    if (!job.skipProving && !runContext.wallet) {
+      throw new Error(`setup() must return a context with a 'wallet' property when proving is enabled.`);
+    }
+
+    const profiler = new Profiler(runContext.wallet, {
+      skipProving: job.skipProving,
+      feePaymentMethod: runContext.feePaymentMethod,
+      runs: job.runs,
+      warmup: job.warmup,
+      continueOnError: job.continueOnError,
+      timeout: job.timeout,
+      sendMode: job.sendMode,
+      node: runContext.node,
+      formats: job.formats,
+      contractName,
+      beforeEach: benchmarkInstance.beforeEach && (name => benchmarkInstance!.beforeEach!(runContext, name)),
+      afterEach: benchmarkInstance.afterEach && (name => benchmarkInstance!.afterEach!(runContext, name)),
+      onEvent,
+    });
+
+    log('info', `Getting methods to benchmark for ${contractName}...`);
+    let interactionsToBenchmark: Array<BenchmarkedIntent | NamedBenchmarkedInteraction> = await benchmarkInstance.getMethods(runContext);
+
+    let reportFilter: ReportFilter | undefined;
+    if (job.filter && isFilterActive(job.filter) && Array.isArray(interactionsToBenchmark)) {
+      const total = interactionsToBenchmark.length;
+      ({ selected: interactionsToBenchmark, reportFilter } = selectEntries(await nameEntries(interactionsToBenchmark), job.filter));
+      log('info', `${describeFilter(job.filter)} selected ${interactionsToBenchmark.length} of ${total} methods for ${contractName}.`);
+    }
+
+    // Functions of a contract split across shards are selected after the filter, so the filter only lists what it excluded.
+    if (job.shard?.functions && Array.isArray(interactionsToBenchmark)) {
+      const named = await nameEntries(interactionsToBenchmark);
+      const functions = job.shard.functions;
+      interactionsToBenchmark = named.filter(entry => isInShard(entry.name, functions));
+      const skipped = named.filter(entry => !isInShard(entry.name, functions)).map(entry => entry.name);
+      reportShard = { index: job.shard.index, count: job.shard.count, skipped };
+      log('info', `Shard ${job.shard.index}/${job.shard.count} runs ${interactionsToBenchmark.length} of ${named.length} methods for ${contractName}.`);
+    }
+
+    if (!Array.isArray(interactionsToBenchmark) || interactionsToBenchmark.length === 0) {
+      log('warn', `No benchmark methods ${reportFilter || reportShard?.skipped ? 'selected' : 'returned by getMethods'} for ${contractName}. Saving empty report.`);
+      report = await profiler.saveResults([], outputJsonPath, { provenance: job.provenance, filter: reportFilter, shard: reportShard });
+    } else {
+      log('info', `Profiling ${interactionsToBenchmark.length} methods for ${contractName}...`);
+      const results = await profiler.profile(interactionsToBenchmark);
+      for (const result of results) {
+        const mismatches = findNondeterministicMetrics(result.samples ?? []);
+        if (mismatches.length > 0) {
+          log(
+            'warn',
+            `Warning: ${result.name} produced different ${mismatches.join(' and ')} across runs. ` +
+            'These should be deterministic; check whether earlier runs mutate the state the interaction depends on.',
+          );
+        }
+      }
+
+      const failedResults = results.filter(r => r.status === 'failed');
+      if (failedResults.length > 0) {
+        log('error', `${failedResults.length} method(s) failed for ${contractName}: ${failedResults.map(r => r.name).join(', ')}`);
+        summary.failedMethods = failedResults.length;
+      }
+
+      const entryBudgets: Record<string, Budget> = {};
+      for (const item of interactionsToBenchmark) {
+        if ('name' in item && item.budget) entryBudgets[item.name] = item.budget;
+      }
+      const budgets = resolveBudgets(results.map(r => r.name), job.tomlBudgets, entryBudgets);
+      const budgetViolations = checkBudgets(results, budgets);
+      if (budgetViolations.length > 0) {
+        onEvent({ type: 'budget-exceeded', contractName, violations: budgetViolations });
+        summary.budgetViolations = budgetViolations.length;
+      }
+
+      const sweeps = buildSweepSeries(interactionsToBenchmark, results);
+      for (const s of sweeps) log('info', `Sweep ${describeSweep(s)}`);
+
+      report = await profiler.saveResults(results, outputJsonPath, {
+        provenance: job.provenance,
+        ...(Object.keys(budgets).length > 0 && { budgetViolations }),
+        filter: reportFilter,
+        ...(sweeps.length > 0 && { sweeps }),
+        shard: reportShard,
+      });
+    }
+  } catch (error: any) {
+    onEvent({
+      type: 'failure',
+      contractName,
+      phase: setupComplete ? 'profile' : 'setup',
+      message: error?.message ?? String(error),
+      ...(error?.stack && { stack: error.stack }),
+    });
+    summary.failed = true;
+    if (job.continueOnError) {
+      // Record the failure so the comparison shows it instead of a missing contract.
+      report = await new Profiler(undefined, { formats: job.formats, contractName, onEvent }).saveResults(
+        [createRunnerErrorResult(setupComplete ? 'profile' : 'setup', error)],
+        outputJsonPath,
+        { provenance: job.provenance, shard: toReportShard(job.shard) },
+      );
+    }
+  } finally {
+    // Teardown and cleanup run even if setup or profiling failed, so resources are always released.
+    if (benchmarkInstance && setupComplete && typeof benchmarkInstance.teardown === 'function') {
+      try {
+        onEvent({ type: 'teardown-start', contractName });
+        const start = performance.now();
+        await benchmarkInstance.teardown(runContext);
+        onEvent({ type: 'teardown-end', contractName, durationMs: Math.round(performance.now() - start) });
+      } catch (error: any) {
+        onEvent({ type: 'failure', contractName, phase: 'teardown', message: error?.message ?? String(error), ...(error?.stack && { stack: error.stack }) });
+        summary.failed = true;
+      }
+    }
+    try {
+      // Any resources the wallet leaves behind are released when the worker process exits.
+      await runContext.wallet?.stop();
+    } catch (error: any) {
+      log('error', `Wallet cleanup failed for ${contractName}: ${error.message}`);
+    }
+  }
+
+  return { summary, report };
+}
@@ -0,0 +1,230 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { toTomlBudgetTable, validateTomlBudgets } from './budgets.js';
+import { loadConfig, SETTING_NAMES } from './config.js';
+import { resolveBenchmarks, selectBenchmarks } from './discovery.js';
+import { logEvent, type BenchmarkEvent } from './events.js';
+import { loadReportSet } from './htmlReport.js';
+import { appendHistory, toHistoryEntry, type HistoryEntry } from './history.js';
+import { getGitBranch, getProvenance } from './provenance.js';
+import { EventDispatcher, loadReporters } from './reporters.js';
+import type { ContractJob, ContractRunSummary } from './runContract.js';
+import { planShards, type ShardAssignment, type ShardSpec } from './shard.js';
+import type { BenchmarkSettings, ProfileReport, ReportConfig } from './types.js';
+import { runInWorkers } from './workerPool.js';
+
+/** Options of a benchmark run */
+export interface RunBenchmarksOptions extends BenchmarkSettings {
+  /** Path of the config file; defaults to `aztec-benchmark.config.ts` in the working directory, if it exists. */
+  configFile?: string;
+  /** Profile of the config file to apply. */
+  profile?: string;
+  /** The part of the benchmarks to run in a sharded run. */
+  shard?: ShardSpec;
+  /** Report file, directory of reports or JSONL history file whose proving times balance the shards. */
+  shardTimings?: string;
+  /** Suffix of report filenames in the `shardTimings` directory. */
+  shardTimingsSuffix?: string;
+}
+
+/** Outcome of a benchmark run */
+export interface BenchmarkRunResult {
+  /** The saved reports, keyed by contract name. Contracts that failed without `continueOnError` have none. */
+  reports: Record<string, ProfileReport>;
+  /** Outcome of every contract that was started. */
+  summaries: ContractRunSummary[];
+  /** Whether every contract and method succeeded within its budgets. */
+  success: boolean;
+}
+
+/** Settings of a run that neither the config file nor the options set */
+export const RUN_DEFAULTS = {
+  nargoToml: './Nargo.toml',
+  outputDir: './benchmarks',
+  runs: 1,
+  warmup: 0,
+  sendMode: 'send',
+  jobs: 1,
+  formats: ['json'],
+} satisfies BenchmarkSettings;
+
+/** Settings that only change where the progress of a run goes, so they are not recorded in its reports */
+const REPORTING_SETTINGS: Array<keyof BenchmarkSettings> = ['reporters', 'ndjsonOutput'];
+
+/**
+ * Sets one setting, keeping its value typed as the setting's.
+ * @param settings - The settings to change.
+ * @param key - Name of the setting.
+ * @param value - Its value.
+ */
+function setSetting<K extends keyof BenchmarkSettings>(settings: BenchmarkSettings, key: K, value: BenchmarkSettings[K]) {
+  settings[key] = value;
+}
+
+/**
+ * Benchmarks the contracts of a project, like the `aztec-benchmark` command, and saves their reports.
+ * Options override the settings of the config file, which override the defaults. Progress is sent
+ * to the reporters as events; by default it is printed to the console.
+ * @example
+ * const { reports, success } = await runBenchmarks({ contracts: ['token'], skipProving: true, reporters: [] });
+ * @param options - The run options.
+ * @returns The reports and outcome of the run.
+ * @throws If the options, config file or Nargo.toml, including its budgets, are invalid, or no benchmark is selected.
+ */
+export async function runBenchmarks(options: RunBenchmarksOptions = {}): Promise<BenchmarkRunResult> {
+  const { configFile, profile, shard, shardTimings, shardTimingsSuffix = '', ...overrides } = options;
+  const loadedConfig = await loadConfig(configFile, profile);
+  const settings: BenchmarkSettings = { ...RUN_DEFAULTS, ...loadedConfig?.settings };
+  for (const key of SETTING_NAMES) {
+    if (overrides[key] !== undefined) setSetting(settings, key, overrides[key]);
+  }
+  const runs = settings.runs ?? RUN_DEFAULTS.runs;
+  const warmup = settings.warmup ?? RUN_DEFAULTS.warmup;
+  const jobCount = settings.jobs ?? RUN_DEFAULTS.jobs;
+  const formats = settings.formats ?? RUN_DEFAULTS.formats;
+  const sendMode = settings.sendMode ?? RUN_DEFAULTS.sendMode;
+
+  if (runs < 1 || jobCount < 1) throw new Error('--runs and --jobs must be at least 1.');
+  if (settings.history && !formats.includes('json')) throw new Error('--history requires the json format.');
+  if (shardTimings && !shard) throw new Error('--shard-timings requires --shard.');
+
+  const recordedSettings: BenchmarkSettings = {};
+  for (const key of SETTING_NAMES) {
+    if (settings[key] !== undefined && !REPORTING_SETTINGS.includes(key)) setSetting(recordedSettings, key, settings[key]);
+  }
+  const reportConfig: ReportConfig = {
+    ...(loadedConfig && { file: path.relative(process.cwd(), loadedConfig.file) }),
+    ...(loadedConfig?.profile && { profile: loadedConfig.profile }),
+    settings: recordedSettings,
+  };
+
+  const availableBenchmarks = resolveBenchmarks(path.resolve(process.cwd(), settings.nargoToml ?? RUN_DEFAULTS.nargoToml), {
+    discover: settings.discover,
+  });
+  if (availableBenchmarks.length === 0) {
+    throw new Error('No contracts found in the [benchmark] section of Nargo.toml, its workspace members or, with --discover, by convention.');
+  }
+
+  const specifiedContractNames = settings.contracts ?? [];
+  const benchmarksToRun = selectBenchmarks(availableBenchmarks, specifiedContractNames);
+  const contractsToRunNames = benchmarksToRun.map(b => b.name);
+  if (contractsToRunNames.length === 0) {
+    throw new Error(
+      specifiedContractNames.length > 0
+        ? `None of the specified contracts found (run 'aztec-benchmark list' to see them): ${specifiedContractNames.join(', ')}`
+        : 'No benchmarks specified via --contracts flag or found in the [benchmark] section of Nargo.toml.',
+    );
+  }
+  const missingFile = benchmarksToRun.find(b => !fs.existsSync(b.filePath));
+  if (missingFile) throw new Error(`Benchmark file not found: ${missingFile.filePath}`);
+  // Budgets are only applied once a contract is profiled, so they are checked before any of them runs.
+  for (const { name, budgets } of benchmarksToRun) validateTomlBudgets(name, budgets ?? {});
+
+  const reporters = await loadReporters(settings.reporters ?? ['console'], { ndjsonOutput: settings.ndjsonOutput });
+  const start = performance.now();
+  // Messages about preparing the run, reported once it started.
+  const notes: BenchmarkEvent[] = [];
+
+  const outputDir = path.resolve(process.cwd(), settings.outputDir ?? RUN_DEFAULTS.outputDir);
+  if (!fs.existsSync(outputDir)) {
+    notes.push(logEvent('info', `Creating output directory: ${outputDir}`));
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  let shardAssignment: ShardAssignment | undefined;
+  if (shard) {
+    const { index, count } = shard;
+    const timings = new Map<string, ProfileReport>();
+    if (shardTimings) {
+      try {
+        const entries = loadReportSet([path.resolve(shardTimings)], { suffix: shardTimingsSuffix, baseSuffix: '' });
+        for (const entry of entries) timings.set(entry.contractName, entry.head);
+      } catch (error: any) {
+        throw new Error(`Error reading shard timings: ${error.message}`);
+      }
+      if (timings.size === 0) notes.push(logEvent('warn', `Warning: No reports found in ${shardTimings}; shards are split by contract only.`));
+    }
+    shardAssignment = planShards(contractsToRunNames, timings, count)[index - 1];
+    if (shardAssignment.contracts.length === 0) {
+      notes.push(logEvent('info', `Shard ${index}/${count} has no benchmarks to run.`));
+    } else {
+      const described = shardAssignment.contracts.map(name => {
+        const functions = shardAssignment!.functions[name];
+        if (!functions) return name;
+        return functions.only ? `${name} (${functions.only.length} functions)` : `${name} (all but ${functions.except!.length} functions)`;
+      });
+      notes.push(logEvent('info', `Shard ${index}/${count} runs: ${described.join(', ')}`));
+    }
+  }
+
+  const provenance = getProvenance({
+    skipProving: !!settings.skipProving,
+    runs,
+    warmup,
+    ...(settings.continueOnError && { continueOnError: true }),
+    ...(settings.timeout !== undefined && { timeout: settings.timeout }),
+    sendMode,
+  }, reportConfig);
+
+  const jobs: ContractJob[] = [];
+  for (const { name: contractName, filePath: benchmarkFilePath, budgets } of benchmarksToRun) {
+    if (shardAssignment && !shardAssignment.contracts.includes(contractName)) continue;
+    jobs.push({
+      contractName,
+      benchmarkFilePath,
+      outputJsonPath: path.join(outputDir, `${contractName}${settings.suffix ?? ''}.benchmark.json`),
+      // Budgets in Nargo.toml take precedence over those of the config file, per function.
+      tomlBudgets: { ...toTomlBudgetTable(settings.budgets?.[contractName] ?? {}), ...budgets },
+      skipProving: settings.skipProving,
+      runs,
+      warmup,
+      continueOnError: settings.continueOnError,
+      timeout: settings.timeout,
+      sendMode,
+      provenance,
+      formats,
+      filter: { pattern: settings.filter, tags: settings.tags, excludeTags: settings.excludeTags },
+      ...(shard && {
+        shard: { ...shard, ...(shardAssignment?.functions[contractName] && { functions: shardAssignment.functions[contractName] }) },
+      }),
+    });
+  }
+
+  // Concurrent contracts would compete for CPU and distort proving times.
+  let concurrency = Math.min(jobCount, jobs.length);
+  if (concurrency > 1 && !settings.skipProving) {
+    notes.push(logEvent('warn', 'Warning: --jobs is only used with --skip-proving. Running contracts one at a time.'));
+    concurrency = 1;
+  }
+
+  const dispatcher = new EventDispatcher(reporters);
+  const emit = dispatcher.emit;
+  emit({ type: 'run-start', config: reportConfig, contracts: contractsToRunNames, ...(shard && { shard }), concurrency });
+  notes.forEach(emit);
+
+  const contractRuns = await runInWorkers(jobs, {
+    concurrency,
+    contractTimeout: settings.contractTimeout,
+    stopOnFailure: !settings.continueOnError,
+    onEvent: emit,
+  });
+  const summaries = contractRuns.map(run => run.summary);
+  const reports: Record<string, ProfileReport> = {};
+  for (const { summary, report } of contractRuns) {
+    if (report) reports[summary.contractName] = report;
+  }
+
+  if (settings.history) {
+    const historyPath = path.resolve(process.cwd(), settings.history);
+    const branch = getGitBranch();
+    const entries: HistoryEntry[] = Object.entries(reports).map(([contractName, report]) => toHistoryEntry(contractName, report, branch));
+    appendHistory(historyPath, entries);
+    emit(logEvent('info', `Appended ${entries.length} report(s) to ${historyPath}`));
+  }
+
+  emit({ type: 'run-end', summaries, durationMs: Math.round(performance.now() - start) });
+  await dispatcher.flush();
+
+  const success = summaries.every(s => !s.failed && s.failedMethods === 0 && s.budgetViolations === 0);
+  return { reports, summaries, success };
+}
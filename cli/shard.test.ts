@@ -0,0 +1,226 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { validateReport } from './reportSchema.cjs';
+import { checkShardsAgree, isInShard, mergeShardReports, parseShard, planShards, type ShardReport } from './shard.js';
+import type { ProfileReport, ProfileResult, Provenance } from './types.js';
+
+const SYSTEM_INFO = { cpuModel: 'test', cpuCores: 8, totalMemoryGiB: 32, arch: 'x64' };
+
+const PROVENANCE: Provenance = {
+  timestamp: '2026-10-19T10:00:00.000Z',
+  gitCommit: 'abc123',
+  cliVersion: '1.0.0',
+  aztecVersion: '3.0.0',
+  nodeVersion: 'v22.0.0',
+  flags: { skipProving: false, runs: 1, warmup: 0 },
+};
+
+/**
+ * Builds a successful result.
+ * @param name - Name of the function.
+ * @param provingTime - Proving time in ms.
+ * @returns The result.
+ */
+function result(name: string, provingTime = 1_000): ProfileResult {
+  return { name, totalGateCount: 10_000, gateCounts: [{ circuitName: `Token:${name}`, gateCount: 10_000 }], provingTime, status: 'success' };
+}
+
+/**
+ * Builds a report with the proving time of each function in its summary.
+ * @param results - The results.
+ * @param extras - Report sections to add.
+ * @returns The report.
+ */
+function report(results: ProfileResult[], extras: Partial<ProfileReport> = {}): ProfileReport {
+  return {
+    schemaVersion: 2,
+    summary: Object.fromEntries(results.map(r => [r.name, r.totalGateCount])),
+    results,
+    gasSummary: Object.fromEntries(results.map(r => [r.name, 0])),
+    provingTimeSummary: Object.fromEntries(results.map(r => [r.name, r.provingTime ?? 0])),
+    systemInfo: SYSTEM_INFO,
+    provenance: PROVENANCE,
+    ...extras,
+  };
+}
+
+describe('parseShard', () => {
+  it('parses an index and a count', () => {
+    assert.deepEqual(parseShard('2/3'), { index: 2, count: 3 });
+  });
+
+  for (const value of ['0/3', '4/3', '1/0', '1', 'a/b', '1/2/3']) {
+    it(`rejects ${value}`, () => {
+      assert.throws(() => parseShard(value), /Invalid shard/);
+    });
+  }
+});
+
+describe('planShards', () => {
+  it('spreads contracts without timings evenly and runs each one exactly once', () => {
+    const contracts = ['token', 'amm', 'nft', 'escrow', 'vault'];
+
+    const plan = planShards(contracts, new Map(), 2);
+
+    assert.deepEqual(plan.map(shard => shard.contracts), [['amm', 'nft', 'vault'], ['escrow', 'token']]);
+    assert.deepEqual(plan.flatMap(shard => shard.contracts).sort(), [...contracts].sort());
+    assert.deepEqual(planShards([...contracts].reverse(), new Map(), 2), plan);
+  });
+
+  it('splits a contract heavier than an even share by function, balancing proving times', () => {
+    const timings = new Map([
+      ['token', report([result('transfer', 600), result('mint', 300), result('burn', 100)])],
+      ['amm', report([result('swap', 200)])],
+    ]);
+
+    // nft has no timings and counts as the average contract (600 ms).
+    const plan = planShards(['token', 'amm', 'nft'], timings, 2);
+
+    assert.deepEqual(plan, [
+      { contracts: ['nft', 'token'], functions: { token: { only: ['mint'] } }, weight: 900 },
+      { contracts: ['amm', 'token'], functions: { token: { except: ['mint'] } }, weight: 900 },
+    ]);
+  });
+
+  it('runs the functions missing from the timings on the shard of the heaviest function', () => {
+    const timings = new Map([['token', report([result('transfer', 600), result('mint', 500)])]]);
+
+    const [first, second] = planShards(['token'], timings, 2);
+
+    assert.equal(isInShard('approve', first.functions['token']), true);
+    assert.equal(isInShard('approve', second.functions['token']), false);
+    assert.equal(isInShard('mint', second.functions['token']), true);
+  });
+
+  it('keeps the points of a parameter sweep on one shard', () => {
+    const points = [1, 2, 4, 8].map(value => ({ value, name: `transfer (${value} notes)` }));
+    const timings = new Map([
+      [
+        'token',
+        report([...points.map(point => result(point.name, 100 * point.value)), result('mint', 1_000)], {
+          sweeps: [{ name: 'transfer', parameter: 'note', points, fits: {} }],
+        }),
+      ],
+    ]);
+
+    const plan = planShards(['token'], timings, 2);
+
+    // The sweep (1,500 ms) is heavier than mint, so its shard also runs new functions.
+    assert.deepEqual(plan.map(shard => shard.functions['token']), [{ except: ['mint'] }, { only: ['mint'] }]);
+  });
+
+  it('leaves extra shards empty', () => {
+    const plan = planShards(['token'], new Map(), 3);
+
+    assert.deepEqual(plan.map(shard => shard.contracts), [['token'], [], []]);
+  });
+});
+
+describe('mergeShardReports', () => {
+  /**
+   * Builds the report of one shard of the token contract.
+   * @param index - 1-based index of the shard.
+   * @param results - The results of the shard.
+   * @param skipped - Functions left to other shards.
+   * @param extras - Report sections to add.
+   * @returns The shard report and its source.
+   */
+  const shardReport = (index: number, results: ProfileResult[], skipped: string[], extras: Partial<ProfileReport> = {}): ShardReport => ({
+    report: report(results, { shard: { index, count: 2, skipped }, ...extras }),
+    source: `shard-${index}/token.benchmark.json`,
+  });
+
+  it('combines the results of every shard into a valid report without shard', () => {
+    const merged = mergeShardReports('token', [
+      shardReport(2, [result('transfer', 600)], ['mint', 'burn'], {
+        provenance: { ...PROVENANCE, timestamp: '2026-10-19T10:05:00.000Z' },
+        filter: { pattern: '*', excluded: ['approve'] },
+      }),
+      shardReport(1, [result('mint', 300), result('burn', 100)], ['transfer'], { filter: { pattern: '*', excluded: ['approve'] } }),
+    ]);
+
+    assert.deepEqual(validateReport(merged), []);
+    assert.equal(merged.shard, undefined);
+    assert.deepEqual(merged.results.map(r => r.name), ['mint', 'burn', 'transfer']);
+    assert.deepEqual(merged.provingTimeSummary, { mint: 300, burn: 100, transfer: 600 });
+    assert.deepEqual(merged.filter, { pattern: '*', excluded: ['approve'] });
+    assert.equal(merged.provenance?.timestamp, PROVENANCE.timestamp);
+  });
+
+  it('fails if the results of a shard are missing', () => {
+    assert.throws(
+      () => mergeShardReports('token', [shardReport(1, [result('mint')], ['transfer'])]),
+      /The results of transfer of token, run by other shards, are missing/,
+    );
+  });
+
+  it('fails if a function ran on two shards', () => {
+    assert.throws(
+      () => mergeShardReports('token', [shardReport(1, [result('mint')], []), shardReport(2, [result('mint')], [])]),
+      /mint of token ran on shards 1 and 2/,
+    );
+  });
+
+  it('fails on two reports of the same shard', () => {
+    assert.throws(
+      () => mergeShardReports('token', [shardReport(1, [result('mint')], []), shardReport(1, [result('burn')], [])]),
+      /are both shard 1\/2 of token/,
+    );
+  });
+
+  it('returns a single report of an unsharded run as is', () => {
+    const unsharded = report([result('mint')]);
+
+    assert.equal(mergeShardReports('token', [{ report: unsharded, source: 'token.benchmark.json' }]), unsharded);
+  });
+});
+
+describe('checkShardsAgree', () => {
+  /**
+   * Wraps a report as a shard report.
+   * @param extras - Report sections to override.
+   * @param source - The file it was read from.
+   * @returns The shard report.
+   */
+  const shard = (extras: Partial<ProfileReport>, source: string): ShardReport => ({ report: report([result('mint')], extras), source });
+
+  it('accepts shards that only differ in their start time', () => {
+    const warnings = checkShardsAgree([shard({}, 'a.json'), shard({ provenance: { ...PROVENANCE, timestamp: '2026-10-19T11:00:00.000Z' } }, 'b.json')]);
+
+    assert.deepEqual(warnings, []);
+  });
+
+  it('rejects shards run on a different architecture or number of cores', () => {
+    assert.throws(
+      () => checkShardsAgree([shard({}, 'a.json'), shard({ systemInfo: { ...SYSTEM_INFO, cpuCores: 4 } }, 'b.json')]),
+      /b\.json was run on a different system than a\.json: cpuCores 4 instead of 8\./,
+    );
+    assert.throws(
+      () => checkShardsAgree([shard({}, 'a.json'), shard({ systemInfo: { ...SYSTEM_INFO, arch: 'arm64' } }, 'b.json')]),
+      /arch "arm64" instead of "x64"/,
+    );
+  });
+
+  it('warns about shards run on a different CPU model or amount of memory', () => {
+    const warnings = checkShardsAgree([
+      shard({}, 'a.json'),
+      shard({ systemInfo: { ...SYSTEM_INFO, cpuModel: 'other', totalMemoryGiB: 31 } }, 'b.json'),
+    ]);
+
+    assert.deepEqual(warnings, [
+      'b.json was run on a different machine than a.json: cpuModel "other" instead of "test", totalMemoryGiB 31 instead of 32.',
+    ]);
+  });
+
+  it('rejects shards run from different commits or with different flags', () => {
+    assert.throws(
+      () =>
+        checkShardsAgree([
+          shard({}, 'a.json'),
+          shard({ provenance: { ...PROVENANCE, gitCommit: 'def456', flags: { ...PROVENANCE.flags, runs: 3 } } }, 'b.json'),
+        ]),
+      /b\.json differs from a\.json in provenance: gitCommit, flags/,
+    );
+  });
+});
@@ -0,0 +1,327 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
+import { contractNameFromFile, listReports } from './compare.js';
+import { readReport } from './comparison.cjs';
+import { summarizeResults } from './profiler.js';
+import { SCHEMA_VERSION } from './reportSchema.cjs';
+import type { BenchmarkSettings, ProfileReport, ProfileResult, Provenance, SystemInfo } from './types.js';
+
+/** One of the machines a run is split across (`--shard <index>/<count>`) */
+export interface ShardSpec {
+  /** 1-based index of the shard. */
+  index: number;
+  /** Number of shards. */
+  count: number;
+}
+
+/**
+ * The functions one shard runs of a contract split across shards.
+ * Exactly one of the fields is set.
+ */
+export interface FunctionShard {
+  /** Run only these functions. */
+  only?: string[];
+  /** Run every function but these, which other shards run. Set on the shard that also runs functions missing from the timings. */
+  except?: string[];
+}
+
+/** The benchmarks one shard runs */
+export interface ShardAssignment {
+  /** Contracts the shard runs, in full or in part, sorted by name. */
+  contracts: string[];
+  /** Functions the shard runs of each contract split across shards, keyed by contract name. */
+  functions: Record<string, FunctionShard>;
+  /** Expected proving time of the shard in ms; without any timings, its number of contracts. */
+  weight: number;
+}
+
+/** A report read from a shard, with the file it was read from */
+export interface ShardReport {
+  report: ProfileReport;
+  /** Path of the report file. */
+  source: string;
+}
+
+/** Functions always run together, on one shard */
+interface WorkUnit {
+  contractName: string;
+  /** The functions, or empty for a whole contract. */
+  functions: string[];
+  /** Expected proving time in ms. */
+  weight: number;
+}
+
+/**
+ * Compares strings by code unit, so plans do not depend on the locale of the machine.
+ * @param a - First string.
+ * @param b - Second string.
+ * @returns A negative number, zero or a positive number.
+ */
+function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Parses a shard option value.
+ * @param value - The raw value, e.g. `2/3`.
+ * @returns The shard.
+ * @throws If the value is not `<index>/<count>` with 1 <= index <= count.
+ */
+export function parseShard(value: string): ShardSpec {
+  const match = value.trim().match(/^(\d+)\/(\d+)$/);
+  const index = Number(match?.[1]);
+  const count = Number(match?.[2]);
+  if (!match || index < 1 || count < 1 || index > count) {
+    throw new Error(`Invalid shard "${value}": expected <index>/<count> with 1 <= index <= count, e.g. 2/3.`);
+  }
+  return { index, count };
+}
+
+/**
+ * Splits the functions of a previous report into the units a contract is split into.
+ * The points of a parameter sweep stay together so its cost model is fitted on one shard.
+ * @param contractName - Name of the contract.
+ * @param report - The previous report of the contract.
+ * @returns The units with their proving times; empty if the report has no proving times.
+ */
+function getWorkUnits(contractName: string, report: ProfileReport): WorkUnit[] {
+  const provingTimes = new Map(Object.entries(report.provingTimeSummary).filter(([, ms]) => ms > 0));
+  const units: WorkUnit[] = [];
+  for (const sweep of report.sweeps ?? []) {
+    const functions = sweep.points.map(point => point.name).filter(name => provingTimes.has(name));
+    if (functions.length === 0) continue;
+    units.push({ contractName, functions, weight: functions.reduce((acc, name) => acc + provingTimes.get(name)!, 0) });
+    for (const name of functions) provingTimes.delete(name);
+  }
+  for (const [name, weight] of provingTimes) units.push({ contractName, functions: [name], weight });
+  return units;
+}
+
+/**
+ * Deterministically splits the benchmarks of a run across shards, balancing the proving times of a previous run.
+ * Each unit of work goes to the least loaded shard, heaviest first. A contract heavier than an even share is
+ * split by function; the shard of its heaviest function also runs the functions missing from the timings. Contracts without
+ * timings are never split and count as the average contract.
+ * Every shard computes the same plan from the same contracts and timings.
+ * @param contracts - Names of the contracts to run.
+ * @param timings - Previous reports keyed by contract name.
+ * @param count - Number of shards.
+ * @returns The assignment of each shard, in shard order.
+ */
+export function planShards(contracts: string[], timings: Map<string, ProfileReport>, count: number): ShardAssignment[] {
+  const names = [...new Set(contracts)].sort(compareNames);
+  const unitsByContract = new Map<string, WorkUnit[]>();
+  for (const contractName of names) {
+    const report = timings.get(contractName);
+    const units = report ? getWorkUnits(contractName, report) : [];
+    if (units.length > 0) unitsByContract.set(contractName, units);
+  }
+
+  const sumWeights = (units: WorkUnit[]) => units.reduce((acc, unit) => acc + unit.weight, 0);
+  const knownWeights = [...unitsByContract.values()].map(sumWeights);
+  const defaultWeight = knownWeights.length > 0 ? knownWeights.reduce((a, b) => a + b, 0) / knownWeights.length : 1;
+  const evenShare = names.reduce((acc, name) => acc + (unitsByContract.has(name) ? sumWeights(unitsByContract.get(name)!) : defaultWeight), 0) / count;
+
+  const units: WorkUnit[] = [];
+  for (const contractName of names) {
+    const contractUnits = unitsByContract.get(contractName);
+    const weight = contractUnits ? sumWeights(contractUnits) : defaultWeight;
+    if (contractUnits && contractUnits.length > 1 && weight > evenShare) units.push(...contractUnits);
+    else units.push({ contractName, functions: [], weight });
+  }
+  units.sort(
+    (a, b) =>
+      b.weight - a.weight || compareNames(a.contractName, b.contractName) || compareNames(a.functions[0] ?? '', b.functions[0] ?? ''),
+  );
+
+  const loads = new Array<number>(count).fill(0);
+  const shardOfUnit = new Map<WorkUnit, number>();
+  for (const unit of units) {
+    const shard = loads.indexOf(Math.min(...loads));
+    loads[shard] += unit.weight;
+    shardOfUnit.set(unit, shard);
+  }
+
+  const assignments: ShardAssignment[] = loads.map(weight => ({ contracts: [], functions: {}, weight }));
+  for (const contractName of names) {
+    const contractUnits = units.filter(unit => unit.contractName === contractName);
+    const shards = [...new Set(contractUnits.map(unit => shardOfUnit.get(unit)!))];
+    for (const shard of shards) assignments[shard].contracts.push(contractName);
+    if (shards.length === 1) continue;
+
+    // Units are sorted heaviest first, so the first shard holds the contract's heaviest function.
+    const mainShard = shards[0];
+    for (const shard of shards) {
+      const functionsOn = (inShard: boolean) =>
+        contractUnits.filter(unit => (shardOfUnit.get(unit) === shard) === inShard).flatMap(unit => unit.functions).sort(compareNames);
+      assignments[shard].functions[contractName] = shard === mainShard ? { except: functionsOn(false) } : { only: functionsOn(true) };
+    }
+  }
+  return assignments;
+}
+
+/**
+ * Checks whether a shard runs a function of a contract split across shards.
+ * @param name - Name of the function.
+ * @param functions - The functions the shard runs of the contract.
+ * @returns True if the shard runs the function.
+ */
+export function isInShard(name: string, functions: FunctionShard): boolean {
+  return functions.only ? functions.only.includes(name) : !(functions.except ?? []).includes(name);
+}
+
+/**
+ * Reads shard reports from files and directories of reports, e.g. the downloaded artifacts of each shard.
+ * @param inputs - Report files or directories of reports.
+ * @param suffix - Suffix of report filenames, stripped to get the contract name.
+ * @returns The reports of each contract, keyed by contract name.
+ * @throws If an input does not exist or a report cannot be read.
+ */
+export function loadShardReports(inputs: string[], suffix: string): Map<string, ShardReport[]> {
+  const reportsByContract = new Map<string, ShardReport[]>();
+  for (const input of inputs) {
+    if (!fs.existsSync(input)) throw new Error(`Path not found: ${input}`);
+    const files = fs.statSync(input).isDirectory() ? [...listReports(input, suffix)] : [[contractNameFromFile(input, suffix), input]];
+    for (const [contractName, file] of files) {
+      const shardReport = { report: readReport(file), source: path.relative(process.cwd(), file) };
+      reportsByContract.set(contractName, [...(reportsByContract.get(contractName) ?? []), shardReport]);
+    }
+  }
+  return reportsByContract;
+}
+
+/** Settings that only decide where a shard writes its reports, which may differ between shards */
+const OUTPUT_SETTINGS: Array<keyof BenchmarkSettings> = ['outputDir', 'history'];
+
+/**
+ * Describes how a shard differs from another in what makes their reports comparable.
+ * @param a - Provenance of the first shard.
+ * @param b - Provenance of the second shard.
+ * @returns The names of the differing fields; the start time and output location of each shard may differ.
+ */
+function diffProvenance(a: Provenance, b: Provenance): string[] {
+  const comparable = (provenance: Provenance) => {
+    const { timestamp, ...fields } = provenance;
+    if (!fields.config) return fields;
+    const settings = Object.fromEntries(Object.entries(fields.config.settings).filter(([key]) => !OUTPUT_SETTINGS.includes(key as keyof BenchmarkSettings)));
+    return { ...fields, config: { ...fields.config, settings } };
+  };
+  const [x, y] = [comparable(a), comparable(b)];
+  const fields = new Set([...Object.keys(x), ...Object.keys(y)] as Array<keyof typeof x>);
+  return [...fields].filter(field => !isDeepStrictEqual(x[field], y[field]));
+}
+
+/** System information that must match across shards: their measurements cannot be compared otherwise */
+const REQUIRED_SYSTEM_FIELDS: Array<keyof SystemInfo> = ['arch', 'cpuCores'];
+
+/**
+ * Checks that the shard reports of a run were produced on the same kind of machine, from the same code and with the same flags.
+ * Runners of the same kind can still differ in CPU model or memory, which is only warned about.
+ * @param reports - The shard reports of every contract.
+ * @returns Warnings about system information that differs without invalidating the comparison.
+ * @throws If two reports differ in architecture, core count or provenance.
+ */
+export function checkShardsAgree(reports: ShardReport[]): string[] {
+  const [first, ...others] = reports;
+  const warnings: string[] = [];
+  for (const other of others) {
+    const [a, b] = [first.report.systemInfo, other.report.systemInfo];
+    const differing = (Object.keys({ ...a, ...b }) as Array<keyof SystemInfo>).filter(field => !isDeepStrictEqual(a[field], b[field]));
+    const describe = (fields: Array<keyof SystemInfo>) =>
+      fields.map(field => `${field} ${JSON.stringify(b[field])} instead of ${JSON.stringify(a[field])}`).join(', ');
+    const required = differing.filter(field => REQUIRED_SYSTEM_FIELDS.includes(field));
+    if (required.length > 0) {
+      throw new Error(`${other.source} was run on a different system than ${first.source}: ${describe(required)}.`);
+    }
+    if (differing.length > 0) {
+      warnings.push(`${other.source} was run on a different machine than ${first.source}: ${describe(differing)}.`);
+    }
+    if (!first.report.provenance !== !other.report.provenance) {
+      throw new Error(`Only one of ${first.source} and ${other.source} records its provenance.`);
+    }
+    if (first.report.provenance && other.report.provenance) {
+      const fields = diffProvenance(first.report.provenance, other.report.provenance);
+      if (fields.length > 0) {
+        throw new Error(`${other.source} differs from ${first.source} in provenance: ${fields.join(', ')}.`);
+      }
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Merges the shard reports of a contract into a single report, as if the contract had been run on one machine.
+ * Results are ordered by shard, summaries are recomputed and the filter only lists the functions it excluded.
+ * A single report that is not a shard report is returned as is.
+ * @param contractName - Name of the contract.
+ * @param shardReports - The reports of the contract, one per shard that ran it.
+ * @returns The merged report, without `shard`.
+ * @throws If the reports are not from distinct shards of the same run, a function ran on two shards,
+ *         or functions left to other shards are missing.
+ */
+export function mergeShardReports(contractName: string, shardReports: ShardReport[]): ProfileReport {
+  const unsharded = shardReports.filter(({ report }) => !report.shard);
+  if (unsharded.length > 0) {
+    if (shardReports.length === 1) return shardReports[0].report;
+    throw new Error(`${contractName} has several reports, but ${unsharded.map(r => r.source).join(', ')} is not a shard report.`);
+  }
+
+  const sorted = [...shardReports].sort((a, b) => a.report.shard!.index - b.report.shard!.index);
+  for (const [i, { report, source }] of sorted.entries()) {
+    const previous = sorted[i - 1];
+    if (report.shard!.count !== sorted[0].report.shard!.count) {
+      throw new Error(`${source} is from a run split into ${report.shard!.count} shards, ${sorted[0].source} into ${sorted[0].report.shard!.count}.`);
+    }
+    if (previous && previous.report.shard!.index === report.shard!.index) {
+      throw new Error(`${previous.source} and ${source} are both shard ${report.shard!.index}/${report.shard!.count} of ${contractName}.`);
+    }
+  }
+
+  const results: ProfileResult[] = [];
+  const shardOf = new Map<string, number>();
+  for (const { report } of sorted) {
+    for (const result of report.results) {
+      const shard = shardOf.get(result.name);
+      if (shard !== undefined) {
+        // A whole contract that failed on several shards is shown once.
+        if (result.name === 'BENCHMARK_RUNNER_ERROR') continue;
+        throw new Error(`${result.name} of ${contractName} ran on shards ${shard} and ${report.shard!.index}.`);
+      }
+      shardOf.set(result.name, report.shard!.index);
+      results.push(result);
+    }
+  }
+
+  const skipped = new Set(sorted.flatMap(({ report }) => report.shard!.skipped ?? []));
+  const missing = [...skipped].filter(name => !shardOf.has(name));
+  if (missing.length > 0 && !shardOf.has('BENCHMARK_RUNNER_ERROR')) {
+    throw new Error(`The results of ${missing.join(', ')} of ${contractName}, run by other shards, are missing; pass the reports of every shard.`);
+  }
+
+  const reports = sorted.map(({ report }) => report);
+  const first = reports[0];
+  const timestamps = reports.map(report => report.provenance?.timestamp).filter((t): t is string => !!t).sort();
+  const filters = reports.filter(report => report.filter);
+  const violations = reports.filter(report => report.budgetViolations);
+  const sweeps = reports.filter(report => report.sweeps);
+  const { summary, gasSummary, provingTimeSummary } = summarizeResults(results);
+
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    summary,
+    results,
+    gasSummary,
+    provingTimeSummary,
+    systemInfo: first.systemInfo,
+    ...(first.provenance && { provenance: { ...first.provenance, timestamp: timestamps[0] } }),
+    ...(violations.length > 0 && { budgetViolations: violations.flatMap(report => report.budgetViolations!) }),
+    ...(filters.length > 0 && {
+      filter: {
+        ...filters[0].filter!,
+        excluded: [...new Set(filters.flatMap(report => report.filter!.excluded))].filter(name => !shardOf.has(name)),
+      },
+    }),
+    ...(sweeps.length > 0 && { sweeps: sweeps.flatMap(report => report.sweeps!) }),
+  };
+}
@@ -0,0 +1,66 @@
+import type { ProfileSample, SampleStats } from './types.js';
+
+/**
+ * Computes the value at the given percentile using linear interpolation.
+ * @param sorted - Samples sorted in ascending order.
+ * @param p - Percentile between 0 and 100.
+ * @returns The interpolated value, or 0 for an empty array.
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Computes the median of a list of numbers.
+ * @param values - The values (in any order).
+ * @returns The median, or 0 for an empty array.
+ */
+export function median(values: number[]): number {
+  return percentile([...values].sort((a, b) => a - b), 50);
+}
+
+/**
+ * Computes summary statistics over repeated measurements.
+ * Uses the sample (n - 1) standard deviation; a single sample has a stddev of 0.
+ * @param values - The measured values.
+ * @returns min, median, mean, p95 and stddev of the values.
+ */
+export function computeStats(values: number[]): SampleStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const mean = n > 0 ? sorted.reduce((a, b) => a + b, 0) / n : 0;
+  const variance = n > 1 ? sorted.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (n - 1) : 0;
+
+  return {
+    min: sorted[0] ?? 0,
+    median: percentile(sorted, 50),
+    mean,
+    p95: percentile(sorted, 95),
+    stddev: Math.sqrt(variance),
+  };
+}
+
+/**
+ * Lists the metrics that differ between samples even though they should be deterministic.
+ * Gate counts and gas do not depend on the hardware, so any variation points at
+ * a benchmark that mutates state between runs.
+ * @param samples - The samples of a single function.
+ * @returns The names of the metrics that are not identical across samples.
+ */
+export function findNondeterministicMetrics(samples: ProfileSample[]): string[] {
+  if (samples.length < 2) return [];
+  const [first, ...rest] = samples;
+  const mismatches: string[] = [];
+
+  if (rest.some(s => s.totalGateCount !== first.totalGateCount)) {
+    mismatches.push('gate counts');
+  }
+  if (rest.some(s => JSON.stringify(s.gas) !== JSON.stringify(first.gas))) {
+    mismatches.push('gas');
+  }
+  return mismatches;
+}
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { buildSweepSeries, expandSweepRange, fitCostModel, sweep } from './sweep.js';
+import { fakeMethod } from './testing.js';
+import type { ProfileResult } from './types.js';
+
+/**
+ * Builds the points of a cost curve.
+ * @param xs - Parameter values.
+ * @param cost - Cost at a parameter value.
+ * @returns The points.
+ */
+function points(xs: number[], cost: (x: number) => number) {
+  return xs.map(x => ({ x, y: cost(x) }));
+}
+
+describe('expandSweepRange', () => {
+  it('expands integer ranges and sorts lists without duplicates', () => {
+    assert.deepEqual(expandSweepRange({ from: 1, to: 4 }), [1, 2, 3, 4]);
+    assert.deepEqual(expandSweepRange({ from: 0, to: 10, step: 4 }), [0, 4, 8]);
+    assert.deepEqual(expandSweepRange([8, 1, 4, 1]), [1, 4, 8]);
+  });
+
+  it('includes the last value of fractional ranges exactly once', () => {
+    assert.deepEqual(expandSweepRange({ from: 0.1, to: 1, step: 0.1 }), [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]);
+    assert.deepEqual(expandSweepRange({ from: 0, to: 0.3, step: 0.1 }), [0, 0.1, 0.2, 0.3]);
+    assert.deepEqual(expandSweepRange({ from: 0.5, to: 1.75, step: 0.25 }), [0.5, 0.75, 1, 1.25, 1.5, 1.75]);
+  });
+
+  it('rejects non-positive steps and ranges without two distinct values', () => {
+    assert.throws(() => expandSweepRange({ from: 1, to: 4, step: 0 }), /Sweep step must be positive, got 0/);
+    assert.throws(() => expandSweepRange({ from: 4, to: 1 }), /at least two distinct finite values/);
+    assert.throws(() => expandSweepRange([2, 2]), /at least two distinct finite values, got \[2, 2\]/);
+  });
+});
+
+describe('fitCostModel', () => {
+  it('fits a linear model to a linear cost', () => {
+    const model = fitCostModel(points([1, 2, 4, 8], x => 1_000 + 250 * x));
+
+    assert.deepEqual(model, { kind: 'linear', marginal: 250, intercept: 1_000, r2: 1 });
+  });
+
+  it('fits a step model to a cost rising every few units', () => {
+    const model = fitCostModel(points([1, 2, 3, 4, 5, 6, 7, 8], x => 1_000 + 500 * Math.ceil(x / 4)));
+
+    assert.deepEqual(model, { kind: 'step', marginal: 125, intercept: 1_000, r2: 1, stepWidth: 4, stepCost: 500 });
+  });
+
+  it('keeps the linear model when a step model is not clearly better', () => {
+    const noise = [0, 30, -20, 10, -30, 20, -10, 0];
+    const model = fitCostModel(points([1, 2, 3, 4, 5, 6, 7, 8], x => 1_000 + 250 * x + noise[x - 1]));
+
+    assert.equal(model?.kind, 'linear');
+    assert.ok(Math.abs(model!.marginal - 250) < 10);
+  });
+
+  it('fits only a linear model to fractional parameters', () => {
+    const model = fitCostModel(points([0.5, 1, 1.5, 2], x => 100 * Math.ceil(x)));
+
+    assert.equal(model?.kind, 'linear');
+  });
+
+  it('fits a flat cost with a zero marginal cost, and nothing to a constant parameter', () => {
+    assert.deepEqual(fitCostModel(points([1, 2, 4], () => 500)), { kind: 'linear', marginal: 0, intercept: 500, r2: 1 });
+    assert.equal(fitCostModel(points([3, 3, 3], x => x * 100)), undefined);
+  });
+});
+
+describe('buildSweepSeries', () => {
+  it('fits each series over its successful points', () => {
+    const entries = sweep({ name: 'transfer', parameter: 'note', values: [1, 2, 4, 8] }, notes => fakeMethod(`transfer_${notes}`));
+    const results: ProfileResult[] = entries.map(entry => ({
+      name: entry.name,
+      totalGateCount: 1_000 + 250 * entry.sweep!.value,
+      gateCounts: [],
+      status: entry.sweep!.value === 8 ? 'failed' : 'success',
+    }));
+
+    const [series] = buildSweepSeries(entries, results);
+
+    assert.deepEqual(series.points.map(point => point.name), ['transfer (note=1)', 'transfer (note=2)', 'transfer (note=4)', 'transfer (note=8)']);
+    assert.deepEqual(series.fits.gates, { kind: 'linear', marginal: 250, intercept: 1_000, r2: 1 });
+    assert.equal(series.fits.daGas, undefined);
+  });
+});
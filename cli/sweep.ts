@@ -0,0 +1,218 @@
+import type {
+  BenchmarkedIntent,
+  CostModel,
+  NamedBenchmarkedInteraction,
+  ProfileResult,
+  SweepMetric,
+  SweepSeries,
+} from './types.js';
+
+/** Values of a swept parameter: a list, or an inclusive range */
+export type SweepRange = number[] | { from: number; to: number; step?: number };
+
+/** Options of a parameter sweep */
+export interface SweepOptions extends Pick<NamedBenchmarkedInteraction, 'additionalScopes' | 'runs' | 'warmup' | 'timeout' | 'tags' | 'sendMode'> {
+  /** Name of the sweep, e.g. `transfer`. Each point is named `<name> (<parameter>=<value>)`. */
+  name: string;
+  /** Singular name of the swept parameter, e.g. `note`. */
+  parameter: string;
+  /** Values of the parameter to benchmark. */
+  values: SweepRange;
+}
+
+/**
+ * Builds the interaction benchmarked for one value of the parameter, or an entry with options and
+ * an `interaction` that may itself be a lazy InteractionFactory. Its name is replaced by the point's.
+ */
+export type SweepFactory = (value: number) => BenchmarkedIntent | Omit<NamedBenchmarkedInteraction, 'name'>;
+
+/** Reads each fitted metric from a result */
+const SWEEP_METRICS: Array<{ metric: SweepMetric; read: (result: ProfileResult) => number | undefined }> = [
+  { metric: 'gates', read: r => r.totalGateCount },
+  { metric: 'daGas', read: r => r.gas?.gasLimits?.daGas },
+  { metric: 'l2Gas', read: r => r.gas?.gasLimits?.l2Gas },
+];
+
+/**
+ * How much smaller the squared error of a step model must be than that of the linear model to be preferred.
+ * The step width is an extra free parameter, so a step model fits noisy data slightly better by chance.
+ */
+const STEP_MODEL_ERROR_RATIO = 0.25;
+
+/**
+ * Counts the decimals of a number, e.g. of a range's step.
+ * @param value - The number.
+ * @returns The number of digits after the decimal point.
+ */
+function decimalPlaces(value: number): number {
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  return Math.max(0, (mantissa.split('.')[1]?.length ?? 0) - Number(exponent));
+}
+
+/**
+ * Expands a sweep range into its values.
+ * @param range - The values, or an inclusive range.
+ * @returns The values, in ascending order.
+ * @throws If the range has fewer than two distinct finite values or a non-positive step.
+ */
+export function expandSweepRange(range: SweepRange): number[] {
+  let values: number[];
+  if (Array.isArray(range)) {
+    values = range;
+  } else {
+    const step = range.step ?? 1;
+    if (!(step > 0)) throw new Error(`Sweep step must be positive, got ${step}`);
+    // Each value is computed from the start instead of accumulating the step, whose rounding errors would drop
+    // or duplicate the last value of a fractional range, and is rounded to the decimals of the range.
+    const count = Math.floor((range.to - range.from) / step + 1e-9) + 1;
+    const decimals = Math.min(Math.max(decimalPlaces(range.from), decimalPlaces(step)), 100);
+    values = Array.from({ length: Math.max(count, 0) }, (_, i) => Number((range.from + i * step).toFixed(decimals)));
+  }
+  const unique = [...new Set(values)].sort((a, b) => a - b);
+  if (unique.length < 2 || unique.some(v => !Number.isFinite(v))) {
+    throw new Error(`A sweep needs at least two distinct finite values, got [${values.join(', ')}]`);
+  }
+  return unique;
+}
+
+/**
+ * Creates one NamedBenchmarkedInteraction per value of a parameter, grouped as a sweep in the report.
+ * The report fits a cost model per metric over the points, and the comparison shows the marginal cost per unit.
+ * @example
+ * getMethods(context) {
+ *   return [
+ *     ...sweep({ name: 'transfer', parameter: 'note', values: [1, 2, 4, 8] }, notes => ({
+ *       caller: alice,
+ *       action: token.methods.transfer_in_notes(alice, bob, notes),
+ *     })),
+ *   ];
+ * }
+ * @param options - Name of the sweep, the parameter and its values, and options applied to every point.
+ * @param factory - Builds the interaction, or an entry with its options, for a value.
+ * @returns The entries, in ascending order of the parameter.
+ */
+export function sweep(options: SweepOptions, factory: SweepFactory): NamedBenchmarkedInteraction[] {
+  const { name, parameter, values, ...entryOptions } = options;
+  return expandSweepRange(values).map(value => {
+    const created = factory(value);
+    const entry = 'interaction' in created ? created : { interaction: created };
+    return {
+      ...entryOptions,
+      ...entry,
+      name: `${name} (${parameter}=${value})`,
+      sweep: { series: name, parameter, value },
+    };
+  });
+}
+
+/**
+ * Fits cost = intercept + slope × feature by least squares.
+ * @param points - Feature and cost of each point.
+ * @returns The slope, intercept and sum of squared errors, or undefined if the feature is constant.
+ */
+function leastSquares(points: Array<{ x: number; y: number }>): { slope: number; intercept: number; sse: number } | undefined {
+  const n = points.length;
+  const meanX = points.reduce((acc, p) => acc + p.x, 0) / n;
+  const meanY = points.reduce((acc, p) => acc + p.y, 0) / n;
+  const sxx = points.reduce((acc, p) => acc + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return undefined;
+  const slope = points.reduce((acc, p) => acc + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+  const intercept = meanY - slope * meanX;
+  const sse = points.reduce((acc, p) => acc + (p.y - intercept - slope * p.x) ** 2, 0);
+  return { slope, intercept, sse };
+}
+
+/**
+ * Rounds a fitted coefficient for the report.
+ * @param value - The coefficient.
+ * @param digits - Number of decimals to keep.
+ * @returns The rounded value.
+ */
+const round = (value: number, digits = 2): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Fits a cost model to the cost measured at each value of a parameter.
+ * A linear model is used unless a step model (cost rising every `stepWidth` units, for integer parameters)
+ * fits clearly better.
+ * @param points - Parameter value (`x`) and measured cost (`y`) of each point.
+ * @returns The model, or undefined with fewer than two distinct parameter values.
+ */
+export function fitCostModel(points: Array<{ x: number; y: number }>): CostModel | undefined {
+  const linear = leastSquares(points);
+  if (!linear) return undefined;
+
+  const meanY = points.reduce((acc, p) => acc + p.y, 0) / points.length;
+  const sst = points.reduce((acc, p) => acc + (p.y - meanY) ** 2, 0);
+  const r2 = (sse: number) => round(sst === 0 ? 1 : 1 - sse / sst, 4);
+
+  let best: { width: number; slope: number; intercept: number; sse: number } | undefined;
+  const distinct = new Set(points.map(p => p.x)).size;
+  if (distinct >= 3 && points.every(p => Number.isInteger(p.x) && p.x >= 0)) {
+    const maxX = Math.max(...points.map(p => p.x));
+    for (let width = 2; width <= maxX; width++) {
+      const fit = leastSquares(points.map(p => ({ x: Math.ceil(p.x / width), y: p.y })));
+      if (fit && (!best || fit.sse < best.sse)) best = { width, ...fit };
+    }
+  }
+
+  if (best && best.sse < linear.sse * STEP_MODEL_ERROR_RATIO) {
+    return {
+      kind: 'step',
+      marginal: round(best.slope / best.width),
+      intercept: round(best.intercept),
+      r2: r2(best.sse),
+      stepWidth: best.width,
+      stepCost: round(best.slope),
+    };
+  }
+  return { kind: 'linear', marginal: round(linear.slope), intercept: round(linear.intercept), r2: r2(linear.sse) };
+}
+
+/**
+ * Groups the results of sweep entries into series and fits their cost models.
+ * Failed points are listed but left out of the fits.
+ * @param entries - The benchmarked entries; only those created by `sweep` are used.
+ * @param results - The profiling results.
+ * @returns One series per sweep, in the order they were first returned by getMethods.
+ */
+export function buildSweepSeries(
+  entries: Array<BenchmarkedIntent | NamedBenchmarkedInteraction>,
+  results: ProfileResult[],
+): SweepSeries[] {
+  const series = new Map<string, SweepSeries>();
+  for (const entry of entries) {
+    if (!('sweep' in entry) || !entry.sweep) continue;
+    const { series: name, parameter, value } = entry.sweep;
+    if (!series.has(name)) series.set(name, { name, parameter, points: [], fits: {} });
+    series.get(name)!.points.push({ value, name: entry.name });
+  }
+
+  for (const s of series.values()) {
+    s.points.sort((a, b) => a.value - b.value);
+    const measured = s.points.flatMap(point => {
+      const result = results.find(r => r.name === point.name && r.status !== 'failed');
+      return result ? [{ x: point.value, result }] : [];
+    });
+    for (const { metric, read } of SWEEP_METRICS) {
+      const points = measured.flatMap(({ x, result }) => {
+        const y = read(result);
+        return y === undefined ? [] : [{ x, y }];
+      });
+      const model = fitCostModel(points);
+      if (model) s.fits[metric] = model;
+    }
+  }
+  return [...series.values()];
+}
+
+/**
+ * Describes the fitted gate cost of a series for the run log.
+ * @param s - The series.
+ * @returns E.g. `transfer: 12,345 gates per note (linear, r² 0.9998)`.
+ */
+export function describeSweep(s: SweepSeries): string {
+  const gates = s.fits.gates;
+  if (!gates) return `${s.name}: not enough successful points to fit a cost model`;
+  const shape = gates.kind === 'step' ? `steps of ${gates.stepWidth}` : 'linear';
+  return `${s.name}: ${gates.marginal.toLocaleString()} gates per ${s.parameter} (${shape}, r² ${gates.r2})`;
+}
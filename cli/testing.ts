@@ -0,0 +1,435 @@
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import {
+  NO_WAIT,
+  type ContractFunctionInteraction,
+  type DeployMethod,
+  type DeployOptions,
+  type NoWait,
+  type ProfileInteractionOptions,
+  type RequestDeployOptions,
+  type RequestInteractionOptions,
+  type SendInteractionOptions,
+  type SimulateDeployOptions,
+  type SimulateInteractionOptions,
+} from '@aztec/aztec.js/contracts';
+import type { AztecNode } from '@aztec/aztec.js/node';
+import { TxExecutionResult, TxHash, TxReceipt, TxStatus, type ExecutionPayload } from '@aztec/aztec.js/tx';
+import type { ProfileOptions, SimulateOptions } from '@aztec/aztec.js/wallet';
+import type { EmbeddedWallet } from '@aztec/wallets/embedded';
+
+import type { GasLimits, GasUsage, GateCount, NamedBenchmarkedInteraction, SideEffects } from './types.js';
+
+/** Methods of an interaction called by the profiler */
+export type FakeMethod = 'request' | 'simulate' | 'profile' | 'send';
+
+/**
+ * Options each method of a fake interaction receives: those of a function interaction, or those of a deploy
+ * method when the fake stands in for one.
+ */
+export interface FakeCallOptions {
+  request: RequestInteractionOptions | RequestDeployOptions | undefined;
+  simulate: SimulateInteractionOptions | SimulateDeployOptions;
+  profile: ProfileInteractionOptions | (DeployOptions & ProfileInteractionOptions);
+  send: SendInteractionOptions<NoWait | undefined> | DeployOptions<NoWait | undefined>;
+}
+
+/** A call made to a fake interaction, with the options it was given */
+export type FakeCall = { [M in FakeMethod]: { method: M; options: FakeCallOptions[M] } }[FakeMethod];
+
+/** A call made to a fake wallet, with the execution payload and options it was given */
+export type FakeWalletCall =
+  | { method: 'simulateTx'; options: SimulateOptions & { payload: ExecutionPayload } }
+  | { method: 'profileTx'; options: ProfileOptions & { payload: ExecutionPayload } };
+
+/** What a fake interaction returns, or throws, when the profiler calls it */
+export interface FakeInteractionScript {
+  /** Name of the called function, used when the profiler derives the benchmark name. */
+  name: string;
+  /** Circuits returned by `profile`, in execution order. */
+  circuits?: GateCount[];
+  /** Gas estimated by `simulate`, used when the profiler has no wallet. */
+  gas?: GasLimits;
+  /**
+   * Proving time returned by `profile` unless proof generation is skipped, in milliseconds.
+   * A list gives the time of each successive `profile` call, repeating the last one.
+   */
+  provingTime?: number | number[];
+  /** Fee paid by the sent transaction, in base units of Fee Juice. */
+  fee?: bigint;
+  /** When set, the sent transaction is mined but reverts with this reason. */
+  revertReason?: string;
+  /** Error messages thrown by a method. */
+  errors?: Partial<Record<FakeMethod, string>>;
+  /** Time a method takes before returning, in milliseconds, e.g. to exercise timeouts. */
+  delays?: Partial<Record<FakeMethod, number>>;
+}
+
+/** What a fake wallet returns when the profiler simulates a transaction through it */
+export interface FakeWalletScript {
+  /** Gas used by the transaction. Zero gas is used by default. */
+  gasUsed?: GasUsage;
+  /** Side effects of the transaction. Missing counts are zero. */
+  sideEffects?: Partial<SideEffects>;
+  /** Circuits returned by `profileTx`, in execution order. */
+  circuits?: GateCount[];
+  /** Proving time returned by `profileTx` unless proof generation is skipped, in milliseconds. */
+  provingTime?: number;
+  /** Error message thrown by `simulateTx`. */
+  error?: string;
+}
+
+const ZERO_GAS = { daGas: 0, l2Gas: 0 };
+
+const NO_SIDE_EFFECTS: SideEffects = {
+  noteHashes: 0,
+  nullifiers: 0,
+  privateLogs: 0,
+  publicLogs: 0,
+  l2ToL1Messages: 0,
+  publicDataWrites: 0,
+  enqueuedPublicCalls: 0,
+  calldataBytes: 0,
+  logBytes: 0,
+};
+
+/** Size of a field element, the unit of calldata and logs */
+const FIELD_SIZE_IN_BYTES = 32;
+
+/** Hash of the next transaction sent by a fake interaction */
+let nextTxHash = 1n;
+
+/**
+ * Waits before a fake method returns.
+ * @param ms - The delay, or undefined for none.
+ */
+async function delay(ms: number | undefined) {
+  if (ms) await new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Builds a list of `count` items, e.g. the note hashes of a fake transaction.
+ * @param count - Number of items.
+ * @param item - Builds the item at an index.
+ * @returns The items.
+ */
+function times<T>(count: number, item: (index: number) => T): T[] {
+  return Array.from({ length: count }, (_, index) => item(index));
+}
+
+/**
+ * A node that mines every transaction sent through a fake interaction in its own block.
+ * Pass it as the `node` of the benchmark context to exercise the `send-and-wait` send mode.
+ */
+export class FakeNode {
+  #receipts = new Map<string, TxReceipt>();
+  #blockNumber: number;
+
+  /**
+   * @param blockNumber - Number of the last block; the first mined transaction is included in the next one.
+   */
+  constructor(blockNumber = 0) {
+    this.#blockNumber = blockNumber;
+  }
+
+  /**
+   * Mines a transaction in a new block.
+   * @param txHash - The transaction.
+   * @param fee - The fee it paid.
+   * @param revertReason - When set, the transaction reverts with this reason.
+   * @returns Its receipt.
+   */
+  mine(txHash: TxHash, fee?: bigint, revertReason?: string): TxReceipt {
+    const receipt = new TxReceipt(
+      txHash,
+      TxStatus.CHECKPOINTED,
+      revertReason ? TxExecutionResult.APP_LOGIC_REVERTED : TxExecutionResult.SUCCESS,
+      revertReason,
+      fee,
+      undefined,
+      ++this.#blockNumber as TxReceipt['blockNumber'],
+    );
+    this.#receipts.set(txHash.toString(), receipt);
+    return receipt;
+  }
+
+  /**
+   * Reads the receipt of a transaction, as AztecNode does.
+   * @param txHash - The transaction.
+   * @returns Its receipt, or a dropped receipt if it was never mined.
+   */
+  async getTxReceipt(txHash: TxHash): Promise<TxReceipt> {
+    return this.#receipts.get(txHash.toString()) ?? new TxReceipt(txHash, TxStatus.DROPPED, undefined, 'Unknown transaction');
+  }
+
+  /**
+   * @returns This node, typed as the context expects it.
+   */
+  asNode(): AztecNode {
+    return this as unknown as AztecNode;
+  }
+}
+
+/**
+ * A scriptable stand-in for a ContractFunctionInteraction that returns configured gate counts, gas, timings
+ * and errors instead of executing anything, so the profiler and benchmark wiring can be tested without a
+ * sandbox or a prover. Every call is recorded in `calls`.
+ * @example
+ * const transfer = new FakeInteraction({ name: 'transfer', circuits: [{ circuitName: 'Token:transfer', gateCount: 1000 }] });
+ * const [result] = await new Profiler(undefined, { skipProving: true }).profile([transfer.toIntent()]);
+ */
+export class FakeInteraction {
+  /** The calls made to this interaction, in order. */
+  readonly calls: FakeCall[] = [];
+  #script: FakeInteractionScript;
+  #node?: FakeNode;
+  #profileCount = 0;
+
+  /**
+   * @param script - What the interaction returns or throws.
+   * @param node - Node that mines the sent transactions; without it they are reported mined without being recorded.
+   */
+  constructor(script: FakeInteractionScript, node?: FakeNode) {
+    this.#script = script;
+    this.#node = node;
+  }
+
+  /**
+   * Records a call, waits for its delay and throws its scripted error, if any.
+   * @param call - The called method and the options it was given.
+   */
+  async #call(call: FakeCall) {
+    this.calls.push(call);
+    await delay(this.#script.delays?.[call.method]);
+    const error = this.#script.errors?.[call.method];
+    if (error) throw new Error(error);
+  }
+
+  /**
+   * @param options - The request options.
+   * @returns An execution payload with a single call named after the function.
+   */
+  async request(options?: FakeCallOptions['request']) {
+    await this.#call({ method: 'request', options });
+    return { calls: [{ name: this.#script.name }] };
+  }
+
+  /**
+   * @param options - The simulation options.
+   * @returns No return value, and the scripted gas estimate.
+   */
+  async simulate(options: FakeCallOptions['simulate']) {
+    await this.#call({ method: 'simulate', options });
+    return { result: undefined, estimatedGas: this.#script.gas };
+  }
+
+  /**
+   * @param options - The profiling options.
+   * @returns The scripted circuits as execution steps, and the proving time unless proof generation is skipped.
+   */
+  async profile(options: FakeCallOptions['profile']) {
+    await this.#call({ method: 'profile', options });
+    const { provingTime } = this.#script;
+    const provingTimes = Array.isArray(provingTime) ? provingTime : provingTime !== undefined ? [provingTime] : [];
+    const proving = provingTimes[Math.min(this.#profileCount++, provingTimes.length - 1)];
+    return {
+      executionSteps: (this.#script.circuits ?? []).map(circuit => ({
+        functionName: circuit.circuitName,
+        gateCount: circuit.gateCount,
+        timings: { witgen: circuit.witgenMs },
+      })),
+      stats: { timings: { proving: options.skipProofGeneration ? undefined : proving } },
+    };
+  }
+
+  /**
+   * Sends the transaction, mining it on the node if there is one.
+   * @param options - The send options.
+   * @returns The transaction hash with `wait: NO_WAIT`, otherwise the receipt of the mined transaction.
+   * @throws If the scripted transaction reverts and the receipt was waited for.
+   */
+  async send(options: FakeCallOptions['send']) {
+    await this.#call({ method: 'send', options });
+    const txHash = TxHash.fromBigInt(nextTxHash++);
+    const { fee, revertReason } = this.#script;
+    const receipt = this.#node
+      ? this.#node.mine(txHash, fee, revertReason)
+      : new FakeNode().mine(txHash, fee, revertReason);
+    if (options.wait === NO_WAIT) return { txHash };
+    if (!receipt.hasExecutionSucceeded()) {
+      throw new Error(`Transaction ${txHash.toString()} reverted: ${receipt.executionResult}. Reason: ${revertReason}`);
+    }
+    return { txHash, receipt };
+  }
+
+  /**
+   * @returns This interaction, typed as the profiler expects it.
+   */
+  asInteraction(): ContractFunctionInteraction {
+    return this as unknown as ContractFunctionInteraction;
+  }
+
+  /**
+   * @returns This interaction, typed as the deploy method of a DeploymentIntent.
+   */
+  asDeployMethod(): DeployMethod {
+    return this as unknown as DeployMethod;
+  }
+
+  /**
+   * @param caller - The account sending the transaction.
+   * @returns A benchmarked call of this interaction.
+   */
+  toIntent(caller: AztecAddress = AztecAddress.ZERO) {
+    return { caller, action: this.asInteraction() };
+  }
+}
+
+/**
+ * A stand-in for the EmbeddedWallet returned by `setup()`, which the profiler simulates transactions through
+ * to read their estimated gas, gas used and side effects, and profiles batches through.
+ * Every call is recorded in `calls`.
+ */
+export class FakeWallet {
+  /** The calls made to this wallet, in order. */
+  readonly calls: FakeWalletCall[] = [];
+  #script: FakeWalletScript;
+
+  /**
+   * @param script - What the wallet returns or throws.
+   */
+  constructor(script: FakeWalletScript = {}) {
+    this.#script = script;
+  }
+
+  /**
+   * Simulates a transaction.
+   * @param payload - The execution payload of the transaction.
+   * @param options - The simulation options.
+   * @returns A simulation result with the scripted gas and side effects, as read from its public output.
+   */
+  async simulateTx(payload: ExecutionPayload, options: SimulateOptions) {
+    this.calls.push({ method: 'simulateTx', options: { payload, ...options } });
+    if (this.#script.error) throw new Error(this.#script.error);
+
+    const gasUsed = this.#script.gasUsed ?? {
+      privateExecution: ZERO_GAS,
+      publicSetupAndAppLogic: ZERO_GAS,
+      teardown: ZERO_GAS,
+      total: ZERO_GAS,
+      billed: ZERO_GAS,
+    };
+    const effects = { ...NO_SIDE_EFFECTS, ...this.#script.sideEffects };
+    // All log fields are put in the first log, as only their total size is reported.
+    const logFields = effects.logBytes / FIELD_SIZE_IN_BYTES;
+    const privateLogFields = effects.privateLogs > 0 ? logFields : 0;
+    const publicLogFields = effects.privateLogs > 0 ? 0 : logFields;
+    return {
+      gasUsed: {
+        totalGas: gasUsed.total,
+        publicGas: {
+          daGas: gasUsed.publicSetupAndAppLogic.daGas + gasUsed.teardown.daGas,
+          l2Gas: gasUsed.publicSetupAndAppLogic.l2Gas + gasUsed.teardown.l2Gas,
+        },
+        teardownGas: gasUsed.teardown,
+        billedGas: gasUsed.billed,
+      },
+      publicInputs: { numberOfPublicCallRequests: () => effects.enqueuedPublicCalls },
+      publicOutput: {
+        txEffect: {
+          noteHashes: times(effects.noteHashes, () => ({})),
+          nullifiers: times(effects.nullifiers, () => ({})),
+          privateLogs: times(effects.privateLogs, i => ({ emittedLength: i === 0 ? privateLogFields : 0 })),
+          publicLogs: times(effects.publicLogs, i => ({ fields: times(i === 0 ? publicLogFields : 0, () => 0) })),
+          l2ToL1Msgs: times(effects.l2ToL1Messages, () => ({})),
+          publicDataWrites: times(effects.publicDataWrites, () => ({})),
+        },
+      },
+      privateExecutionResult: {
+        publicFunctionCalldata: [{ values: times(effects.calldataBytes / FIELD_SIZE_IN_BYTES, () => 0) }],
+      },
+    };
+  }
+
+  /**
+   * Profiles a transaction.
+   * @param payload - The execution payload of the transaction.
+   * @param options - The profiling options.
+   * @returns The scripted circuits as execution steps, and the proving time unless proof generation is skipped.
+   */
+  async profileTx(payload: ExecutionPayload, options: ProfileOptions) {
+    this.calls.push({ method: 'profileTx', options: { payload, ...options } });
+    return {
+      executionSteps: (this.#script.circuits ?? []).map(circuit => ({
+        functionName: circuit.circuitName,
+        gateCount: circuit.gateCount,
+        timings: { witgen: circuit.witgenMs },
+      })),
+      stats: { timings: { proving: options.skipProofGeneration ? undefined : this.#script.provingTime } },
+    };
+  }
+
+  /**
+   * @returns This wallet, typed as the profiler and benchmark context expect it.
+   */
+  asWallet(): EmbeddedWallet {
+    return this as unknown as EmbeddedWallet;
+  }
+}
+
+/**
+ * Creates a named benchmark entry of a fake interaction, as returned by `getMethods`.
+ * @param name - Name of the benchmark.
+ * @param script - What the interaction returns or throws; its function name defaults to the benchmark name.
+ * @param node - Node that mines the sent transactions.
+ * @returns The entry and the fake interaction, whose `calls` can be inspected.
+ */
+export function fakeMethod(
+  name: string,
+  script: Partial<FakeInteractionScript> = {},
+  node?: FakeNode,
+): NamedBenchmarkedInteraction & { fake: FakeInteraction } {
+  const fake = new FakeInteraction({ name, ...script }, node);
+  return { name, interaction: fake.toIntent(), fake };
+}
+
+/**
+ * Reads the options a fake interaction was given by a call of one of its methods.
+ * @param calls - The calls made to the fake.
+ * @param method - The called method.
+ * @param index - Which call of the method to read, in call order.
+ * @returns The options of the call, typed for the method.
+ * @throws If the method was called fewer times.
+ */
+export function optionsOf<M extends FakeMethod>(calls: FakeCall[], method: M, index = 0): FakeCallOptions[M] {
+  type CallOf = FakeCall & { method: M; options: FakeCallOptions[M] };
+  const call = calls.filter((call): call is CallOf => call.method === method)[index];
+  if (!call) throw new Error(`${method} was called fewer than ${index + 1} time(s)`);
+  return call.options;
+}
+
+/**
+ * Builds the options of a `send` call, for tests that call an interaction or a wrapper directly.
+ * @param options - Options to set; `from` defaults to the zero address.
+ * @returns The options, typed as `send` expects them.
+ */
+export function sendOptions(options: Partial<SendInteractionOptions> = {}): SendInteractionOptions {
+  return { from: AztecAddress.ZERO, ...options };
+}
+
+/**
+ * Builds the options of a `simulate` call, for tests that call an interaction or a wrapper directly.
+ * @param options - Options to set; `from` defaults to the zero address.
+ * @returns The options, typed as `simulate` expects them.
+ */
+export function simulateOptions(options: Partial<SimulateInteractionOptions> = {}): SimulateInteractionOptions {
+  return { from: AztecAddress.ZERO, ...options };
+}
+
+/**
+ * Builds the options of a `profile` call, for tests that call an interaction or a wrapper directly.
+ * @param options - Options to set; `from` defaults to the zero address and `profileMode` to `full`.
+ * @returns The options, typed as `profile` expects them.
+ */
+export function profileOptions(options: Partial<ProfileInteractionOptions> = {}): ProfileInteractionOptions {
+  return { from: AztecAddress.ZERO, profileMode: 'full', ...options };
+}
@@ -1,7 +1,23 @@
 import type { AztecAddress } from '@aztec/aztec.js/addresses';
 import type { ContractFunctionInteractionCallIntent } from '@aztec/aztec.js/authorization';
+import type {
+  ContractFunctionInteraction,
+  DeployMethod,
+  DeployOptions,
+  InteractionWaitOptions,
+  ProfileInteractionOptions,
+  RequestInteractionOptions,
+  SendInteractionOptions,
+  SendReturn,
+  SimulateInteractionOptions,
+  SimulationResult,
+} from '@aztec/aztec.js/contracts';
 import type { FeePaymentMethod } from '@aztec/aztec.js/fee';
+import type { AztecNode } from '@aztec/aztec.js/node';
+import type { ExecutionPayload, TxProfileResult } from '@aztec/aztec.js/tx';
 import { EmbeddedWallet } from '@aztec/wallets/embedded';
+import type { Reporter } from './events.js';
+import type { ExportFormat } from './exporters.js';
 import type { SystemInfo } from './systemInfo.js';
 
 export type { SystemInfo } from './systemInfo.js';
@@ -20,6 +36,46 @@ export type GasLimits = {
   teardownGasLimits: Gas;
 };
 
+/**
+ * Gas used by a transaction, as simulated through the wallet before it is sent.
+ * Neither receipts nor simulations report the gas of the public setup and app logic phases separately,
+ * so they are combined in `publicSetupAndAppLogic`.
+ */
+export interface GasUsage {
+  /** Gas used by private execution, in setup and app logic, including the fixed gas charged for every transaction. */
+  privateExecution: Gas;
+  /** Gas used by the public setup and app logic calls together. */
+  publicSetupAndAppLogic: Gas;
+  /** Gas used by the public teardown call, e.g. the refund of a fee payment contract. */
+  teardown: Gas;
+  /** Total gas used by the transaction. */
+  total: Gas;
+  /** Gas the fee was charged for: the total with the teardown gas limit instead of the teardown gas used. */
+  billed: Gas;
+}
+
+/** Side effects emitted by a transaction */
+export interface SideEffects {
+  /** Number of note hashes. */
+  noteHashes: number;
+  /** Number of nullifiers, including the one derived from the tx hash. */
+  nullifiers: number;
+  /** Number of private logs. */
+  privateLogs: number;
+  /** Number of public logs. */
+  publicLogs: number;
+  /** Number of L2 to L1 messages. */
+  l2ToL1Messages: number;
+  /** Number of public data writes. */
+  publicDataWrites: number;
+  /** Number of public calls enqueued by private execution. */
+  enqueuedPublicCalls: number;
+  /** Size of the calldata of the enqueued public calls, in bytes. */
+  calldataBytes: number;
+  /** Size of the emitted private and public logs, in bytes. */
+  logBytes: number;
+}
+
 /** Benchmark specific setup/teardown context */
 export interface BenchmarkContext {
   wallet?: EmbeddedWallet;
@@ -27,8 +83,22 @@ export interface BenchmarkContext {
    *  When set, the profiler passes this to every send/prove call.
    *  When unset, the sender must have pre-existing Fee Juice. */
   feePaymentMethod?: FeePaymentMethod;
+  /** Node the wallet sends transactions to. Required by the `send-and-wait` send mode to wait for receipts. */
+  node?: AztecNode;
 }
 
+/**
+ * How a benchmarked transaction is sent once it was measured.
+ * - `none`: only simulate and profile it; its state changes are not applied.
+ * - `send`: prove and send it, and let the wallet wait for it to be mined.
+ * - `send-and-wait`: prove and send it, wait for its receipt through the node, fail if it reverted
+ *   and record how long it took to be proven, submitted and mined.
+ */
+export type SendMode = 'none' | 'send' | 'send-and-wait';
+
+/** Send modes, in the order they are listed in help and errors */
+export const SEND_MODES: SendMode[] = ['none', 'send', 'send-and-wait'];
+
 /** Gate counts for a specific circuit */
 export interface GateCount {
   /** The name of the circuit. */
@@ -37,6 +107,61 @@ export interface GateCount {
   gateCount: number;
   /** Witness generation time in ms (hardware-dependent). */
   witgenMs?: number;
+  /** For a batch, the index of the call the circuit is attributed to; unset for circuits shared by the transaction. */
+  call?: number;
+}
+
+/** Summary statistics over repeated measurements of a single metric */
+export interface SampleStats {
+  /** The smallest measured value. */
+  min: number;
+  /** The median of the measured values. */
+  median: number;
+  /** The arithmetic mean of the measured values. */
+  mean: number;
+  /** The 95th percentile of the measured values. */
+  p95: number;
+  /** The sample standard deviation of the measured values. */
+  stddev: number;
+}
+
+/** Measurements from a single profiling run of a function */
+export interface ProfileSample {
+  /** The total gate count measured in this run. */
+  totalGateCount: number;
+  /** Gas usage estimated in this run. */
+  gas?: GasLimits;
+  /** Witness generation time summed over all circuits, in milliseconds. */
+  witgenMs?: number;
+  /** Proving time in milliseconds. */
+  provingTime?: number;
+  /** Memory and CPU time used while profiling in this run. */
+  resources?: ResourceUsage;
+}
+
+/** Memory and CPU time used by the process and its child processes (e.g. native provers) while profiling a function */
+export interface ResourceUsage {
+  /** Peak resident set size of the process and its child processes, in MiB. */
+  peakRssMiB: number;
+  /** Peak JavaScript heap used by the process, in MiB. */
+  peakHeapUsedMiB: number;
+  /** CPU time spent in user mode by all threads of the process and its child processes, in milliseconds. */
+  cpuUserMs: number;
+  /** CPU time spent in kernel mode by all threads of the process and its child processes, in milliseconds. */
+  cpuSystemMs: number;
+}
+
+/** Step of benchmarking in which a failure happened */
+export type ProfilePhase = 'setup' | 'beforeEach' | 'request' | 'simulate' | 'profile' | 'send' | 'wait' | 'afterEach';
+
+/** Why a benchmarked function (or a whole benchmark file) failed */
+export interface ProfileFailure {
+  /** The phase that failed. */
+  phase: ProfilePhase;
+  /** The error message. */
+  message: string;
+  /** Whether the failure was caused by the per-method timeout. */
+  timedOut?: boolean;
 }
 
 /** Result of profiling a single function */
@@ -47,24 +172,363 @@ export interface ProfileResult {
   totalGateCount: number;
   /** Detailed gate counts for each circuit in the function. */
   gateCounts: GateCount[];
-  /** Gas usage information for the function. */
+  /** Gas limits estimated by a zero-padding simulation. */
   gas?: GasLimits;
+  /**
+   * Gas used by the transaction, as simulated before it is sent rather than read from its receipt.
+   * Requires the profiler to have a wallet.
+   */
+  simulatedGasUsed?: GasUsage;
+  /** Side effects of the transaction, as simulated before it is sent. Requires the profiler to have a wallet. */
+  sideEffects?: SideEffects;
+  /** Fee paid by the sent transaction, in base units of Fee Juice (a decimal string, it can exceed 2^53). */
+  fee?: string;
+  /** Proving time in milliseconds. The median of all samples when profiled more than once. */
+  provingTime?: number;
+  /** Memory and CPU time used while profiling. Each metric is the median of all samples when profiled more than once. */
+  resources?: ResourceUsage;
+  /** Every measured run, present when the function was profiled more than once. */
+  samples?: ProfileSample[];
+  /** Outcome of profiling. Reports written before this field existed only contain successful results. */
+  status?: 'success' | 'failed';
+  /** Failure details, present when `status` is `failed`. Metrics of a failed result are 0. */
+  error?: ProfileFailure;
+  /** Statistics over the timing metrics of `samples`. */
+  stats?: {
+    /** Proving time statistics in milliseconds. */
+    provingTime?: SampleStats;
+    /** Total witness generation time statistics in milliseconds. */
+    witgenMs?: SampleStats;
+  };
+  /** Per-call attribution of a batch entry and its cost compared with separate transactions. */
+  batch?: BatchBreakdown;
+  /** How long the sent transaction took to be included, present in the `send-and-wait` send mode. */
+  inclusion?: InclusionTimings;
+}
+
+/** End-to-end latency of a transaction sent in the `send-and-wait` send mode, in milliseconds */
+export interface InclusionTimings {
+  /** Hash of the sent transaction. */
+  txHash: string;
+  /** Number of the block the transaction was included in. */
+  blockNumber?: number;
+  /** Client-side proving time of the transaction, as profiled. Missing when proving is skipped. */
+  timeToProof?: number;
+  /** From the start of the send until the node accepted the transaction, including the wallet proving it. */
+  timeToSubmit: number;
+  /** From the start of the send until the receipt reported the transaction mined. */
+  timeToMined: number;
+}
+
+/** Costs compared between a batch and its calls sent separately */
+export interface BatchCost {
+  /** Total gate count. */
+  gates: number;
+  /** Data Availability gas limit. */
+  daGas?: number;
+  /** L2 gas limit. */
+  l2Gas?: number;
   /** Proving time in milliseconds. */
   provingTime?: number;
 }
 
+/** One call of a batch */
+export interface BatchCallResult {
+  /** Name of the call, derived like the name of a plain interaction. */
+  name: string;
+  /** Gates of the circuits attributed to the call: its own, the functions it calls and the kernels processing them. */
+  gates: number;
+  /** Gates of the call profiled as a transaction of its own, if it could be profiled alone. */
+  separateGates?: number;
+}
+
+/** How the gates of a batch are split between its calls */
+export interface BatchBreakdown {
+  /** The calls, in execution order. */
+  calls: BatchCallResult[];
+  /** Gates of the circuits run once for the whole transaction: the account entrypoint, kernel init, resets and tail. */
+  sharedGates: number;
+  /** Sum of the costs of the calls profiled as separate transactions; missing if a call could not be profiled alone. */
+  separate?: BatchCost;
+  /** Cost of the batch minus `separate`; negative when batching is cheaper. */
+  overhead?: BatchCost;
+}
+
+/** Absolute limits for a benchmarked function. Every limit is optional. */
+export interface Budget {
+  /** Maximum total gate count. */
+  maxGates?: number;
+  /** Maximum Data Availability gas limit. */
+  maxDaGas?: number;
+  /** Maximum L2 gas limit. */
+  maxL2Gas?: number;
+  /** Maximum proving time in milliseconds. Not checked when proving is skipped. */
+  maxProvingTime?: number;
+}
+
+/** A budget limit exceeded by a benchmarked function */
+export interface BudgetViolation {
+  /** The name of the function. */
+  name: string;
+  /** The metric that exceeded its limit. */
+  metric: 'gates' | 'daGas' | 'l2Gas' | 'provingTime';
+  /** The configured limit. */
+  limit: number;
+  /** The measured value. */
+  actual: number;
+}
+
+/** Deploy options of a DeploymentIntent; the sender is set with `caller`. */
+export type DeploymentOptions = Omit<DeployOptions, 'from'>;
+
+/** Defines a contract or account deployment to be benchmarked, including its constructor. */
+export interface DeploymentIntent {
+  /** Address sending the deployment; `AztecAddress.ZERO` for an account deployment paying its own fee. */
+  caller: AztecAddress;
+  /** The deploy method, e.g. `TokenContract.deploy(wallet, admin)` or `await accountManager.getDeployMethod()`. */
+  deploy: DeployMethod;
+  /** Name of the deployed contract, e.g. `TokenContract.artifact.name`. Names the entry `deploy:<contractName>`. */
+  contractName?: string;
+  /** Options used to simulate, profile and send the deployment, e.g. `contractAddressSalt` or `fee`. */
+  options?: DeploymentOptions;
+}
+
+/** Defines several contract function calls to be benchmarked as a single transaction. */
+export interface BatchIntent {
+  /** Address sending the batch. */
+  caller: AztecAddress;
+  /** The calls, executed in order in one transaction. */
+  batch: ContractFunctionInteraction[];
+}
+
+/**
+ * The part of an interaction the profiler uses to simulate, profile and send a transaction.
+ * ContractFunctionInteraction satisfies it, and deployments and batches are wrapped to satisfy it.
+ */
+export interface ProfiledInteraction {
+  /** Builds the execution payload of the transaction. */
+  request(options?: RequestInteractionOptions): Promise<ExecutionPayload>;
+  /** Simulates the transaction, estimating its gas. */
+  simulate(options: SimulateInteractionOptions): Promise<Pick<SimulationResult, 'estimatedGas'>>;
+  /** Profiles the transaction's circuits, optionally proving it. */
+  profile(options: ProfileInteractionOptions): Promise<TxProfileResult>;
+  /** Sends the transaction and, unless `wait` is `NO_WAIT`, waits for its receipt. */
+  send<W extends InteractionWaitOptions = undefined>(options: SendInteractionOptions<W>): Promise<SendReturn<W>>;
+}
+
+/** A transaction as the profiler measures it: the interaction and the address sending it */
+export interface ProfiledCall {
+  /** Address sending the transaction. */
+  caller: AztecAddress;
+  /** The interaction to simulate, profile and send. */
+  action: ProfiledInteraction;
+}
+
+/** A transaction that can be benchmarked: a contract function interaction, a deployment or a batch */
+export type BenchmarkedIntent = ContractFunctionInteractionCallIntent | DeploymentIntent | BatchIntent;
+
+/** Builds an interaction right before it is profiled, against the state left by the previous entries and `beforeEach`. */
+export type InteractionFactory = () => BenchmarkedIntent | Promise<BenchmarkedIntent>;
+
 /** Defines a contract interaction to be benchmarked, with a custom display name. */
 export interface NamedBenchmarkedInteraction {
-  /** The contract function interaction from Aztec.js. */
-  interaction: ContractFunctionInteractionCallIntent;
+  /** The contract function interaction from Aztec.js or deployment, or a factory building it lazily. */
+  interaction: BenchmarkedIntent | InteractionFactory;
   /** The custom name to be used for this benchmark in reports. */
   name: string;
   /** Extra addresses whose private state (keys, notes) should be accessible during execution. */
   additionalScopes?: AztecAddress[];
+  /** Number of measured profiling runs for this entry. Overrides the `--runs` option. */
+  runs?: number;
+  /** Number of discarded warmup runs for this entry. Overrides the `--warmup` option. */
+  warmup?: number;
+  /** Absolute limits for this entry. Limits set in Nargo.toml for the same name take precedence. */
+  budget?: Budget;
+  /** Timeout in milliseconds for profiling this entry. Overrides the `--timeout` option. */
+  timeout?: number;
+  /** Labels used to select entries with `--tag` and `--exclude-tag`, e.g. `slow` or `fpc`. */
+  tags?: string[];
+  /** How the transaction is sent once measured. Overrides the `--send-mode` option. */
+  sendMode?: SendMode;
+  /** The parameter sweep this entry is a point of. Set by `sweep`. */
+  sweep?: SweepPoint;
+}
+
+/** Position of a benchmark entry in a parameter sweep */
+export interface SweepPoint {
+  /** Name of the sweep, e.g. `transfer`. */
+  series: string;
+  /** Singular name of the swept parameter, e.g. `note`. */
+  parameter: string;
+  /** Value of the parameter for this entry. */
+  value: number;
+}
+
+/** Metrics a cost model is fitted for */
+export type SweepMetric = 'gates' | 'daGas' | 'l2Gas';
+
+/** Cost of a function as a function of a swept parameter */
+export interface CostModel {
+  /**
+   * `linear`: cost = intercept + marginal × value.
+   * `step`: cost = intercept + stepCost × ⌈value / stepWidth⌉, e.g. when a kernel circuit runs once per few notes.
+   */
+  kind: 'linear' | 'step';
+  /** Cost per unit of the parameter. For a step model, the cost of a step spread over its width. */
+  marginal: number;
+  /** Fixed cost, independent of the parameter. */
+  intercept: number;
+  /** Coefficient of determination of the model, 1 for a perfect fit. */
+  r2: number;
+  /** Parameter units per step (step models only). */
+  stepWidth?: number;
+  /** Cost added by each step (step models only). */
+  stepCost?: number;
+}
+
+/** A group of results measuring one function over a range of a parameter */
+export interface SweepSeries {
+  /** Name of the sweep. */
+  name: string;
+  /** Singular name of the swept parameter. */
+  parameter: string;
+  /** Parameter values, in ascending order, with the name of the result measured for each. */
+  points: Array<{ value: number; name: string }>;
+  /** Models fitted on the successful points. Empty if fewer than two distinct values succeeded. */
+  fits: Partial<Record<SweepMetric, CostModel>>;
+}
+
+/** Selection of the benchmark entries to run */
+export interface BenchmarkFilter {
+  /** Glob, or regular expression wrapped in slashes, that entry names must match. */
+  pattern?: string;
+  /** Entries must have at least one of these tags. */
+  tags?: string[];
+  /** Entries with any of these tags are skipped. */
+  excludeTags?: string[];
+}
+
+/** The filter a report was produced with */
+export interface ReportFilter extends BenchmarkFilter {
+  /** Names of the entries skipped by the filter. They are left out of comparisons. */
+  excluded: string[];
+}
+
+/** The shard of a sharded run (`--shard`) that produced a report */
+export interface ReportShard {
+  /** 1-based index of the shard. */
+  index: number;
+  /** Number of shards the run was split into. */
+  count: number;
+  /** Functions of the contract left to other shards, if it was split across shards. */
+  skipped?: string[];
+}
+
+/** CLI flags that affect the measured values, recorded in the report */
+export interface RunFlags {
+  /** Whether proving was skipped (proving times are 0). */
+  skipProving: boolean;
+  /** Number of measured profiling runs per function. */
+  runs: number;
+  /** Number of discarded warmup runs per function. */
+  warmup: number;
+  /** Whether failures were recorded instead of aborting the run. */
+  continueOnError?: boolean;
+  /** Per-method timeout in milliseconds. */
+  timeout?: number;
+  /** How the benchmarked transactions were sent, unless overridden per entry. */
+  sendMode?: SendMode;
+}
+
+/**
+ * Settings of a run, set in `aztec-benchmark.config.ts` or one of its profiles.
+ * Each setting corresponds to a CLI flag, which overrides it when passed.
+ */
+export interface BenchmarkSettings {
+  /** Path of the Nargo.toml file (`--config`). */
+  nargoToml?: string;
+  /** Contracts, or workspace packages, to benchmark (`--contracts`). */
+  contracts?: string[];
+  /** Also run benchmark files found by convention (`--discover`). */
+  discover?: boolean;
+  /** Directory to save reports in (`--output-dir`). */
+  outputDir?: string;
+  /** Suffix appended to report filenames (`--suffix`). */
+  suffix?: string;
+  /** Skip proving transactions (`--skip-proving`). */
+  skipProving?: boolean;
+  /** Number of measured profiling runs per function (`--runs`). */
+  runs?: number;
+  /** Number of discarded warmup runs per function (`--warmup`). */
+  warmup?: number;
+  /** Record failures in the reports instead of aborting (`--continue-on-error`). */
+  continueOnError?: boolean;
+  /** Per-method timeout in milliseconds (`--timeout`). */
+  timeout?: number;
+  /** How the benchmarked transactions are sent (`--send-mode`). */
+  sendMode?: SendMode;
+  /** Number of contracts benchmarked in parallel (`--jobs`). */
+  jobs?: number;
+  /** Per-contract timeout in milliseconds (`--contract-timeout`). */
+  contractTimeout?: number;
+  /** JSONL history file to append the reports to (`--history`). */
+  history?: string;
+  /** Formats the reports are written in (`--format`). */
+  formats?: ExportFormat[];
+  /** Glob or regular expression the method names must match (`--filter`). */
+  filter?: string;
+  /** Only benchmark methods with one of these tags (`--tag`). */
+  tags?: string[];
+  /** Skip methods with any of these tags (`--exclude-tag`). */
+  excludeTags?: string[];
+  /** Regression threshold percentage of `compare` and `report` (`--threshold`). */
+  threshold?: number;
+  /** Regression threshold percentage of peak memory in `compare` and `report` (`--memory-threshold`). */
+  memoryThreshold?: number;
+  /** Budgets keyed by contract, then by function name; `*` applies to every function of the contract. */
+  budgets?: Record<string, Record<string, Budget>>;
+  /** Reporters receiving the events of a run: built-in names, module paths or reporters (`--reporter`). */
+  reporters?: Array<string | Reporter>;
+  /** File the `ndjson` reporter writes to instead of stdout (`--ndjson-output`). */
+  ndjsonOutput?: string;
+}
+
+/** The configuration a report was produced with */
+export interface ReportConfig {
+  /** Path of the loaded config file, relative to the working directory. */
+  file?: string;
+  /** The selected profile. */
+  profile?: string;
+  /** The effective settings, after applying the profile and the CLI flags. */
+  settings: BenchmarkSettings;
+}
+
+/** Where and how a report was produced */
+export interface Provenance {
+  /** ISO 8601 time at which the run started. */
+  timestamp: string;
+  /** Commit of the benchmarked repository, if it is a git checkout. */
+  gitCommit?: string;
+  /** Whether the checkout had uncommitted changes. */
+  gitDirty?: boolean;
+  /** Version of aztec-benchmark that produced the report. */
+  cliVersion: string;
+  /** Aztec version used for the run: the project's installed `@aztec/aztec.js`, else the version aztec-benchmark targets. */
+  aztecVersion?: string;
+  /** Versions of the Aztec packages installed in the benchmarked project, keyed by package name. */
+  packages?: Record<string, string>;
+  /** Node.js version used for the run. */
+  nodeVersion: string;
+  /** CLI flags used for the run. */
+  flags: RunFlags;
+  /** The effective configuration of the run: the config file and profile merged with the CLI flags. */
+  config?: ReportConfig;
 }
 
 /** Structure of the output JSON report */
 export interface ProfileReport {
+  /** Version of the report format, see `schema/profile-report.schema.json` */
+  schemaVersion: number;
   /** Total gate counts keyed by function name */
   summary: Record<string, number>;
   /** Detailed results for each function */
@@ -75,14 +539,33 @@ export interface ProfileReport {
   provingTimeSummary: Record<string, number>;
   /** System information where the benchmark was run */
   systemInfo: SystemInfo;
+  /** How the report was produced. Missing in reports upgraded from before schema version 2 */
+  provenance?: Provenance;
+  /** Budget limits exceeded in this run, if any budgets were configured */
+  budgetViolations?: BudgetViolation[];
+  /** The filter that selected the benchmarked functions, if the run was filtered */
+  filter?: ReportFilter;
+  /** Parameter sweeps among the results, with their fitted cost models */
+  sweeps?: SweepSeries[];
+  /** The shard that produced the report, until the shard reports are merged */
+  shard?: ReportShard;
 }
 
+/** Optional report sections provided by the CLI on top of the profiling results */
+export type ReportExtras = Partial<Pick<ProfileReport, 'provenance' | 'budgetViolations' | 'filter' | 'sweeps' | 'shard'>>;
+
 /** Abstract class for users to extend */
 export abstract class BenchmarkBase {
   /** Optional setup function run before benchmarks */
   abstract setup?(): Promise<BenchmarkContext>;
-  /** Function returning the methods to benchmark. Can be a mix of plain interactions or named interactions. */
-  abstract getMethods(context: BenchmarkContext): Array<ContractFunctionInteractionCallIntent | NamedBenchmarkedInteraction>;
+  /** Function returning the methods to benchmark. Can be a mix of plain interactions, deployments or named interactions. */
+  abstract getMethods(
+    context: BenchmarkContext,
+  ): Array<BenchmarkedIntent | NamedBenchmarkedInteraction> | Promise<Array<BenchmarkedIntent | NamedBenchmarkedInteraction>>;
+  /** Optional hook run before each method is built and profiled, e.g. to mint the notes it spends */
+  beforeEach?(context: BenchmarkContext, name: string): Promise<void>;
+  /** Optional hook run after each method was sent, or failed, once its beforeEach hook completed */
+  afterEach?(context: BenchmarkContext, name: string): Promise<void>;
   /** Optional teardown function run after benchmarks (no longer abstract) */
   teardown?(context: BenchmarkContext): Promise<void>;
 } 
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * Entry point of the child process that benchmarks a single contract.
+ * The parent sends a `run` message with the job, receives its events as `event` messages and waits for the `result` message.
+ */
+import { format } from 'node:util';
+import { logEvent, type BenchmarkEvent, type LogEvent } from './events.js';
+import { runContractBenchmark } from './runContract.js';
+import type { WorkerRequest, WorkerResponse } from './workerPool.js';
+
+/**
+ * Sends an event of the contract to the parent.
+ * @param event - The event.
+ */
+function sendEvent(event: BenchmarkEvent) {
+  const response: WorkerResponse = { type: 'event', event };
+  process.send!(response);
+}
+
+/** Level of the log events each console method is sent as */
+const CONSOLE_LEVELS: Record<'log' | 'info' | 'debug' | 'warn' | 'error', LogEvent['level']> = {
+  log: 'info',
+  info: 'info',
+  debug: 'info',
+  warn: 'warn',
+  error: 'error',
+};
+
+process.once('message', async (message: WorkerRequest) => {
+  // Console output of the benchmark is sent as log events, so it reaches the reporters in order with the other events.
+  for (const [method, level] of Object.entries(CONSOLE_LEVELS)) {
+    console[method as keyof typeof CONSOLE_LEVELS] = (...args: unknown[]) => sendEvent(logEvent(level, format(...args), message.job.contractName));
+  }
+
+  const { summary, report } = await runContractBenchmark(message.job, sendEvent);
+  const response: WorkerResponse = { type: 'result', summary, report };
+  // Exit explicitly: wallets and nodes may leave handles open that would keep the process alive.
+  process.send!(response, () => process.exit(0));
+});
@@ -0,0 +1,151 @@
+import { fork } from 'node:child_process';
+import path from 'node:path';
+import readline from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+import type { BenchmarkEvent, EventListener } from './events.js';
+import { Profiler } from './profiler.js';
+import { createRunnerErrorResult, toReportShard, type ContractJob, type ContractRun } from './runContract.js';
+import type { ProfileReport } from './types.js';
+
+/** Message sent from the CLI to a worker process */
+export type WorkerRequest = { type: 'run'; job: ContractJob };
+
+/** Message sent from a worker process back to the CLI */
+export type WorkerResponse =
+  | { type: 'event'; event: BenchmarkEvent }
+  | ({ type: 'result' } & ContractRun);
+
+/** Options controlling how contracts are scheduled on worker processes */
+export interface WorkerPoolOptions {
+  /** Maximum number of workers running at the same time. */
+  concurrency: number;
+  /** Kill a worker that runs longer than this many milliseconds. */
+  contractTimeout?: number;
+  /** Stop starting new contracts after the first failure. */
+  stopOnFailure: boolean;
+  /** Receives the events of every contract. */
+  onEvent: EventListener;
+}
+
+// Resolve the worker next to this module, as .ts when running from source and .js when built.
+const WORKER_PATH = fileURLToPath(
+  new URL(`./worker${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url),
+);
+
+/**
+ * Copies a worker's output line by line, prefixed with its contract name.
+ * @param input - The worker's stdout or stderr.
+ * @param output - Where to write the prefixed lines.
+ * @param prefix - Prefix added to every line.
+ */
+function pipeWithPrefix(input: Readable, output: Writable, prefix: string) {
+  readline.createInterface({ input }).on('line', line => output.write(`${prefix}${line}\n`));
+}
+
+/**
+ * Benchmarks one contract in a dedicated worker process, forwarding its events.
+ * A worker that crashes or exceeds the contract timeout is reported as a failed contract;
+ * in continue-on-error mode a BENCHMARK_RUNNER_ERROR report is written in its place.
+ * @param job - The contract to benchmark.
+ * @param options - The pool options.
+ * @param prefixOutput - Whether to prefix the worker's output with the contract name.
+ * @returns The outcome and report sent by the worker, or a failed summary.
+ *          Rejects only if reporting the outcome of a failed worker throws.
+ */
+function runJobInWorker(job: ContractJob, options: WorkerPoolOptions, prefixOutput: boolean): Promise<ContractRun> {
+  const { onEvent } = options;
+  onEvent({ type: 'contract-start', contractName: job.contractName, benchmarkFile: job.benchmarkFilePath, outputPath: job.outputJsonPath });
+  const start = performance.now();
+  const finish = (run: ContractRun) => {
+    onEvent({ type: 'contract-end', contractName: job.contractName, summary: run.summary, durationMs: Math.round(performance.now() - start) });
+    return run;
+  };
+
+  return new Promise((resolve, reject) => {
+    // The worker inherits execArgv, so it runs under the same tsx loader as the CLI.
+    const child = fork(WORKER_PATH, [], {
+      stdio: prefixOutput ? ['ignore', 'pipe', 'pipe', 'ipc'] : ['inherit', 'inherit', 'inherit', 'ipc'],
+    });
+    if (prefixOutput) {
+      pipeWithPrefix(child.stdout!, process.stdout, `[${job.contractName}] `);
+      pipeWithPrefix(child.stderr!, process.stderr, `[${job.contractName}] `);
+    }
+
+    let run: ContractRun | undefined;
+    let failure: string | undefined;
+    let timedOut = false;
+
+    const timer = options.contractTimeout
+      ? setTimeout(() => {
+          timedOut = true;
+          failure = `timed out after ${options.contractTimeout}ms`;
+          child.kill('SIGKILL');
+        }, options.contractTimeout)
+      : undefined;
+
+    child.on('message', (message: WorkerResponse) => {
+      if (message.type === 'event') onEvent(message.event);
+      else if (message.type === 'result') run = { summary: message.summary, report: message.report };
+    });
+    child.on('error', error => {
+      failure ??= error.message;
+    });
+    child.on('exit', async (code, signal) => {
+      clearTimeout(timer);
+      // The handler's promise is not awaited by anyone, so every outcome must settle the job's promise.
+      try {
+        if (run && !timedOut) return resolve(finish(run));
+
+        failure ??= signal ? `was killed by ${signal}` : `exited with code ${code}`;
+        const message = `Benchmark worker ${failure}`;
+        onEvent({ type: 'failure', contractName: job.contractName, phase: 'profile', message, ...(timedOut && { timedOut: true }) });
+        let report: ProfileReport | undefined;
+        if (job.continueOnError) {
+          const error = createRunnerErrorResult('profile', new Error(message));
+          if (timedOut) error.error!.timedOut = true;
+          try {
+            report = await new Profiler(undefined, { formats: job.formats, contractName: job.contractName, onEvent }).saveResults(
+              [error],
+              job.outputJsonPath,
+              { provenance: job.provenance, shard: toReportShard(job.shard) },
+            );
+          } catch {
+            // saveResults reported the error; the contract is failed either way, without a report.
+          }
+        }
+        resolve(finish({ summary: { contractName: job.contractName, failed: true, failedMethods: 0, budgetViolations: 0 }, report }));
+      } catch (error) {
+        reject(error);
+      }
+    });
+
+    const request: WorkerRequest = { type: 'run', job };
+    child.send(request);
+  });
+}
+
+/**
+ * Benchmarks contracts in isolated worker processes, running up to `concurrency` at once.
+ * @param jobs - The contracts to benchmark, started in order.
+ * @param options - The pool options.
+ * @returns The outcome and report of every contract that was started, in job order.
+ */
+export async function runInWorkers(jobs: ContractJob[], options: WorkerPoolOptions): Promise<ContractRun[]> {
+  const runs: ContractRun[] = new Array(jobs.length);
+  const prefixOutput = options.concurrency > 1;
+  let next = 0;
+  let stopped = false;
+
+  const runLoop = async () => {
+    while (!stopped && next < jobs.length) {
+      const index = next++;
+      const run = await runJobInWorker(jobs[index], options, prefixOutput);
+      runs[index] = run;
+      if (run.summary.failed && options.stopOnFailure) stopped = true;
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, jobs.length) }, runLoop));
+  return runs.filter(Boolean);
+}